@@ -0,0 +1,143 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ComponentContext, SelectionPayload } from '../../src/shared/types';
+import { DEFAULT_CONFIG, type AgentConfig, type UiAgentConfig } from '../config';
+import { createSourceIndex, type SourceIndex } from '../resolvers/sourceIndex';
+import { createCommandProvider, fillCommandTemplate } from './commandProvider';
+import { getAgentProvider } from '.';
+
+const payload: SelectionPayload = {
+  pageUrl: '/',
+  selector: 'button.save',
+  testId: null,
+  domOuterHtml: '<button class="save">Save</button>',
+  textSnippet: 'Save',
+  classes: ['save'],
+};
+
+const context: ComponentContext = {
+  id: 'ctx-1',
+  source: 'heuristic',
+  filePath: 'src/App.tsx',
+  lineNumber: 3,
+  confidence: 'high',
+  selectorSummary: 'button.save',
+  domSummary: '<button class="save">',
+  needsVerification: false,
+  verified: true,
+};
+
+let cwd: string;
+let index: SourceIndex;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-command-'));
+  await mkdir(join(cwd, 'src'));
+  await writeFile(join(cwd, 'src/App.tsx'), `export const App = () => (\n  <button className="save">Save</button>\n);`);
+  index = await createSourceIndex(cwd, DEFAULT_CONFIG);
+});
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+const agentOf = (agent: Partial<AgentConfig>): AgentConfig => ({
+  ...DEFAULT_CONFIG.agent,
+  provider: 'command',
+  ...agent,
+});
+
+test('keeps a prompt containing spaces, quotes and braces as one argument', () => {
+  const prompt = 'Make the "Save" button {primary}\nand use {cwd} as is';
+
+  const template = ['agent', '--prompt={prompt}', '{prompt}', '--dir', '{cwd}'];
+
+  expect(fillCommandTemplate(template, { prompt, cwd: '/my app' })).toEqual([
+    'agent',
+    `--prompt=${prompt}`,
+    prompt,
+    '--dir',
+    '/my app',
+  ]);
+});
+
+test('locates an element with the resolve command', async () => {
+  // Answers with line 3 only if the prompt arrived whole
+  const script = `const line = process.argv[1].includes('Selector: button.save') ? 3 : 0;
+    console.log(JSON.stringify({ filePath: 'src/App.tsx', lineNumber: line }));`;
+  const provider = createCommandProvider(agentOf({ resolveCommand: [process.execPath, '-e', script, '{prompt}'] }));
+
+  expect(await provider.resolveLocation({ payload, cwd, index })).toEqual({
+    filePath: 'src/App.tsx',
+    componentName: undefined,
+    lineNumber: 3,
+  });
+});
+
+test('applies a change with the prompt and project directory it was given', async () => {
+  const script = `require('fs').writeFileSync(process.argv[2] + '/prompt.txt', process.argv[1]); console.log('Done')`;
+  const applyCommand = [process.execPath, '-e', script, '{prompt}', '{cwd}'];
+  const provider = createCommandProvider(agentOf({ applyCommand }));
+
+  const response = await provider.applyChange({ contexts: [context], userMessage: 'Make it "blue" {now}', cwd });
+
+  expect(response).toEqual({
+    success: true,
+    message: `Changes applied successfully by ${process.execPath}`,
+    agentOutput: 'Done\n',
+  });
+  expect(await readFile(join(cwd, 'prompt.txt'), 'utf-8')).toContain('Make it "blue" {now}');
+});
+
+test('reports a failing or missing command without throwing', async () => {
+  const failing = createCommandProvider(
+    agentOf({
+      resolveCommand: [process.execPath, '-e', 'process.exit(2)'],
+      applyCommand: [process.execPath, '-e', 'console.error("no access"); process.exit(2)'],
+    })
+  );
+  expect(await failing.resolveLocation({ payload, cwd, index })).toBeNull();
+  expect(await failing.applyChange({ contexts: [context], userMessage: 'Change it', cwd })).toEqual({
+    success: false,
+    message: `${process.execPath} exited with code 2`,
+    agentOutput: 'no access\n',
+  });
+
+  const unset = createCommandProvider(agentOf({}));
+  expect(await unset.resolveLocation({ payload, cwd, index })).toBeNull();
+  expect(await unset.applyChange({ contexts: [context], userMessage: 'Change it', cwd })).toMatchObject({
+    success: false,
+    message: 'No agent.applyCommand configured for the command provider',
+  });
+});
+
+test('creates the requested provider, or the configured one', () => {
+  const config: UiAgentConfig = { ...DEFAULT_CONFIG, agent: agentOf({ applyCommand: ['agent', '{prompt}'] }) };
+
+  expect(getAgentProvider(config).name).toBe('command');
+  expect(getAgentProvider(config, 'stub').name).toBe('stub');
+  expect(getAgentProvider(config, 'cursor').name).toBe('cursor');
+  expect(() => getAgentProvider(config, 'copilot')).toThrow(
+    'Unknown agent provider "copilot". Use one of cursor, command, stub'
+  );
+});
+
+test('answers locally with the stub provider', async () => {
+  const stub = getAgentProvider(DEFAULT_CONFIG, 'stub');
+
+  expect(await stub.resolveLocation({ payload, cwd, index })).toEqual({
+    filePath: 'src/App.tsx',
+    componentName: 'App',
+    lineNumber: 2,
+  });
+  expect(await stub.applyChange({ contexts: [context], userMessage: 'Make it blue', cwd })).toMatchObject({
+    success: true,
+    message: 'Stub agent: no changes made',
+    agentOutput: expect.stringContaining('Make it blue'),
+  });
+});
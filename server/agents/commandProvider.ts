@@ -0,0 +1,70 @@
+import type { AgentConfig } from '../config';
+import type { AgentProvider } from './types';
+import { buildChangePrompt, buildLocatePrompt } from './prompts';
+import { parseLocationResponse } from './parseResponse';
+import { describeFailure, runAgentCommand } from './runCommand';
+import { progressCallbacks } from './progress';
+
+/**
+ * Fill the {prompt} and {cwd} placeholders of a command template.
+ * Each template entry becomes exactly one argument, whatever the prompt contains.
+ */
+export function fillCommandTemplate(template: string[], values: { prompt: string; cwd: string }): string[] {
+  return template.map((arg) => arg.replace(/\{(prompt|cwd)\}/g, (_match, name: 'prompt' | 'cwd') => values[name]));
+}
+
+/**
+ * Provider for any agent CLI or local script, configured with command templates:
+ *
+ *   agent: {
+ *     provider: 'command',
+ *     resolveCommand: ['my-agent', 'locate', '--json', '{prompt}'],
+ *     applyCommand: ['my-agent', 'edit', '{prompt}'],
+ *   }
+ *
+ * The resolve command must print the JSON location asked for in the prompt.
+ */
+export function createCommandProvider(agent: AgentConfig): AgentProvider {
+  return {
+    name: 'command',
+
+    async resolveLocation({ payload, cwd }) {
+      if (!agent.resolveCommand) {
+        console.warn('[ui-agent] Command provider has no agent.resolveCommand, skipping');
+        return null;
+      }
+
+      const [command, ...args] = fillCommandTemplate(agent.resolveCommand, { prompt: buildLocatePrompt(payload), cwd });
+      const result = await runAgentCommand(command, args, { cwd, timeoutMs: agent.resolveTimeoutMs, label: command });
+
+      const failure = describeFailure(result, command);
+      if (failure) {
+        console.warn(`[ui-agent] ${failure}`);
+        return null;
+      }
+      return parseLocationResponse(result.stdout);
+    },
+
+    async applyChange({ contexts, userMessage, cwd, onEvent, signal }) {
+      if (!agent.applyCommand) {
+        return { success: false, message: 'No agent.applyCommand configured for the command provider' };
+      }
+
+      const prompt = buildChangePrompt(contexts, userMessage);
+      const [command, ...args] = fillCommandTemplate(agent.applyCommand, { prompt, cwd });
+      const result = await runAgentCommand(command, args, {
+        cwd,
+        timeoutMs: agent.submitTimeoutMs,
+        signal,
+        label: command,
+        ...progressCallbacks('command', onEvent),
+      });
+
+      const failure = describeFailure(result, command);
+      if (failure) {
+        return { success: false, message: failure, agentOutput: result.stderr || result.stdout || undefined };
+      }
+      return { success: true, message: `Changes applied successfully by ${command}`, agentOutput: result.stdout };
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import type { AgentConfig } from '../config';
+import type { AgentProvider } from './types';
+import { buildChangePrompt, buildLocatePrompt } from './prompts';
+import { parseLocationResponse } from './parseResponse';
+import { describeFailure, runAgentCommand } from './runCommand';
+import { progressCallbacks } from './progress';
+
+/**
+ * Provider for the cursor-agent CLI.
+ * Install with: curl https://cursor.com/install -fsS | bash
+ */
+export function createCursorProvider(agent: AgentConfig): AgentProvider {
+  const label = agent.command;
+
+  return {
+    name: 'cursor',
+
+    async resolveLocation({ payload, cwd }) {
+      const prompt = buildLocatePrompt(payload);
+      const result = await runAgentCommand(
+        agent.command,
+        ['-p', '--output-format', 'json', '--model', agent.model, prompt],
+        { cwd, timeoutMs: agent.resolveTimeoutMs, label }
+      );
+
+      const failure = describeFailure(result, label);
+      if (failure) {
+        console.warn(`[ui-agent] ${failure}`);
+        return null;
+      }
+      return parseLocationResponse(result.stdout);
+    },
+
+    async applyChange({ contexts, userMessage, cwd, onEvent, signal }) {
+      const prompt = buildChangePrompt(contexts, userMessage);
+      const result = await runAgentCommand(agent.command, ['--model', agent.model, prompt], {
+        cwd,
+        timeoutMs: agent.submitTimeoutMs,
+        signal,
+        label,
+        ...progressCallbacks('cursor', onEvent),
+      });
+
+      const failure = describeFailure(result, label);
+      if (failure) {
+        return { success: false, message: failure, agentOutput: result.stderr || result.stdout || undefined };
+      }
+      console.log(`[ui-agent] ${label} completed successfully`);
+      return { success: true, message: `Changes applied successfully by ${label}`, agentOutput: result.stdout };
+    },
+  };
+}
@@ -0,0 +1,84 @@
+/** @jest-environment node */
+import { mkdtemp, rename, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { diffSnapshots, git, snapshotWorkingTree, type WorkingTreeSnapshot } from './gitDiff';
+
+let cwd: string;
+
+beforeEach(async () => {
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-diff-'));
+  await git(cwd, ['init', '--quiet']);
+  await writeFile(join(cwd, 'edited.ts'), 'export const a = 1;\nexport const b = 2;\n');
+  await writeFile(join(cwd, 'deleted.ts'), 'export const gone = true;\n');
+  await writeFile(join(cwd, 'old-name.ts'), 'export const moved = "same content, new place";\n');
+  await git(cwd, ['add', '--all']);
+  await git(cwd, ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '--quiet', '-m', 'initial']);
+});
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true });
+});
+
+async function snapshot(): Promise<WorkingTreeSnapshot> {
+  const taken = await snapshotWorkingTree(cwd);
+  if (!taken) throw new Error('no snapshot');
+  return taken;
+}
+
+test('reports nothing when the working tree did not change', async () => {
+  const before = await snapshot();
+  expect(await diffSnapshots(before, await snapshot())).toEqual([]);
+});
+
+test('splits the diff into one entry per file with its status and line counts', async () => {
+  const before = await snapshot();
+  await writeFile(join(cwd, 'edited.ts'), 'export const a = 10;\nexport const b = 2;\nexport const c = 3;\n');
+  await unlink(join(cwd, 'deleted.ts'));
+  await writeFile(join(cwd, 'added.ts'), 'export const added = true;\n');
+  await rename(join(cwd, 'old-name.ts'), join(cwd, 'new-name.ts'));
+
+  const diffs = await diffSnapshots(before, await snapshot());
+  const byPath = new Map(diffs?.map((diff) => [diff.filePath, diff]));
+
+  expect([...byPath.keys()].sort()).toEqual(['added.ts', 'deleted.ts', 'edited.ts', 'new-name.ts']);
+  expect(byPath.get('edited.ts')).toMatchObject({ status: 'modified', additions: 2, deletions: 1 });
+  expect(byPath.get('added.ts')).toMatchObject({ status: 'added', additions: 1, deletions: 0 });
+  expect(byPath.get('deleted.ts')).toMatchObject({ status: 'deleted', additions: 0, deletions: 1 });
+  expect(byPath.get('new-name.ts')).toMatchObject({ status: 'renamed', oldPath: 'old-name.ts' });
+  expect(byPath.get('edited.ts')?.patch).toMatch(/^diff --git a\/edited.ts b\/edited.ts\n/);
+  expect(byPath.get('edited.ts')?.patch).toContain('+export const a = 10;');
+  expect(byPath.get('edited.ts')?.truncated).toBeUndefined();
+});
+
+test('snapshots untracked files without touching the real index', async () => {
+  const before = await snapshot();
+  await writeFile(join(cwd, 'untracked.ts'), 'export {};\n');
+
+  const diffs = await diffSnapshots(before, await snapshot());
+
+  expect(diffs?.map((diff) => diff.filePath)).toEqual(['untracked.ts']);
+  expect(await git(cwd, ['status', '--porcelain'])).toBe('?? untracked.ts\n');
+});
+
+test('truncates very long patches', async () => {
+  const before = await snapshot();
+  await writeFile(join(cwd, 'edited.ts'), `${'export const line = "x";\n'.repeat(6000)}`);
+
+  const [diff] = (await diffSnapshots(before, await snapshot())) ?? [];
+
+  expect(diff.truncated).toBe(true);
+  expect(diff.patch.endsWith('… diff truncated')).toBe(true);
+  expect(diff.additions).toBe(6000);
+});
+
+test('returns null outside a git repository', async () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  const outside = await mkdtemp(join(tmpdir(), 'ui-agent-no-repo-'));
+  try {
+    expect(await snapshotWorkingTree(outside)).toBeNull();
+  } finally {
+    await rm(outside, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  }
+});
@@ -0,0 +1,136 @@
+import { execFile } from 'node:child_process';
+import { copyFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { isAbsolute, join } from 'node:path';
+import { promisify } from 'node:util';
+import type { FileDiff } from '../../src/shared/types';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Patches longer than this are cut off, so one generated file can't bloat the response.
+ */
+const MAX_PATCH_LENGTH = 100_000;
+
+/**
+ * State of the working tree at one moment, as a git tree object.
+ */
+export interface WorkingTreeSnapshot {
+  cwd: string;
+  /** Repository root; the tree's paths are relative to it */
+  repoRoot: string;
+  treeId: string;
+}
+
+/**
+ * Run git and return its stdout. Rejects if git fails or isn't installed.
+ */
+export async function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    env: env ? { ...process.env, ...env } : process.env,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+/**
+ * Record every file in the working tree (tracked, modified and untracked, minus ignored
+ * ones) as a tree object, without touching the real index or creating commits.
+ * Returns null if cwd isn't inside a git repository or git isn't installed.
+ *
+ * @param cwd - Project root
+ */
+export async function snapshotWorkingTree(cwd: string): Promise<WorkingTreeSnapshot | null> {
+  const tempDir = await mkdtemp(join(tmpdir(), 'ui-agent-index-'));
+  try {
+    const repoRoot = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+    const indexPath = (await git(cwd, ['rev-parse', '--git-path', 'index'])).trim();
+
+    // Start from a copy of the real index so unchanged files don't need rehashing
+    const tempIndex = join(tempDir, 'index');
+    await copyFile(isAbsolute(indexPath) ? indexPath : join(cwd, indexPath), tempIndex).catch(() => {
+      // New repository without an index yet
+    });
+
+    const env = { GIT_INDEX_FILE: tempIndex };
+    await git(repoRoot, ['add', '--all', '--', '.'], env);
+    const treeId = (await git(repoRoot, ['write-tree'], env)).trim();
+    return { cwd, repoRoot, treeId };
+  } catch (error) {
+    console.warn('[ui-agent] Could not snapshot working tree, diffs disabled:', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Split `git diff` output into one FileDiff per file.
+ */
+function parsePatch(patch: string): FileDiff[] {
+  const sections = patch.split(/^(?=diff --git )/m).filter((section) => section.startsWith('diff --git '));
+
+  return sections.map((section) => {
+    const lines = section.split('\n');
+    const firstHunk = lines.findIndex((line) => line.startsWith('@@'));
+    const header = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+    const headerValue = (prefix: string) =>
+      header.find((line) => line.startsWith(prefix))?.slice(prefix.length);
+
+    // Paths come from the ---/+++ lines; /dev/null marks an added or deleted file
+    const oldPath = headerValue('rename from ') ?? headerValue('--- a/');
+    const newPath = headerValue('rename to ') ?? headerValue('+++ b/');
+    const gitPaths = lines[0].match(/^diff --git a\/(.*) b\/(.*)$/);
+
+    const status: FileDiff['status'] = header.some((line) => line.startsWith('new file mode'))
+      ? 'added'
+      : header.some((line) => line.startsWith('deleted file mode'))
+      ? 'deleted'
+      : header.some((line) => line.startsWith('rename from '))
+      ? 'renamed'
+      : 'modified';
+
+    let additions = 0;
+    let deletions = 0;
+    for (const line of lines.slice(header.length)) {
+      if (line.startsWith('+')) additions++;
+      else if (line.startsWith('-')) deletions++;
+    }
+
+    const truncated = section.length > MAX_PATCH_LENGTH;
+    return {
+      filePath: newPath ?? oldPath ?? gitPaths?.[2] ?? '',
+      status,
+      oldPath: status === 'renamed' ? oldPath : undefined,
+      additions,
+      deletions,
+      patch: truncated ? `${section.slice(0, MAX_PATCH_LENGTH)}\n… diff truncated` : section.trimEnd(),
+      truncated: truncated || undefined,
+    };
+  });
+}
+
+/**
+ * Unified diffs of everything that differs between two snapshots of the same repository
+ * (or of two worktrees of it). Paths are relative to the repository root.
+ * Returns null if git fails.
+ */
+export async function diffSnapshots(
+  before: WorkingTreeSnapshot,
+  after: WorkingTreeSnapshot
+): Promise<FileDiff[] | null> {
+  if (after.treeId === before.treeId) return [];
+
+  try {
+    const patch = await git(before.cwd, ['diff', '--no-color', '--no-ext-diff', '--find-renames', before.treeId, after.treeId]);
+    return parsePatch(patch);
+  } catch (error) {
+    console.warn('[ui-agent] Could not diff working tree:', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
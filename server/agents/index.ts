@@ -0,0 +1,35 @@
+import { AGENT_PROVIDERS, type AgentProviderName, type UiAgentConfig } from '../config';
+import type { AgentProvider } from './types';
+import { createCursorProvider } from './cursorProvider';
+import { createCommandProvider } from './commandProvider';
+import { createStubProvider } from './stubProvider';
+
+export type { AgentProvider, AgentLocation, ChangeRequest, LocateRequest } from './types';
+export { createJobQueue, type JobQueue, type SubmitOptions } from './jobQueue';
+
+function isProviderName(name: string): name is AgentProviderName {
+  return (AGENT_PROVIDERS as readonly string[]).includes(name);
+}
+
+/**
+ * Create the agent provider a request asks for, or the configured default.
+ * Throws if the requested provider doesn't exist.
+ *
+ * @param config - Project configuration (agent settings)
+ * @param requested - Provider name sent with the request, if any
+ */
+export function getAgentProvider(config: UiAgentConfig, requested?: string): AgentProvider {
+  const name = requested ?? config.agent.provider;
+  if (!isProviderName(name)) {
+    throw new Error(`Unknown agent provider "${name}". Use one of ${AGENT_PROVIDERS.join(', ')}`);
+  }
+
+  switch (name) {
+    case 'cursor':
+      return createCursorProvider(config.agent);
+    case 'command':
+      return createCommandProvider(config.agent);
+    case 'stub':
+      return createStubProvider();
+  }
+}
@@ -0,0 +1,246 @@
+/** @jest-environment node */
+import { access, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ComponentContext, SubmissionJob, SubmissionResponse } from '../../src/shared/types';
+import { DEFAULT_CONFIG, type UiAgentConfig } from '../config';
+import { git } from './gitDiff';
+import { createJobQueue, type JobQueue } from './jobQueue';
+import type { AgentProvider, ChangeRequest } from './types';
+
+const context: ComponentContext = {
+  id: 'ctx-1',
+  source: 'heuristic',
+  filePath: 'src/App.tsx',
+  lineNumber: 1,
+  confidence: 'high',
+  selectorSummary: 'button',
+  domSummary: '<button>',
+  needsVerification: false,
+  verified: true,
+};
+
+let cwd: string;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-jobs-'));
+  await git(cwd, ['init', '--quiet']);
+  await writeFile(join(cwd, 'README.md'), '# Project\n');
+  await git(cwd, ['add', '--all']);
+  await git(cwd, ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '--quiet', '-m', 'initial']);
+});
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+function queueOf(maxConcurrentJobs = 1): JobQueue {
+  const config: UiAgentConfig = {
+    ...DEFAULT_CONFIG,
+    agent: { ...DEFAULT_CONFIG.agent, maxConcurrentJobs },
+    verify: { typecheck: false, lint: false, tests: false, timeoutMs: 1000 },
+  };
+  return createJobQueue(cwd, config);
+}
+
+/**
+ * A provider that runs `change` in the directory it is given.
+ */
+function providerOf(change: (request: ChangeRequest) => Promise<SubmissionResponse | void>): AgentProvider {
+  return {
+    name: 'stub',
+    resolveLocation: async () => null,
+    applyChange: async (request) => (await change(request)) ?? { success: true, message: 'Changed' },
+  };
+}
+
+/**
+ * Resolves with the job once it has finished.
+ */
+function finished(queue: JobQueue, job: SubmissionJob): Promise<SubmissionJob> {
+  return new Promise((resolve) => {
+    queue.subscribe(job.id, (event) => {
+      if (event.type === 'done' || event.type === 'failed') resolve(queue.get(job.id) as SubmissionJob);
+    });
+  });
+}
+
+/**
+ * A provider whose runs block until released, or until the job is cancelled.
+ */
+function blockingProvider() {
+  // By message: jobs running alongside each other may reach the agent in any order
+  const releases = new Map<string, () => void>();
+  const provider = providerOf(
+    (request) =>
+      new Promise<void>((resolve) => {
+        releases.set(request.userMessage, resolve);
+        if (request.signal?.aborted) resolve();
+        request.signal?.addEventListener('abort', () => resolve());
+      })
+  );
+  /** Resolves once the agent has been started `count` times */
+  const started = (count: number) =>
+    new Promise<void>((resolve) => {
+      const check = (): unknown => (releases.size >= count ? resolve() : setTimeout(check, 10));
+      check();
+    });
+  const release = (job: SubmissionJob) => releases.get(job.userMessage)?.();
+  return { provider, started, release };
+}
+
+const exists = (path: string) =>
+  access(path).then(
+    () => true,
+    () => false
+  );
+
+test('runs at most maxConcurrentJobs jobs at a time', async () => {
+  const queue = queueOf(2);
+  const { provider, started, release } = blockingProvider();
+
+  const jobs = [1, 2, 3].map((n) => queue.submit(provider, [context], `Change ${n}`));
+  await started(2);
+  expect(jobs.map((job) => job.status)).toEqual(['running', 'running', 'queued']);
+  expect(jobs[2].events[0]).toEqual({ type: 'queued', jobId: jobs[2].id, position: 1 });
+
+  release(jobs[0]);
+  expect((await finished(queue, jobs[0])).status).toBe('succeeded');
+  expect(jobs[2].status).toBe('running');
+  await started(3);
+
+  release(jobs[1]);
+  release(jobs[2]);
+  await Promise.all([finished(queue, jobs[1]), finished(queue, jobs[2])]);
+});
+
+test('fails the job and frees its slot when the provider throws', async () => {
+  const queue = queueOf(1);
+  const failing = queue.submit(
+    providerOf(async () => {
+      throw new Error('Agent crashed');
+    }),
+    [context],
+    'Change it'
+  );
+  const next = queue.submit(
+    providerOf(async () => undefined),
+    [context],
+    'Change it again'
+  );
+
+  expect(await finished(queue, failing)).toMatchObject({
+    status: 'failed',
+    result: { success: false, message: 'Agent crashed' },
+  });
+  expect((await finished(queue, next)).status).toBe('succeeded');
+});
+
+test('cancels queued jobs at once and running jobs once their agent stopped', async () => {
+  const queue = queueOf(1);
+  const { provider, started } = blockingProvider();
+  const running = queue.submit(provider, [context], 'Change it');
+  const queued = queue.submit(provider, [context], 'Change it too');
+  await started(1);
+
+  expect(queue.cancel(queued.id)).toMatchObject({
+    status: 'cancelled',
+    result: { message: 'Cancelled before it started' },
+  });
+
+  expect(queue.cancel(running.id)).toMatchObject({ status: 'running', cancelRequested: true });
+  expect(await finished(queue, running)).toMatchObject({ status: 'cancelled', result: { success: false } });
+  expect(running.cancelRequested).toBeUndefined();
+  expect(queue.cancel('unknown')).toBeUndefined();
+});
+
+test('applies, discards and retries sandboxed proposals', async () => {
+  const queue = queueOf(1);
+  const provider = providerOf(async (request) => {
+    await writeFile(join(request.cwd, 'proposed.ts'), `export const message = '${request.userMessage}';\n`);
+  });
+
+  const applied = await finished(queue, queue.submit(provider, [context], 'Apply me', { sandbox: true }));
+  expect(applied).toMatchObject({ status: 'succeeded', proposalStatus: 'pending' });
+  expect(applied.result?.changedFiles).toEqual(['proposed.ts']);
+  expect(await exists(join(cwd, 'proposed.ts'))).toBe(false);
+
+  await queue.apply(applied.id);
+  expect(applied).toMatchObject({ proposalStatus: 'applied', revertStatus: 'revertible' });
+  expect(await exists(join(cwd, 'proposed.ts'))).toBe(true);
+  await expect(queue.apply(applied.id)).rejects.toThrow(/has no changes waiting to be applied/);
+  await queue.revert(applied.id);
+  expect(await exists(join(cwd, 'proposed.ts'))).toBe(false);
+
+  const discarded = await finished(queue, queue.submit(provider, [context], 'Discard me', { sandbox: true }));
+  expect(queue.discard(discarded.id)?.proposalStatus).toBe('discarded');
+  expect(() => queue.discard(discarded.id)).toThrow(/has no changes waiting to be applied/);
+  expect(await exists(join(cwd, 'proposed.ts'))).toBe(false);
+
+  const retried = await finished(queue, queue.submit(provider, [context], 'Retry me', { sandbox: true }));
+  const retry = queue.retry(retried.id, 'Retry me, differently');
+  expect(retried.proposalStatus).toBe('discarded');
+  expect(retry).toMatchObject({ retryOf: retried.id, sandbox: true, userMessage: 'Retry me, differently' });
+  expect(await finished(queue, retry as SubmissionJob)).toMatchObject({ proposalStatus: 'pending' });
+});
+
+test('retries only finished sandboxed jobs', async () => {
+  const queue = queueOf(1);
+  const { provider, started, release } = blockingProvider();
+  const direct = await finished(queue, queue.submit(providerOf(async () => undefined), [context], 'Change it'));
+  const running = queue.submit(provider, [context], 'Change it', { sandbox: true });
+  await started(1);
+
+  expect(() => queue.retry(direct.id, 'Again')).toThrow(/only sandboxed jobs can be retried/);
+  expect(() => queue.retry(running.id, 'Again')).toThrow(/is still running/);
+  expect(queue.retry('unknown', 'Again')).toBeUndefined();
+
+  release(running);
+  await finished(queue, running);
+});
+
+test('refuses to apply or revert while a job edits the working tree', async () => {
+  const queue = queueOf(2);
+  const writing = providerOf(async (request) => {
+    await writeFile(join(request.cwd, 'changed.ts'), 'export {};\n');
+  });
+  const proposed = await finished(queue, queue.submit(writing, [context], 'Propose it', { sandbox: true }));
+  const changed = await finished(queue, queue.submit(writing, [context], 'Change it'));
+
+  const { provider, started, release } = blockingProvider();
+  const editing = queue.submit(provider, [context], 'Keep editing');
+  const sandboxed = queue.submit(provider, [context], 'Edit a copy', { sandbox: true });
+  await started(2);
+
+  await expect(queue.apply(proposed.id)).rejects.toThrow(`Job ${editing.id} is changing the working tree`);
+  await expect(queue.revert(changed.id)).rejects.toThrow(`Job ${editing.id} is changing the working tree`);
+
+  release(editing);
+  await finished(queue, editing);
+  // A sandboxed job only reads the working tree when it starts
+  expect(sandboxed.status).toBe('running');
+  expect((await queue.revert(changed.id))?.conflicts).toEqual([]);
+
+  release(sandboxed);
+  await finished(queue, sandboxed);
+});
+
+test('keeps revert data for the latest 20 changes only', async () => {
+  const queue = queueOf();
+  const jobs: SubmissionJob[] = [];
+  for (let i = 0; i < 21; i++) {
+    const provider = providerOf(async (request) => {
+      await writeFile(join(request.cwd, `file-${i}.ts`), `export const n = ${i};\n`);
+    });
+    jobs.push(await finished(queue, queue.submit(provider, [context], `Change ${i}`)));
+  }
+
+  expect(jobs[0].revertStatus).toBe('expired');
+  expect(jobs.slice(1).every((job) => job.revertStatus === 'revertible')).toBe(true);
+  await expect(queue.revert(jobs[0].id)).rejects.toThrow(/is too old to revert/);
+  expect((await queue.revert(jobs[20].id))?.conflicts).toEqual([]);
+}, 30000);
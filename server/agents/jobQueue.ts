@@ -0,0 +1,479 @@
+import { randomUUID } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import type {
+  AgentEvent,
+  ComponentContext,
+  FileDiff,
+  JobStatus,
+  RevertConflict,
+  SubmissionJob,
+  SubmissionResponse,
+} from '../../src/shared/types';
+import type { UiAgentConfig } from '../config';
+import type { AgentProvider } from './types';
+import { diffSnapshots, snapshotWorkingTree, type WorkingTreeSnapshot } from './gitDiff';
+import { recordRevisions, revertRevisions, type FileRevision } from './revert';
+import { verifyChanges } from './verify';
+import { applySandboxPatch, createSandbox, type Sandbox, type SandboxProposal } from './sandbox';
+
+/**
+ * Finished jobs kept for status requests and reattaching; older ones are dropped, except
+ * jobs whose changes can still be applied or reverted.
+ */
+const MAX_FINISHED_JOBS = 50;
+
+/**
+ * Jobs whose changes can be reverted; older ones lose their revert data, and with it the
+ * exemption from MAX_FINISHED_JOBS.
+ */
+const MAX_REVERTIBLE_JOBS = 20;
+
+interface JobEntry {
+  job: SubmissionJob;
+  provider: AgentProvider;
+  contexts: ComponentContext[];
+  controller: AbortController;
+  listeners: Set<(event: AgentEvent) => void>;
+  /** Changes of a sandboxed job, kept until they are applied or discarded */
+  proposal?: SandboxProposal;
+  /** What the job changed in the working tree, for reverting it */
+  revisions?: FileRevision[];
+}
+
+export interface SubmitOptions {
+  /** Run in a throwaway worktree and only propose the changes */
+  sandbox?: boolean;
+  /** ID of the job this one retries */
+  retryOf?: string;
+}
+
+export interface JobQueue {
+  /** Queue a change request about one or more selections. It starts as soon as a slot is free. */
+  submit(provider: AgentProvider, contexts: ComponentContext[], userMessage: string, options?: SubmitOptions): SubmissionJob;
+  get(id: string): SubmissionJob | undefined;
+  /** All known jobs, newest first */
+  list(): SubmissionJob[];
+  /**
+   * Cancel a job: a queued job is dropped, a running one has its agent process stopped.
+   * Returns undefined for unknown jobs; finished jobs are returned unchanged.
+   */
+  cancel(id: string): SubmissionJob | undefined;
+  /**
+   * Receive a job's events: everything so far is replayed immediately, then new events
+   * as they happen, up to the final `done` / `failed`. Returns an unsubscribe function,
+   * or undefined for unknown jobs.
+   */
+  subscribe(id: string, listener: (event: AgentEvent) => void): (() => void) | undefined;
+  /**
+   * Apply a sandboxed job's proposed changes to the working tree.
+   * Returns undefined for unknown jobs; throws if there is no pending proposal, the
+   * patch no longer applies, or a job is editing the working tree right now.
+   */
+  apply(id: string): Promise<SubmissionJob | undefined>;
+  /**
+   * Drop a sandboxed job's proposed changes.
+   * Returns undefined for unknown jobs; throws if there is no pending proposal.
+   */
+  discard(id: string): SubmissionJob | undefined;
+  /**
+   * Run a finished sandboxed job again with new instructions, in a fresh sandbox.
+   * A pending proposal of the old job is discarded. Returns undefined for unknown jobs;
+   * throws for jobs that aren't sandboxed or haven't finished.
+   */
+  retry(id: string, userMessage: string): SubmissionJob | undefined;
+  /**
+   * Undo a job's changes to the working tree. If any file changed again since, nothing
+   * is touched and the conflicts are returned. Returns undefined for unknown jobs; throws
+   * if the job has nothing to revert or a job is editing the working tree right now.
+   */
+  revert(id: string): Promise<{ job: SubmissionJob; conflicts: RevertConflict[] } | undefined>;
+}
+
+function isFinished(status: JobStatus): boolean {
+  return status === 'succeeded' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * In-memory queue that runs submissions as jobs, at most `concurrency` at a time.
+ * Jobs are lost when the server restarts. Results include a diff of the working tree
+ * over the job's run; with concurrency above 1 that includes changes made by jobs
+ * running alongside it.
+ *
+ * @param cwd - Project root the agents run in
+ * @param config - Project configuration (agent.maxConcurrentJobs, verify)
+ */
+export function createJobQueue(cwd: string, config: UiAgentConfig): JobQueue {
+  const concurrency = config.agent.maxConcurrentJobs;
+  const jobs = new Map<string, JobEntry>();
+  const waiting: JobEntry[] = [];
+  /** Jobs with revert data, oldest change first */
+  const revertible: JobEntry[] = [];
+  let running = 0;
+  /** An apply or revert is writing to the working tree; no job starts meanwhile */
+  let writingWorkingTree = false;
+
+  const emit = (entry: JobEntry, event: AgentEvent) => {
+    entry.job.events.push(event);
+    for (const listener of entry.listeners) listener(event);
+  };
+
+  const pruneFinished = () => {
+    for (const entry of revertible.splice(0, Math.max(0, revertible.length - MAX_REVERTIBLE_JOBS))) {
+      delete entry.revisions;
+      entry.job.revertStatus = 'expired';
+    }
+
+    // A dropped job's proposal or revert data would be lost, and apply / revert would 404
+    const finished = [...jobs.values()].filter(
+      (entry) => isFinished(entry.job.status) && entry.job.proposalStatus !== 'pending' && !entry.revisions
+    );
+    for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      jobs.delete(entry.job.id);
+    }
+  };
+
+  const finish = (entry: JobEntry, status: JobStatus, result: SubmissionResponse) => {
+    entry.job.status = status;
+    entry.job.result = result;
+    entry.job.finishedAt = new Date().toISOString();
+    delete entry.job.cancelRequested;
+    result = { ...result, submissionId: entry.job.id };
+    emit(entry, result.success ? { type: 'done', result } : { type: 'failed', result });
+    entry.listeners.clear();
+
+    console.log(`[ui-agent] Job ${entry.job.id} ${status}`);
+    pruneFinished();
+  };
+
+  const applyChange = async (entry: JobEntry, agentCwd: string): Promise<SubmissionResponse> => {
+    try {
+      return await entry.provider.applyChange({
+        contexts: entry.contexts,
+        userMessage: entry.job.userMessage,
+        cwd: agentCwd,
+        onEvent: (event) => emit(entry, event),
+        signal: entry.controller.signal,
+      });
+    } catch (error) {
+      console.error(`[ui-agent] Job ${entry.job.id} error:`, error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error',
+      };
+    }
+  };
+
+  /**
+   * Remember what changed in the working tree between two snapshots so the job can be
+   * reverted. Returns the diffs, or null if git failed.
+   */
+  const recordChange = async (
+    entry: JobEntry,
+    before: WorkingTreeSnapshot,
+    after: WorkingTreeSnapshot
+  ): Promise<FileDiff[] | null> => {
+    const diffs = await diffSnapshots(before, after);
+    if (!diffs || diffs.length === 0) return diffs;
+
+    try {
+      entry.revisions = await recordRevisions(before, after, diffs);
+      entry.job.revertStatus = 'revertible';
+      revertible.push(entry);
+    } catch (error) {
+      console.warn(`[ui-agent] Could not record changes of job ${entry.job.id}, revert disabled:`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return diffs;
+  };
+
+  /**
+   * Let the agent edit the project directly; the diff shows what it did.
+   */
+  const runInWorkingTree = async (entry: JobEntry): Promise<SubmissionResponse> => {
+    // Compare against the tree as it was right before the agent, not against HEAD, so
+    // uncommitted work from before the submission doesn't show up as the agent's changes
+    const before = await snapshotWorkingTree(cwd);
+    const result = await applyChange(entry, cwd);
+
+    // Also after failures: the agent may have changed files before it stopped
+    const after = before && (await snapshotWorkingTree(cwd));
+    const diffs = before && after && (await recordChange(entry, before, after));
+    if (!diffs) return result;
+
+    const changed = { ...result, changedFiles: diffs.map((diff) => diff.filePath), diffs };
+    if (!result.success || diffs.length === 0 || entry.controller.signal.aborted) {
+      return changed;
+    }
+
+    const files = diffs
+      .map((diff) => join(after.repoRoot, diff.filePath))
+      .filter((file) => existsSync(file));
+    const verification = await verifyChanges(cwd, files, config.verify, {
+      onEvent: (event) => emit(entry, event),
+      signal: entry.controller.signal,
+    });
+    return { ...changed, verification };
+  };
+
+  /**
+   * Let the agent edit a copy of the project and keep its changes as a proposal.
+   */
+  const runInSandbox = async (entry: JobEntry): Promise<SubmissionResponse> => {
+    let sandbox: Sandbox;
+    try {
+      sandbox = await createSandbox(cwd);
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : 'Could not create sandbox' };
+    }
+
+    try {
+      const result = await applyChange(entry, sandbox.cwd);
+      const proposal = await sandbox.collect();
+      const { diffs } = proposal;
+
+      if (result.success && diffs.length > 0 && !entry.controller.signal.aborted) {
+        entry.proposal = proposal;
+        entry.job.proposalStatus = 'pending';
+      }
+      return {
+        ...result,
+        message: !result.success
+          ? result.message
+          : diffs.length === 0
+          ? 'The agent made no changes'
+          : `Proposed changes to ${diffs.length} ${diffs.length === 1 ? 'file' : 'files'} (not applied yet)`,
+        changedFiles: diffs.map((diff) => diff.filePath),
+        diffs,
+      };
+    } catch (error) {
+      console.error(`[ui-agent] Job ${entry.job.id} sandbox error:`, error);
+      return { success: false, message: error instanceof Error ? error.message : 'Sandbox failed' };
+    } finally {
+      await sandbox.dispose();
+    }
+  };
+
+  const run = async (entry: JobEntry) => {
+    running++;
+    entry.job.status = 'running';
+    entry.job.startedAt = new Date().toISOString();
+    console.log(`[ui-agent] Job ${entry.job.id} started with ${entry.provider.name} agent:`, {
+      filePath: entry.job.filePath,
+      lineNumber: entry.contexts[0].lineNumber,
+      targets: entry.contexts.length,
+      messageLength: entry.job.userMessage.length,
+    });
+
+    try {
+      const result = entry.job.sandbox ? await runInSandbox(entry) : await runInWorkingTree(entry);
+
+      if (entry.controller.signal.aborted) {
+        finish(entry, 'cancelled', { ...result, success: false, message: 'Cancelled' });
+      } else {
+        finish(entry, result.success ? 'succeeded' : 'failed', result);
+      }
+    } catch (error) {
+      // run() is started without awaiting it: nothing may escape, or the process dies
+      console.error(`[ui-agent] Job ${entry.job.id} error:`, error);
+      if (!isFinished(entry.job.status)) {
+        finish(entry, 'failed', {
+          success: false,
+          message: error instanceof Error ? error.message : 'Internal server error',
+        });
+      }
+    } finally {
+      // Free the slot whatever happened, so the queue doesn't stall
+      running--;
+      startWaiting();
+    }
+  };
+
+  const startWaiting = () => {
+    while (!writingWorkingTree && running < concurrency) {
+      const next = waiting.shift();
+      if (!next) return;
+      void run(next);
+    }
+  };
+
+  /**
+   * Run an apply or revert with the working tree to itself: refused while a job edits the
+   * working tree, and no job starts until it is done. Running sandboxed jobs keep running:
+   * they only read the working tree when they start.
+   */
+  const writeWorkingTree = async <T>(action: string, write: () => Promise<T>): Promise<T> => {
+    const editing = [...jobs.values()].find((entry) => entry.job.status === 'running' && !entry.job.sandbox);
+    if (editing) {
+      throw new Error(`Job ${editing.job.id} is changing the working tree; ${action} once it has finished`);
+    }
+    if (writingWorkingTree) {
+      throw new Error(`The working tree is being changed by another apply or revert; ${action} once it has finished`);
+    }
+
+    writingWorkingTree = true;
+    try {
+      return await write();
+    } finally {
+      writingWorkingTree = false;
+      startWaiting();
+    }
+  };
+
+  const submit: JobQueue['submit'] = (provider, contexts, userMessage, options = {}) => {
+    const entry: JobEntry = {
+      job: {
+        id: randomUUID(),
+        status: 'queued',
+        agentProvider: provider.name,
+        filePath: contexts[0].filePath,
+        componentName: contexts[0].componentName,
+        targets: contexts.map(({ filePath, lineNumber, columnNumber, componentName }) => ({
+          filePath,
+          lineNumber,
+          columnNumber,
+          componentName,
+        })),
+        userMessage,
+        createdAt: new Date().toISOString(),
+        sandbox: options.sandbox ?? false,
+        retryOf: options.retryOf,
+        events: [],
+      },
+      provider,
+      contexts,
+      controller: new AbortController(),
+      listeners: new Set(),
+    };
+    jobs.set(entry.job.id, entry);
+    waiting.push(entry);
+    // Jobs only wait while every slot is taken
+    const position = running < concurrency ? 0 : waiting.length;
+    emit(entry, { type: 'queued', jobId: entry.job.id, position });
+
+    startWaiting();
+    return entry.job;
+  };
+
+  return {
+    submit,
+
+    get(id) {
+      return jobs.get(id)?.job;
+    },
+
+    list() {
+      return [...jobs.values()].map((entry) => entry.job).reverse();
+    },
+
+    cancel(id) {
+      const entry = jobs.get(id);
+      if (!entry || isFinished(entry.job.status)) {
+        return entry?.job;
+      }
+
+      if (entry.job.status === 'queued') {
+        waiting.splice(waiting.indexOf(entry), 1);
+        entry.controller.abort();
+        finish(entry, 'cancelled', { success: false, message: 'Cancelled before it started' });
+      } else {
+        // The job finishes as cancelled once the agent process has exited
+        entry.job.cancelRequested = true;
+        entry.controller.abort();
+      }
+      return entry.job;
+    },
+
+    async apply(id) {
+      const entry = jobs.get(id);
+      if (!entry) return undefined;
+      if (entry.job.proposalStatus !== 'pending' || !entry.proposal) {
+        throw new Error(`Job ${id} has no changes waiting to be applied`);
+      }
+
+      const { patch } = entry.proposal;
+      return writeWorkingTree('apply', async () => {
+        const before = await snapshotWorkingTree(cwd);
+        await applySandboxPatch(cwd, patch);
+        entry.job.proposalStatus = 'applied';
+
+        const after = before && (await snapshotWorkingTree(cwd));
+        if (before && after) {
+          await recordChange(entry, before, after);
+        }
+        delete entry.proposal;
+        pruneFinished();
+        console.log(`[ui-agent] Applied changes of job ${id}`);
+        return entry.job;
+      });
+    },
+
+    discard(id) {
+      const entry = jobs.get(id);
+      if (!entry) return undefined;
+      if (entry.job.proposalStatus !== 'pending') {
+        throw new Error(`Job ${id} has no changes waiting to be applied`);
+      }
+
+      entry.job.proposalStatus = 'discarded';
+      delete entry.proposal;
+      pruneFinished();
+      return entry.job;
+    },
+
+    retry(id, userMessage) {
+      const entry = jobs.get(id);
+      if (!entry) return undefined;
+      if (!entry.job.sandbox) {
+        throw new Error(`Job ${id} didn't run in a sandbox; only sandboxed jobs can be retried`);
+      }
+      if (!isFinished(entry.job.status)) {
+        throw new Error(`Job ${id} is still ${entry.job.status}`);
+      }
+
+      if (entry.job.proposalStatus === 'pending') {
+        entry.job.proposalStatus = 'discarded';
+        delete entry.proposal;
+      }
+      return submit(entry.provider, entry.contexts, userMessage, { sandbox: true, retryOf: id });
+    },
+
+    async revert(id) {
+      const entry = jobs.get(id);
+      if (!entry) return undefined;
+      if (entry.job.revertStatus !== 'revertible' || !entry.revisions) {
+        throw new Error(
+          entry.job.revertStatus === 'reverted'
+            ? `Job ${id} was already reverted`
+            : entry.job.revertStatus === 'expired'
+            ? `Job ${id} is too old to revert; only the latest ${MAX_REVERTIBLE_JOBS} changes can be`
+            : `Job ${id} didn't change the working tree`
+        );
+      }
+
+      const revisions = entry.revisions;
+      return writeWorkingTree('revert', async () => {
+        const conflicts = await revertRevisions(cwd, revisions);
+        if (conflicts.length === 0) {
+          entry.job.revertStatus = 'reverted';
+          delete entry.revisions;
+          revertible.splice(revertible.indexOf(entry), 1);
+          pruneFinished();
+        }
+        return { job: entry.job, conflicts };
+      });
+    },
+
+    subscribe(id, listener) {
+      const entry = jobs.get(id);
+      if (!entry) return undefined;
+
+      for (const event of entry.job.events) listener(event);
+      if (isFinished(entry.job.status)) return () => undefined;
+
+      entry.listeners.add(listener);
+      return () => entry.listeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,41 @@
+/** @jest-environment node */
+import { parseLocationResponse } from './parseResponse';
+
+const location = { filePath: 'src/App.tsx', componentName: 'App', lineNumber: 12 };
+
+test('reads a bare JSON location', () => {
+  expect(parseLocationResponse(`  ${JSON.stringify(location)}\n`)).toEqual(location);
+});
+
+test('reads a location from a code block or from text around it', () => {
+  expect(parseLocationResponse(`Found it:\n\`\`\`json\n${JSON.stringify(location)}\n\`\`\`\nDone.`)).toEqual(location);
+  expect(parseLocationResponse(`The element is here: ${JSON.stringify(location)} (line 12)`)).toEqual(location);
+});
+
+test('unwraps a result envelope', () => {
+  const envelope = { type: 'result', result: `\`\`\`json\n${JSON.stringify(location)}\n\`\`\`` };
+
+  expect(parseLocationResponse(JSON.stringify(envelope))).toEqual(location);
+});
+
+test('drops empty and invalid fields', () => {
+  expect(parseLocationResponse('{"filePath": "", "componentName": "", "lineNumber": null}')).toEqual({
+    filePath: '',
+    componentName: undefined,
+    lineNumber: undefined,
+  });
+  expect(parseLocationResponse('{"filePath": 3, "lineNumber": -1}')).toEqual({
+    filePath: '',
+    componentName: undefined,
+    lineNumber: undefined,
+  });
+});
+
+test('returns null without a location', () => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  expect(parseLocationResponse('I could not find it.')).toBeNull();
+  expect(parseLocationResponse('{"answer": "unknown"}')).toBeNull();
+
+  jest.restoreAllMocks();
+});
@@ -0,0 +1,64 @@
+import type { AgentLocation } from './types';
+
+/**
+ * Find a JSON object in free text: a ```json code block, else the outermost {...},
+ * else the whole text.
+ */
+function extractJsonObject(text: string): unknown {
+  const codeBlock = text.match(/```json\s*([\s\S]*?)\s*```/);
+  if (codeBlock) {
+    return JSON.parse(codeBlock[1].trim());
+  }
+  const object = text.match(/\{[\s\S]*\}/);
+  return JSON.parse(object ? object[0] : text);
+}
+
+/**
+ * Agents that print a wrapper (cursor-agent's `--output-format json`) put the model's
+ * answer in a `result` string; others print the answer itself.
+ */
+function unwrap(response: unknown): unknown {
+  if (typeof response === 'object' && response !== null && 'result' in response) {
+    const { result } = response as { result: unknown };
+    if (typeof result === 'string') return extractJsonObject(result);
+  }
+  return response;
+}
+
+function toLocation(value: unknown): AgentLocation | null {
+  if (typeof value !== 'object' || value === null || !('filePath' in value)) {
+    return null;
+  }
+  const { filePath, componentName, lineNumber } = value as Record<string, unknown>;
+  return {
+    filePath: typeof filePath === 'string' ? filePath : '',
+    componentName: typeof componentName === 'string' && componentName ? componentName : undefined,
+    lineNumber: typeof lineNumber === 'number' && lineNumber > 0 ? lineNumber : undefined,
+  };
+}
+
+/**
+ * Parse an agent's answer to the locate prompt (see buildLocatePrompt).
+ * Accepts the bare JSON, JSON inside a markdown code block, and either of those
+ * wrapped in a `{"result": "..."}` envelope. Returns null if no location is found.
+ */
+export function parseLocationResponse(stdout: string): AgentLocation | null {
+  const text = stdout.trim();
+
+  try {
+    return toLocation(unwrap(JSON.parse(text)));
+  } catch {
+    // Not a single JSON document: look for one inside the output
+  }
+
+  try {
+    return toLocation(unwrap(extractJsonObject(text)));
+  } catch (error) {
+    console.error('[ui-agent] No JSON location found in agent response:', {
+      error: error instanceof Error ? error.message : String(error),
+      stdoutLength: stdout.length,
+      stdoutPreview: stdout.slice(0, 500),
+    });
+    return null;
+  }
+}
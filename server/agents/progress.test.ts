@@ -0,0 +1,39 @@
+/** @jest-environment node */
+import type { AgentEvent } from '../../src/shared/types';
+import { progressCallbacks } from './progress';
+
+function record() {
+  const events: AgentEvent[] = [];
+  const callbacks = progressCallbacks('cursor', (event) => events.push(event));
+  return { events, ...callbacks };
+}
+
+test('reports the start, then every chunk as output', () => {
+  const { events, onSpawn, onOutput } = record();
+  onSpawn?.();
+  onOutput?.('stdout', 'Looking at the code\n');
+  onOutput?.('stderr', 'warning: slow\n');
+
+  expect(events).toEqual([
+    { type: 'spawned', provider: 'cursor' },
+    { type: 'thinking' },
+    { type: 'output', stream: 'stdout', chunk: 'Looking at the code\n' },
+    { type: 'output', stream: 'stderr', chunk: 'warning: slow\n' },
+  ]);
+});
+
+test('reports each edited file once, also when a line arrives in several chunks', () => {
+  const { events, onOutput } = record();
+  onOutput?.('stdout', 'Editing src/comp');
+  onOutput?.('stdout', 'onents/Button.tsx\n✏️ Updated `src/App.tsx`\n');
+  onOutput?.('stdout', 'Wrote file: src/App.tsx\nRead src/index.ts\n');
+
+  expect(events.filter((event) => event.type === 'editing')).toEqual([
+    { type: 'editing', filePath: 'src/components/Button.tsx' },
+    { type: 'editing', filePath: 'src/App.tsx' },
+  ]);
+});
+
+test('reports nothing without a listener', () => {
+  expect(progressCallbacks('stub', undefined)).toEqual({});
+});
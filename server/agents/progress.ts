@@ -0,0 +1,49 @@
+import type { AgentEvent } from '../../src/shared/types';
+import type { CommandOptions } from './runCommand';
+
+/**
+ * Lines agents print when they change a file, e.g. "Editing src/App.tsx",
+ * "✏️ Updated `src/components/Button.tsx`", "Wrote file: src/App.tsx".
+ */
+const EDIT_LINE_PATTERN =
+  /\b(?:edit(?:ing|ed)?|writ(?:ing|e|ten)|wrote|updat(?:ing|ed?)|modif(?:ying|ied|y)|creat(?:ing|ed?))\b(?:\s+file)?:?\s+[`'"]?((?:\.{0,2}\/)?[\w@.-]+(?:\/[\w@.-]+)*\.[a-zA-Z]{1,5})\b/i;
+
+/**
+ * Command callbacks that turn an agent's output into progress events: `spawned` and
+ * `thinking` when it starts, every chunk as `output`, and `editing` the first time a
+ * line mentions changing a file.
+ *
+ * @param provider - Provider name reported in the `spawned` event
+ * @param onEvent - Receives the events; nothing is reported if omitted
+ */
+export function progressCallbacks(
+  provider: string,
+  onEvent: ((event: AgentEvent) => void) | undefined
+): Pick<CommandOptions, 'onSpawn' | 'onOutput'> {
+  if (!onEvent) return {};
+
+  const editedFiles = new Set<string>();
+  const partialLines = { stdout: '', stderr: '' };
+
+  return {
+    onSpawn: () => {
+      onEvent({ type: 'spawned', provider });
+      onEvent({ type: 'thinking' });
+    },
+    onOutput: (stream, chunk) => {
+      onEvent({ type: 'output', stream, chunk });
+
+      // Output arrives in arbitrary chunks; only look at complete lines
+      const lines = (partialLines[stream] + chunk).split('\n');
+      partialLines[stream] = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const filePath = line.match(EDIT_LINE_PATTERN)?.[1];
+        if (filePath && !editedFiles.has(filePath)) {
+          editedFiles.add(filePath);
+          onEvent({ type: 'editing', filePath });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,60 @@
+/** @jest-environment node */
+import type { ComponentContext } from '../../src/shared/types';
+import { buildChangePrompt } from './prompts';
+
+const button: ComponentContext = {
+  id: 'ctx-1',
+  source: 'heuristic',
+  filePath: 'src/Toolbar.tsx',
+  componentName: 'Toolbar',
+  lineNumber: 2,
+  confidence: 'high',
+  selectorSummary: 'button.save',
+  domSummary: '<button class="save">Save</button>',
+  needsVerification: false,
+  verified: true,
+  codeSnippet: {
+    startLine: 1,
+    endLine: 3,
+    matchLine: 2,
+    lines: [
+      { lineNumber: 1, content: 'export const Toolbar = () => (', isMatch: false },
+      { lineNumber: 2, content: '  <button className="save">Save</button>', isMatch: true },
+      { lineNumber: 3, content: ');', isMatch: false },
+    ],
+  },
+};
+
+const link: ComponentContext = {
+  ...button,
+  id: 'ctx-2',
+  filePath: 'src/Footer.tsx',
+  componentName: undefined,
+  lineNumber: 8,
+  selectorSummary: 'footer > a',
+  domSummary: '<a href="/help">Help</a>',
+  codeSnippet: undefined,
+};
+
+test('describes a single selection with its code and the request', () => {
+  const prompt = buildChangePrompt([button], 'Make it blue');
+
+  expect(prompt).toContain('File: src/Toolbar.tsx\nComponent: Toolbar\nLine: 2');
+  expect(prompt).toContain('→ 2 |   <button className="save">Save</button>');
+  expect(prompt).toContain('  1 | export const Toolbar = () => (');
+  expect(prompt).toContain('Selector: button.save');
+  expect(prompt).toContain('# Request\n\nMake it blue\n');
+  expect(prompt).not.toContain('Element 1');
+});
+
+test('numbers several selections in order and asks for one consistent change', () => {
+  const prompt = buildChangePrompt([button, link], 'Use the same color for both');
+
+  expect(prompt).toContain('The user selected 2 elements. The request below applies to all of them together.');
+  expect(prompt.indexOf('## Element 1')).toBeLessThan(prompt.indexOf('## Element 2'));
+  expect(prompt).toContain('## Element 1\n\nFile: src/Toolbar.tsx\nComponent: Toolbar\nLine: 2\nSelector: button.save');
+  expect(prompt).toContain('### Current Code');
+  expect(prompt).toContain('## Element 2\n\nFile: src/Footer.tsx\nLine: 8\nSelector: footer > a');
+  expect(prompt).toContain('# Request\n\nUse the same color for both\n');
+  expect(prompt).toContain('Cover every selected element');
+});
@@ -0,0 +1,98 @@
+import type { ComponentContext, SelectionPayload } from '../../src/shared/types';
+
+/**
+ * Prompt asking an agent to locate the component that renders a selection.
+ * The agent must answer with a JSON location (see parseLocationResponse).
+ */
+export function buildLocatePrompt(payload: SelectionPayload): string {
+  return `Given this UI element selection from a React app:
+- Selector: ${payload.selector}
+- Text: ${payload.textSnippet}
+- Classes: ${payload.classes.join(', ')}
+- HTML snippet: ${payload.domOuterHtml.slice(0, 500)}
+
+Find the React component file that renders this element. Search the codebase for matching patterns.
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "filePath": "relative/path/to/file.tsx",
+  "componentName": "ComponentName",
+  "lineNumber": 123
+}
+
+If you cannot find a match, return:
+{
+  "filePath": "",
+  "componentName": "",
+  "lineNumber": null
+}`;
+}
+
+function describeCode(context: ComponentContext, heading = '# Current Code'): string {
+  return context.codeSnippet
+    ? `\n${heading}\n\`\`\`\n${context.codeSnippet.lines
+        .map((line) => {
+          const marker = line.isMatch ? '→ ' : '  ';
+          return `${marker}${line.lineNumber} | ${line.content}`;
+        })
+        .join('\n')}\n\`\`\`\n`
+    : '';
+}
+
+function describeLocation(context: ComponentContext): string {
+  return `File: ${context.filePath}${context.componentName ? `\nComponent: ${context.componentName}` : ''}${context.lineNumber ? `\nLine: ${context.lineNumber}` : ''}`;
+}
+
+/**
+ * Build structured prompt asking an agent to change the selected components.
+ * Several contexts are numbered in selection order and treated as one request.
+ */
+export function buildChangePrompt(contexts: ComponentContext[], userMessage: string): string {
+  if (contexts.length === 1) {
+    const [context] = contexts;
+    return `# Component Context
+
+${describeLocation(context)}${describeCode(context)}
+# DOM Context
+
+Selector: ${context.selectorSummary}
+Element: ${context.domSummary}
+
+# Request
+
+${userMessage}
+
+# Instructions
+
+Please modify the code according to the request above.
+Focus on the indicated file and line number.
+Make the changes directly to the codebase.`;
+  }
+
+  const elements = contexts
+    .map(
+      (context, index) => `## Element ${index + 1}
+
+${describeLocation(context)}
+Selector: ${context.selectorSummary}
+Element: ${context.domSummary}
+${describeCode(context, '### Current Code')}`
+    )
+    .join('\n');
+
+  return `# Selected Elements
+
+The user selected ${contexts.length} elements. The request below applies to all of them together.
+
+${elements}
+# Request
+
+${userMessage}
+
+# Instructions
+
+Please modify the code according to the request above.
+Cover every selected element, and keep the changes consistent across them; refer to them by number if the request does.
+Focus on the indicated files and line numbers.
+Make the changes directly to the codebase.`;
+}
@@ -0,0 +1,106 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, readFile, rename, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { diffSnapshots, git, snapshotWorkingTree, type WorkingTreeSnapshot } from './gitDiff';
+import { recordRevisions, revertRevisions, type FileRevision } from './revert';
+
+let cwd: string;
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(async () => {
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-revert-'));
+  await git(cwd, ['init', '--quiet']);
+  await mkdir(join(cwd, 'src'));
+  await writeFile(join(cwd, 'src/edited.ts'), 'export const a = 1;\n');
+  await writeFile(join(cwd, 'src/deleted.ts'), 'export const gone = true;\n');
+  await writeFile(join(cwd, 'src/old-name.ts'), 'export const moved = "same content, new place";\n');
+  await git(cwd, ['add', '--all']);
+  await git(cwd, ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '--quiet', '-m', 'initial']);
+});
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true });
+});
+
+async function snapshot(): Promise<WorkingTreeSnapshot> {
+  const taken = await snapshotWorkingTree(cwd);
+  if (!taken) throw new Error('no snapshot');
+  return taken;
+}
+
+/**
+ * Apply a change the way an agent would, and record it.
+ */
+async function submit(change: () => Promise<void>): Promise<FileRevision[]> {
+  const before = await snapshot();
+  await change();
+  const after = await snapshot();
+  return recordRevisions(before, after, (await diffSnapshots(before, after)) ?? []);
+}
+
+const exists = (filePath: string) =>
+  readFile(join(cwd, filePath)).then(
+    () => true,
+    () => false
+  );
+
+test('records the blobs before and after every touched path, both sides of a rename', async () => {
+  const revisions = await submit(async () => {
+    await writeFile(join(cwd, 'src/edited.ts'), 'export const a = 2;\n');
+    await writeFile(join(cwd, 'src/added.ts'), 'export {};\n');
+    await rename(join(cwd, 'src/old-name.ts'), join(cwd, 'src/new-name.ts'));
+  });
+  const byPath = new Map(revisions.map((revision) => [revision.filePath, revision]));
+
+  expect([...byPath.keys()].sort()).toEqual(['src/added.ts', 'src/edited.ts', 'src/new-name.ts', 'src/old-name.ts']);
+  expect(byPath.get('src/added.ts')).toMatchObject({ before: null, after: expect.any(String) });
+  expect(byPath.get('src/old-name.ts')).toMatchObject({ before: expect.any(String), after: null });
+  expect(byPath.get('src/new-name.ts')?.after).toBe(byPath.get('src/old-name.ts')?.before);
+  expect(await recordRevisions(await snapshot(), await snapshot(), [])).toEqual([]);
+});
+
+test('puts modified, created, deleted and renamed files back', async () => {
+  const revisions = await submit(async () => {
+    await writeFile(join(cwd, 'src/edited.ts'), 'export const a = 2;\n');
+    await writeFile(join(cwd, 'src/added.ts'), 'export {};\n');
+    await unlink(join(cwd, 'src/deleted.ts'));
+    await rename(join(cwd, 'src/old-name.ts'), join(cwd, 'src/new-name.ts'));
+  });
+
+  expect(await revertRevisions(cwd, revisions)).toEqual([]);
+
+  expect(await readFile(join(cwd, 'src/edited.ts'), 'utf-8')).toBe('export const a = 1;\n');
+  expect(await readFile(join(cwd, 'src/deleted.ts'), 'utf-8')).toBe('export const gone = true;\n');
+  expect(await exists('src/added.ts')).toBe(false);
+  expect(await exists('src/new-name.ts')).toBe(false);
+  expect(await exists('src/old-name.ts')).toBe(true);
+  expect(await git(cwd, ['status', '--porcelain'])).toBe('');
+});
+
+test('reports files changed since the submission and leaves everything as it is', async () => {
+  const revisions = await submit(async () => {
+    await writeFile(join(cwd, 'src/edited.ts'), 'export const a = 2;\n');
+    await writeFile(join(cwd, 'src/added.ts'), 'export {};\n');
+    await unlink(join(cwd, 'src/deleted.ts'));
+  });
+  await writeFile(join(cwd, 'src/edited.ts'), 'export const a = 3;\n');
+  await unlink(join(cwd, 'src/added.ts'));
+  await writeFile(join(cwd, 'src/deleted.ts'), 'export const back = true;\n');
+
+  const conflicts = await revertRevisions(cwd, revisions);
+
+  expect(conflicts.sort((a, b) => a.filePath.localeCompare(b.filePath))).toEqual([
+    { filePath: 'src/added.ts', reason: 'deleted' },
+    { filePath: 'src/deleted.ts', reason: 'created' },
+    { filePath: 'src/edited.ts', reason: 'modified' },
+  ]);
+  expect(await readFile(join(cwd, 'src/edited.ts'), 'utf-8')).toBe('export const a = 3;\n');
+});
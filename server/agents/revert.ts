@@ -0,0 +1,112 @@
+import { execFile } from 'node:child_process';
+import { mkdir, unlink, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { promisify } from 'node:util';
+import type { FileDiff, RevertConflict } from '../../src/shared/types';
+import { git, type WorkingTreeSnapshot } from './gitDiff';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * One file a submission touched, as git blob IDs (null: the file didn't exist).
+ */
+export interface FileRevision {
+  /** Path relative to the repository root */
+  filePath: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * Blob ID of every file in a snapshot's tree, limited to the given paths.
+ */
+async function blobIds(snapshot: WorkingTreeSnapshot, paths: string[]): Promise<Map<string, string>> {
+  const output = await git(snapshot.cwd, ['ls-tree', '-r', '-z', '--full-tree', snapshot.treeId, '--', ...paths]);
+  const ids = new Map<string, string>();
+  for (const entry of output.split('\0').filter(Boolean)) {
+    // "<mode> blob <id>\t<path>"
+    const [info, path] = entry.split('\t');
+    ids.set(path, info.split(' ')[2]);
+  }
+  return ids;
+}
+
+/**
+ * Remember what the files in `diffs` looked like before and after a submission, so
+ * it can be reverted later. The contents stay in git's object store.
+ *
+ * @param before - Snapshot taken before the change
+ * @param after - Snapshot taken after it
+ * @param diffs - diffSnapshots(before, after)
+ */
+export async function recordRevisions(
+  before: WorkingTreeSnapshot,
+  after: WorkingTreeSnapshot,
+  diffs: FileDiff[]
+): Promise<FileRevision[]> {
+  // A rename touches two paths: the old one disappears, the new one appears
+  const paths = [...new Set(diffs.flatMap((diff) => (diff.oldPath ? [diff.oldPath, diff.filePath] : [diff.filePath])))];
+  if (paths.length === 0) return [];
+
+  const [beforeIds, afterIds] = await Promise.all([blobIds(before, paths), blobIds(after, paths)]);
+  return paths.map((filePath) => ({
+    filePath,
+    before: beforeIds.get(filePath) ?? null,
+    after: afterIds.get(filePath) ?? null,
+  }));
+}
+
+/**
+ * Blob ID of a file as it is on disk now, or null if it doesn't exist.
+ */
+async function currentBlobId(repoRoot: string, filePath: string): Promise<string | null> {
+  try {
+    return (await git(repoRoot, ['hash-object', '--', filePath])).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Put every file back the way it was before the submission.
+ * Files changed again since are reported as conflicts, and then nothing is touched.
+ *
+ * @param cwd - Project root
+ * @param revisions - Recorded by recordRevisions
+ * @returns Conflicts; empty if the revert was done
+ */
+export async function revertRevisions(cwd: string, revisions: FileRevision[]): Promise<RevertConflict[]> {
+  const repoRoot = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+
+  const conflicts: RevertConflict[] = [];
+  for (const revision of revisions) {
+    const current = await currentBlobId(repoRoot, revision.filePath);
+    if (current === revision.after) continue;
+
+    conflicts.push({
+      filePath: revision.filePath,
+      reason: current === null ? 'deleted' : revision.after === null ? 'created' : 'modified',
+    });
+  }
+  if (conflicts.length > 0) {
+    return conflicts;
+  }
+
+  for (const revision of revisions) {
+    const fullPath = join(repoRoot, revision.filePath);
+    if (revision.before === null) {
+      await unlink(fullPath);
+      continue;
+    }
+    const { stdout } = await execFileAsync('git', ['cat-file', 'blob', revision.before], {
+      cwd: repoRoot,
+      encoding: 'buffer',
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    await mkdir(dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, stdout);
+  }
+
+  console.log('[ui-agent] Reverted files:', revisions.map((revision) => revision.filePath));
+  return [];
+}
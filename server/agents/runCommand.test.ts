@@ -0,0 +1,110 @@
+/** @jest-environment node */
+import { execFileSync } from 'node:child_process';
+import { tmpdir } from 'node:os';
+import { describeFailure, runAgentCommand, type CommandOptions } from './runCommand';
+
+const options: CommandOptions = { cwd: tmpdir(), timeoutMs: 60000, label: 'agent' };
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+/**
+ * Whether a process is still running; killed processes may linger as zombies until reaped.
+ */
+const isRunning = (pid: number) => {
+  try {
+    return !execFileSync('ps', ['-o', 'stat=', '-p', String(pid)], { encoding: 'utf-8' }).startsWith('Z');
+  } catch {
+    // ps exits with 1 when there is no such process
+    return false;
+  }
+};
+
+test('passes arguments as they are, without a shell', async () => {
+  const prompt = 'Make the "Save" button {primary} && rm -rf $HOME; echo `id`';
+  const script = 'process.stdout.write(process.argv[1])';
+  const result = await runAgentCommand(process.execPath, ['-e', script, prompt], options);
+
+  expect(result).toMatchObject({ stdout: prompt, exitCode: 0, cancelled: false, timedOut: false });
+  expect(describeFailure(result, 'agent')).toBeNull();
+});
+
+test('streams output and reports a non-zero exit', async () => {
+  const onOutput = jest.fn();
+  const result = await runAgentCommand(
+    process.execPath,
+    ['-e', 'console.log("working"); console.error("broken"); process.exit(3)'],
+    { ...options, onOutput }
+  );
+
+  expect(onOutput).toHaveBeenCalledWith('stdout', 'working\n');
+  expect(onOutput).toHaveBeenCalledWith('stderr', 'broken\n');
+  expect(describeFailure(result, 'agent')).toBe('agent exited with code 3');
+});
+
+test('reports a missing command', async () => {
+  const result = await runAgentCommand('ui-agent-no-such-command', [], options);
+
+  expect(result.spawnError?.code).toBe('ENOENT');
+  expect(describeFailure(result, 'agent')).toBe('agent command not found');
+});
+
+test('sends SIGTERM to the process group when cancelled', async () => {
+  const kill = jest.spyOn(process, 'kill');
+  const controller = new AbortController();
+  const run = runAgentCommand('sleep', ['30'], {
+    ...options,
+    signal: controller.signal,
+    onSpawn: () => controller.abort(),
+  });
+
+  const result = await run;
+  expect(result).toMatchObject({ cancelled: true, signal: 'SIGTERM' });
+  expect(kill.mock.calls.map(([pid, signal]) => [pid < 0, signal])).toEqual([[true, 'SIGTERM']]);
+  expect(describeFailure(result, 'agent')).toBe('agent cancelled');
+});
+
+test('sends SIGKILL to the whole group when it ignores SIGTERM', async () => {
+  jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+  const kill = jest.spyOn(process, 'kill');
+  const controller = new AbortController();
+
+  // The shell and its child ignore SIGTERM; the child's PID is printed once both run
+  let childPid = 0;
+  const run = runAgentCommand('sh', ['-c', 'trap "" TERM; sleep 30 & echo $!; wait'], {
+    ...options,
+    signal: controller.signal,
+    onOutput: (_stream, chunk) => {
+      childPid = Number(chunk.trim());
+      controller.abort();
+    },
+  });
+
+  while (!controller.signal.aborted) await new Promise((resolve) => setImmediate(resolve));
+  expect(kill.mock.calls.map(([, signal]) => signal)).toEqual(['SIGTERM']);
+
+  jest.advanceTimersByTime(5000);
+  const result = await run;
+
+  expect(kill.mock.calls.map(([pid, signal]) => [pid < 0, signal])).toEqual([
+    [true, 'SIGTERM'],
+    [true, 'SIGKILL'],
+  ]);
+  expect(result).toMatchObject({ cancelled: true, signal: 'SIGKILL' });
+  expect(isRunning(childPid)).toBe(false);
+});
+
+test('stops the process when the timeout is reached', async () => {
+  const result = await runAgentCommand('sleep', ['30'], { ...options, timeoutMs: 50 });
+
+  expect(result).toMatchObject({ timedOut: true, cancelled: false, signal: 'SIGTERM' });
+  expect(describeFailure(result, 'agent')).toBe('agent timeout - operation took too long');
+});
@@ -0,0 +1,180 @@
+import { spawn } from 'node:child_process';
+
+/**
+ * How long to wait after SIGTERM before sending SIGKILL.
+ */
+const KILL_GRACE_MS = 5000;
+
+export interface CommandOptions {
+  cwd: string;
+  timeoutMs: number;
+  /** Name used in log messages, e.g. 'cursor-agent' */
+  label: string;
+  /** Called once the process has started */
+  onSpawn?: () => void;
+  /** Called with every chunk of output as it arrives */
+  onOutput?: (stream: 'stdout' | 'stderr', chunk: string) => void;
+  /** Stops the process (SIGTERM, then SIGKILL) when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of running an agent command. Exactly one of `spawnError`, `cancelled`,
+ * `timedOut` or `exitCode` describes how it ended.
+ */
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  /** The process was stopped through `signal` */
+  cancelled: boolean;
+  /** Set if the process could not be started (e.g. command not found) */
+  spawnError?: NodeJS.ErrnoException;
+  elapsedMs: number;
+}
+
+/**
+ * Run an agent CLI and collect its output.
+ * Uses spawn without a shell, so arguments (including prompts) can't inject commands.
+ * The process gets SIGTERM when the timeout is reached or the signal aborts, and
+ * SIGKILL if it is still running KILL_GRACE_MS later. Signals go to its whole process
+ * group, so tools the agent started stop too. Never rejects.
+ */
+export function runAgentCommand(
+  command: string,
+  args: string[],
+  options: CommandOptions
+): Promise<CommandResult> {
+  const startTime = Date.now();
+
+  console.log(`[ui-agent] Running ${options.label}:`, {
+    executable: command,
+    args: args.map((arg) => (arg.length > 200 ? `[${arg.length} chars]` : arg)),
+    cwd: options.cwd,
+    timeout: `${options.timeoutMs}ms`,
+  });
+
+  return new Promise((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let cancelled = false;
+    let settled = false;
+
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: process.env, // Inherit environment variables (PATH, HOME, etc.)
+      stdio: ['ignore', 'pipe', 'pipe'], // Close stdin, pipe stdout/stderr
+      detached: process.platform !== 'win32', // Own process group, see killGroup
+    });
+
+    const finish = (result: Omit<CommandResult, 'stdout' | 'stderr' | 'timedOut' | 'cancelled' | 'elapsedMs'>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', handleAbort);
+      resolve({ ...result, stdout, stderr, timedOut, cancelled, elapsedMs: Date.now() - startTime });
+    };
+
+    // Killing only the agent would leave its children running (and holding our pipes open)
+    const killGroup = (signal: NodeJS.Signals) => {
+      try {
+        if (child.pid && process.platform !== 'win32') {
+          process.kill(-child.pid, signal);
+          return;
+        }
+      } catch {
+        // Group already gone
+      }
+      child.kill(signal);
+    };
+
+    const terminate = () => {
+      killGroup('SIGTERM');
+
+      setTimeout(() => {
+        if (!settled) {
+          console.warn(`[ui-agent] Force killing ${options.label} (SIGKILL)`);
+          killGroup('SIGKILL');
+        }
+      }, KILL_GRACE_MS).unref();
+    };
+
+    const handleAbort = () => {
+      cancelled = true;
+      console.warn(`[ui-agent] ${options.label} cancelled, killing process`);
+      terminate();
+    };
+
+    child.on('spawn', () => options.onSpawn?.());
+
+    child.stdout.on('data', (data) => {
+      const chunk = data.toString();
+      stdout += chunk;
+      options.onOutput?.('stdout', chunk);
+    });
+
+    child.stderr.on('data', (data) => {
+      const chunk = data.toString();
+      stderr += chunk;
+      options.onOutput?.('stderr', chunk);
+    });
+
+    child.on('error', (error) => {
+      console.error(`[ui-agent] ${options.label} spawn error:`, {
+        error: error.message,
+        code: (error as NodeJS.ErrnoException).code,
+      });
+      finish({ exitCode: null, signal: null, spawnError: error });
+    });
+
+    child.on('close', (code, signal) => {
+      if (settled) return; // Already reported by the 'error' handler
+      if (code !== 0 && !timedOut && !cancelled) {
+        console.warn(`[ui-agent] ${options.label} exited with non-zero code:`, {
+          exitCode: code,
+          signal,
+          stderr: stderr.slice(0, 500),
+        });
+      }
+      finish({ exitCode: code, signal });
+    });
+
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      console.warn(`[ui-agent] ${options.label} timeout reached, killing process`);
+      terminate();
+    }, options.timeoutMs);
+
+    if (options.signal?.aborted) {
+      handleAbort();
+    } else {
+      options.signal?.addEventListener('abort', handleAbort, { once: true });
+    }
+  });
+}
+
+/**
+ * Short human-readable reason a command failed, or null if it succeeded.
+ */
+export function describeFailure(result: CommandResult, label: string): string | null {
+  if (result.spawnError) {
+    return result.spawnError.code === 'ENOENT'
+      ? `${label} command not found`
+      : `Failed to spawn ${label}: ${result.spawnError.message}`;
+  }
+  if (result.cancelled) {
+    return `${label} cancelled`;
+  }
+  if (result.timedOut) {
+    return `${label} timeout - operation took too long`;
+  }
+  if (result.exitCode !== 0) {
+    return result.exitCode === null
+      ? `${label} terminated by signal ${result.signal}`
+      : `${label} exited with code ${result.exitCode}`;
+  }
+  return null;
+}
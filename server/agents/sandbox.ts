@@ -0,0 +1,119 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { FileDiff } from '../../src/shared/types';
+import { diffSnapshots, git, snapshotWorkingTree } from './gitDiff';
+
+/**
+ * Changes an agent made in a sandbox, ready to be applied to the real working tree.
+ */
+export interface SandboxProposal {
+  /** Binary-safe `git diff` of the whole change, for `git apply` */
+  patch: string;
+  diffs: FileDiff[];
+}
+
+/**
+ * A throwaway git worktree holding a copy of the project.
+ */
+export interface Sandbox {
+  /** Where the agent runs: the project root's counterpart inside the worktree */
+  cwd: string;
+  /** Collect everything the agent changed in the sandbox */
+  collect(): Promise<SandboxProposal>;
+  /** Remove the worktree. Safe to call more than once; failures are logged, never thrown. */
+  dispose(): Promise<void>;
+}
+
+function gitErrorMessage(error: unknown): string {
+  const stderr = (error as { stderr?: string }).stderr?.trim();
+  return stderr || (error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Create a worktree with the project exactly as it is now, uncommitted and untracked
+ * (but not ignored) files included. Ignored files such as node_modules are not copied.
+ * Throws if the project isn't a git repository with at least one commit.
+ *
+ * @param cwd - Project root
+ */
+export async function createSandbox(cwd: string): Promise<Sandbox> {
+  const base = await snapshotWorkingTree(cwd);
+  if (!base) {
+    throw new Error('Sandbox mode needs the project to be a git repository');
+  }
+
+  const repoRoot = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  const prefix = (await git(cwd, ['rev-parse', '--show-prefix'])).trim();
+  const directory = await mkdtemp(join(tmpdir(), 'ui-agent-sandbox-'));
+
+  try {
+    await git(repoRoot, ['worktree', 'add', '--detach', '--no-checkout', directory, 'HEAD']);
+    // Check out the snapshot rather than HEAD, so the agent sees uncommitted work too
+    await git(directory, ['read-tree', '--reset', '-u', base.treeId]);
+  } catch (error) {
+    await rm(directory, { recursive: true, force: true });
+    await git(repoRoot, ['worktree', 'prune']).catch(() => undefined);
+    throw new Error(`Could not create sandbox: ${gitErrorMessage(error)}`);
+  }
+
+  console.log('[ui-agent] Created sandbox worktree:', { directory, baseTree: base.treeId });
+  let disposed = false;
+
+  return {
+    cwd: join(directory, prefix),
+
+    async collect() {
+      const after = await snapshotWorkingTree(directory);
+      const diffs = after && (await diffSnapshots(base, after));
+      if (!after || !diffs) {
+        throw new Error('Could not collect the changes made in the sandbox');
+      }
+      const patch =
+        diffs.length === 0
+          ? ''
+          : await git(repoRoot, ['diff', '--binary', '--no-color', '--no-ext-diff', '--find-renames', base.treeId, after.treeId]);
+      return { patch, diffs };
+    },
+
+    async dispose() {
+      if (disposed) return;
+      disposed = true;
+      await git(repoRoot, ['worktree', 'remove', '--force', directory]).catch((error) => {
+        console.warn('[ui-agent] Could not remove sandbox worktree:', gitErrorMessage(error));
+      });
+      await rm(directory, { recursive: true, force: true }).catch((error) => {
+        console.warn('[ui-agent] Could not delete sandbox directory:', {
+          directory,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+      await git(repoRoot, ['worktree', 'prune']).catch(() => undefined);
+    },
+  };
+}
+
+/**
+ * Apply a sandbox patch to the real working tree (not the index).
+ * Nothing is changed if any part of it doesn't apply, e.g. because the same lines were
+ * edited since the sandbox was created; the error says which files conflict.
+ *
+ * @param cwd - Project root
+ * @param patch - SandboxProposal.patch
+ */
+export async function applySandboxPatch(cwd: string, patch: string): Promise<void> {
+  if (!patch) return;
+
+  const repoRoot = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  const directory = await mkdtemp(join(tmpdir(), 'ui-agent-patch-'));
+  const patchFile = join(directory, 'change.patch');
+  try {
+    await writeFile(patchFile, patch);
+    await git(repoRoot, ['apply', '--check', patchFile]);
+    await git(repoRoot, ['apply', patchFile]);
+  } catch (error) {
+    throw new Error(`Patch does not apply: ${gitErrorMessage(error)}`);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
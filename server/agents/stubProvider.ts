@@ -0,0 +1,41 @@
+import type { AgentProvider } from './types';
+import { buildChangePrompt } from './prompts';
+
+/**
+ * Offline provider that never runs an agent, for testing the overlay and the
+ * submission flow without a CLI or network.
+ * - resolveLocation: the first indexed JSX text (by file path and line) equal to the
+ *   clicked element's text, or null
+ * - applyChange: changes nothing and echoes the prompt it would have sent
+ */
+export function createStubProvider(): AgentProvider {
+  return {
+    name: 'stub',
+
+    async resolveLocation({ payload, index }) {
+      const text = (payload.textSnippet ?? '').replace(/\s+/g, ' ').trim();
+      if (!text) return null;
+
+      const [match] = index
+        .lookups()
+        .texts.filter((entry) => entry.text === text)
+        .sort((a, b) => a.file.filePath.localeCompare(b.file.filePath) || a.lineNumber - b.lineNumber);
+
+      return match
+        ? { filePath: match.file.filePath, componentName: match.element.componentName, lineNumber: match.lineNumber }
+        : null;
+    },
+
+    async applyChange({ contexts, userMessage, onEvent }) {
+      const prompt = buildChangePrompt(contexts, userMessage);
+      onEvent?.({ type: 'spawned', provider: 'stub' });
+      onEvent?.({ type: 'output', stream: 'stdout', chunk: prompt });
+
+      return {
+        success: true,
+        message: 'Stub agent: no changes made',
+        agentOutput: prompt,
+      };
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import type { AgentEvent, ComponentContext, SelectionPayload, SubmissionResponse } from '../../src/shared/types';
+import type { SourceIndex } from '../resolvers/sourceIndex';
+
+/**
+ * Where an agent says the selected element is rendered.
+ */
+export interface AgentLocation {
+  filePath: string;
+  componentName?: string;
+  lineNumber?: number;
+}
+
+/**
+ * Ask an agent to find the source of a selected element.
+ */
+export interface LocateRequest {
+  payload: SelectionPayload;
+  cwd: string;
+  index: SourceIndex;
+}
+
+/**
+ * Ask an agent to change the code behind one or more verified selections.
+ */
+export interface ChangeRequest {
+  /** Selected elements in selection order; at least one */
+  contexts: ComponentContext[];
+  userMessage: string;
+  cwd: string;
+  /** Receives progress while the agent runs (everything except the final done/failed) */
+  onEvent?: (event: AgentEvent) => void;
+  /** Aborted when the submission is cancelled; the agent process must stop */
+  signal?: AbortSignal;
+}
+
+/**
+ * A coding agent the backend can hand work to.
+ * Implementations never throw for agent failures; they return null / success: false.
+ */
+export interface AgentProvider {
+  name: string;
+  /** Find the source location of an element. Returns null if the agent couldn't tell. */
+  resolveLocation(request: LocateRequest): Promise<AgentLocation | null>;
+  /** Apply the requested change to the codebase */
+  applyChange(request: ChangeRequest): Promise<SubmissionResponse>;
+}
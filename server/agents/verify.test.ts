@@ -0,0 +1,111 @@
+/** @jest-environment node */
+import { chmod, mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { VerifyConfig } from '../config';
+import { verifyChanges } from './verify';
+
+const ALL: VerifyConfig = { typecheck: true, lint: true, tests: true, timeoutMs: 10000 };
+
+let cwd: string;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-verify-'));
+  await mkdir(join(cwd, 'node_modules/.bin'), { recursive: true });
+  await writeFile(join(cwd, 'tsconfig.json'), '{}');
+});
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+/**
+ * Install a stand-in for a tool that prints `output` and exits with `exitCode`.
+ */
+async function installTool(tool: string, output: string, exitCode = 0) {
+  const binary = join(cwd, 'node_modules/.bin', tool);
+  await writeFile(binary, `#!/bin/sh\ncat <<'EOF'\n${output}\nEOF\nexit ${exitCode}\n`);
+  await chmod(binary, 0o755);
+}
+
+test('runs every check on the changed files and reports each with its summary', async () => {
+  await installTool('tsc', '');
+  await installTool('eslint', '');
+  await installTool('jest', 'Tests:       3 passed, 3 total');
+  const onEvent = jest.fn();
+
+  const report = await verifyChanges(cwd, [join(cwd, 'src/App.tsx')], ALL, { onEvent });
+
+  expect(report.passed).toBe(true);
+  expect(report.checks.map(({ name, status, summary, command }) => ({ name, status, summary, command }))).toEqual([
+    { name: 'typecheck', status: 'passed', summary: 'No type errors', command: 'tsc --noEmit --pretty false' },
+    { name: 'lint', status: 'passed', summary: 'No problems', command: 'eslint --format stylish src/App.tsx' },
+    {
+      name: 'tests',
+      status: 'passed',
+      summary: '3 passed, 3 total',
+      command: 'jest --ci --coverage=false --passWithNoTests --findRelatedTests src/App.tsx',
+    },
+  ]);
+  expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+    { type: 'verifying', check: 'typecheck' },
+    { type: 'verifying', check: 'lint' },
+    { type: 'verifying', check: 'tests' },
+  ]);
+});
+
+test('fails with the errors in the changed files listed first', async () => {
+  await installTool(
+    'tsc',
+    [
+      'src/Other.tsx(1,1): error TS2304: Cannot find name "x".',
+      'src/App.tsx(4,7): error TS2322: Type "string" is not assignable to type "number".',
+    ].join('\n'),
+    2
+  );
+  await installTool('eslint', '\x1b[31m✖ 2 problems (1 error, 1 warning)\x1b[0m', 1);
+
+  const report = await verifyChanges(cwd, [join(cwd, 'src/App.tsx')], { ...ALL, tests: false });
+
+  expect(report.passed).toBe(false);
+  expect(report.checks[0]).toMatchObject({ status: 'failed', summary: '2 type errors (1 in changed files)' });
+  expect(report.checks[0].output?.split('\n')[0]).toMatch(/^src\/App\.tsx/);
+  expect(report.checks[1]).toMatchObject({ status: 'failed', summary: '2 problems (1 error, 1 warning)' });
+  expect(report.checks[1].output).not.toContain('\x1b');
+});
+
+test('skips checks that cannot run instead of failing them', async () => {
+  await rm(join(cwd, 'tsconfig.json'));
+
+  const report = await verifyChanges(cwd, [join(cwd, 'styles.css')], ALL);
+
+  expect(report.passed).toBe(true);
+  expect(report.checks).toEqual([
+    { name: 'typecheck', status: 'skipped', summary: 'No tsconfig.json in the project root' },
+    { name: 'lint', status: 'skipped', summary: 'No changed JavaScript/TypeScript files' },
+    { name: 'tests', status: 'skipped', summary: 'jest is not installed in this project' },
+  ]);
+  expect(await verifyChanges(cwd, [], { ...ALL, typecheck: false, lint: false })).toEqual({
+    passed: true,
+    checks: [{ name: 'tests', status: 'skipped', summary: 'No changed files left to test' }],
+  });
+});
+
+test('fails a check that times out and runs no more checks once aborted', async () => {
+  const binary = join(cwd, 'node_modules/.bin/tsc');
+  await writeFile(binary, '#!/bin/sh\nexec sleep 30\n');
+  await chmod(binary, 0o755);
+  await installTool('eslint', '');
+
+  const timedOut = await verifyChanges(cwd, [join(cwd, 'src/App.tsx')], { ...ALL, tests: false, timeoutMs: 100 });
+  expect(timedOut.checks[0]).toMatchObject({ status: 'failed', summary: 'Timed out after 100ms' });
+  expect(timedOut.checks[1].status).toBe('passed');
+
+  const controller = new AbortController();
+  controller.abort();
+  const aborted = await verifyChanges(cwd, [join(cwd, 'src/App.tsx')], ALL, { signal: controller.signal });
+  expect(aborted.checks).toEqual([]);
+});
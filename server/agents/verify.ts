@@ -0,0 +1,168 @@
+import { existsSync } from 'node:fs';
+import { extname, isAbsolute, join, relative } from 'node:path';
+import type {
+  AgentEvent,
+  VerificationCheck,
+  VerificationCheckName,
+  VerificationReport,
+} from '../../src/shared/types';
+import type { VerifyConfig } from '../config';
+import { runAgentCommand, type CommandResult } from './runCommand';
+
+/**
+ * Output kept per check; the start of it holds the errors that matter.
+ */
+const MAX_OUTPUT_LENGTH = 4000;
+
+const LINTABLE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Terminal color codes, which tools print even when piped if FORCE_COLOR is set.
+ */
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+function excerpt(text: string): string | undefined {
+  const clean = text.replace(ANSI_PATTERN, '').trim();
+  if (!clean) return undefined;
+  return clean.length > MAX_OUTPUT_LENGTH ? `${clean.slice(0, MAX_OUTPUT_LENGTH)}\n… output truncated` : clean;
+}
+
+/**
+ * Locally installed binary of a tool, or null if the project doesn't have it.
+ */
+function localBinary(cwd: string, tool: string): string | null {
+  const binary = join(cwd, 'node_modules', '.bin', tool);
+  return existsSync(binary) ? binary : null;
+}
+
+interface CheckOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+async function runCheck(
+  name: VerificationCheckName,
+  cwd: string,
+  tool: string,
+  args: string[],
+  { timeoutMs, signal }: CheckOptions,
+  summarize: (result: CommandResult, output: string) => { summary: string; output?: string }
+): Promise<VerificationCheck> {
+  const binary = localBinary(cwd, tool);
+  if (!binary) {
+    return { name, status: 'skipped', summary: `${tool} is not installed in this project` };
+  }
+
+  const command = [tool, ...args.map((arg) => (isAbsolute(arg) ? relative(cwd, arg) : arg))].join(' ');
+  const result = await runAgentCommand(binary, args, { cwd, timeoutMs, label: tool, signal });
+  const output = `${result.stdout}\n${result.stderr}`.replace(ANSI_PATTERN, '');
+
+  if (result.spawnError || result.timedOut || result.cancelled) {
+    return {
+      name,
+      status: 'failed',
+      command,
+      summary: result.timedOut ? `Timed out after ${timeoutMs}ms` : result.spawnError?.message ?? 'Cancelled',
+      output: excerpt(output),
+      durationMs: result.elapsedMs,
+    };
+  }
+
+  const summarized = summarize(result, output);
+  return {
+    name,
+    status: result.exitCode === 0 ? 'passed' : 'failed',
+    command,
+    summary: summarized.summary,
+    output: summarized.output ?? excerpt(output),
+    durationMs: result.elapsedMs,
+  };
+}
+
+/**
+ * Type-check the whole project: a change can break files it didn't touch.
+ * Errors in the changed files are listed first.
+ */
+function typecheck(cwd: string, files: string[], options: CheckOptions): Promise<VerificationCheck> {
+  // Without a tsconfig, tsc only prints its usage
+  if (!existsSync(join(cwd, 'tsconfig.json'))) {
+    return Promise.resolve({ name: 'typecheck', status: 'skipped', summary: 'No tsconfig.json in the project root' });
+  }
+
+  const changed = new Set(files.map((file) => relative(cwd, file)));
+
+  return runCheck('typecheck', cwd, 'tsc', ['--noEmit', '--pretty', 'false'], options, (result, output) => {
+    if (result.exitCode === 0) return { summary: 'No type errors' };
+
+    const errors = output.split('\n').filter((line) => / error TS\d+:/.test(line));
+    const inChanged = errors.filter((line) => changed.has(line.split('(')[0]));
+    const others = errors.filter((line) => !inChanged.includes(line));
+    return {
+      summary: `${errors.length} type ${errors.length === 1 ? 'error' : 'errors'} (${inChanged.length} in changed files)`,
+      output: excerpt([...inChanged, ...others].join('\n') || output),
+    };
+  });
+}
+
+function lint(cwd: string, files: string[], options: CheckOptions): Promise<VerificationCheck> {
+  const lintable = files.filter((file) => LINTABLE_EXTENSIONS.includes(extname(file)));
+  if (lintable.length === 0) {
+    return Promise.resolve({ name: 'lint', status: 'skipped', summary: 'No changed JavaScript/TypeScript files' });
+  }
+
+  return runCheck('lint', cwd, 'eslint', ['--format', 'stylish', ...lintable], options, (result, output) => {
+    const problems = output.match(/✖ (\d+ problems? \(\d+ errors?, \d+ warnings?\))/);
+    return { summary: problems ? problems[1] : result.exitCode === 0 ? 'No problems' : 'ESLint failed' };
+  });
+}
+
+function tests(cwd: string, files: string[], options: CheckOptions): Promise<VerificationCheck> {
+  if (files.length === 0) {
+    return Promise.resolve({ name: 'tests', status: 'skipped', summary: 'No changed files left to test' });
+  }
+
+  const args = ['--ci', '--coverage=false', '--passWithNoTests', '--findRelatedTests', ...files];
+  return runCheck('tests', cwd, 'jest', args, options, (result, output) => {
+    const summary = output.match(/^Tests:\s+(.+)$/m);
+    return {
+      summary: summary ? summary[1].trim() : result.exitCode === 0 ? 'No related tests' : 'Jest failed',
+    };
+  });
+}
+
+/**
+ * Run the enabled checks one after another on the files a submission changed.
+ * Checks whose tool isn't installed are skipped, not failed.
+ *
+ * @param cwd - Project root
+ * @param files - Absolute paths of the changed files that still exist
+ * @param config - Which checks to run
+ * @param options.onEvent - Receives a `verifying` event before each check
+ * @param options.signal - Stops the running check and skips the rest when aborted
+ */
+export async function verifyChanges(
+  cwd: string,
+  files: string[],
+  config: VerifyConfig,
+  { onEvent, signal }: { onEvent?: (event: AgentEvent) => void; signal?: AbortSignal } = {}
+): Promise<VerificationReport> {
+  const checks: VerificationCheck[] = [];
+  const steps = [
+    { name: 'typecheck', enabled: config.typecheck, run: typecheck },
+    { name: 'lint', enabled: config.lint, run: lint },
+    { name: 'tests', enabled: config.tests, run: tests },
+  ] as const;
+
+  for (const step of steps) {
+    if (!step.enabled || signal?.aborted) continue;
+    onEvent?.({ type: 'verifying', check: step.name });
+    checks.push(await step.run(cwd, files, { timeoutMs: config.timeoutMs, signal }));
+  }
+
+  console.log(
+    '[ui-agent] Verification:',
+    Object.fromEntries(checks.map((check) => [check.name, `${check.status}: ${check.summary}`]))
+  );
+  return { passed: checks.every((check) => check.status !== 'failed'), checks };
+}
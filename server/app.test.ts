@@ -0,0 +1,130 @@
+/** @jest-environment node */
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AgentEvent, ComponentContext, ResolutionTrace, SelectionPayload } from '../src/shared/types';
+import {
+  UiAgentApiError,
+  configureApi,
+  createJob,
+  getResolutionTrace,
+  resolveSelection,
+  streamJobEvents,
+} from '../src/dev-tools-agent/api';
+import { git } from './agents/gitDiff';
+import { createUiAgentApp, type UiAgentApp } from './app';
+import { SESSION_TOKEN_HEADER } from './security';
+
+const context: ComponentContext = {
+  id: 'ctx-1',
+  source: 'heuristic',
+  filePath: 'src/App.tsx',
+  lineNumber: 1,
+  confidence: 'high',
+  selectorSummary: 'button',
+  domSummary: '<button>',
+  needsVerification: false,
+  verified: true,
+};
+
+let cwd: string;
+let uiAgent: UiAgentApp;
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-app-'));
+  await git(cwd, ['init', '--quiet']);
+  await writeFile(join(cwd, 'App.tsx'), 'export const App = () => <button>Save</button>;\n');
+  await writeFile(
+    join(cwd, 'ui-agent.config.json'),
+    JSON.stringify({ agent: { provider: 'stub' }, verify: { typecheck: false, lint: false, tests: false } })
+  );
+  await git(cwd, ['add', '--all']);
+  await git(cwd, ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '--quiet', '-m', 'initial']);
+
+  uiAgent = await createUiAgentApp(cwd);
+  server = uiAgent.app.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  configureApi({ baseUrl, sessionToken: uiAgent.sessionToken });
+});
+
+afterAll(async () => {
+  uiAgent.close();
+  await new Promise((resolve) => server.close(resolve));
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+test('streams a job as Server-Sent Events, one event per message', async () => {
+  const job = await createJob(context, 'Make it blue');
+  const res = await fetch(`${baseUrl}/jobs/${job.id}/events`, {
+    headers: { [SESSION_TOKEN_HEADER]: uiAgent.sessionToken },
+  });
+
+  expect(res.headers.get('content-type')).toBe('text/event-stream');
+  const messages = (await res.text()).split('\n\n').filter(Boolean);
+  const last = messages[messages.length - 1].split('\n');
+  expect(last[0]).toBe('event: done');
+  expect(JSON.parse(last[1].slice('data: '.length))).toMatchObject({
+    type: 'done',
+    result: { success: true, message: 'Stub agent: no changes made' },
+  });
+});
+
+test('replays and follows a job from the overlay client until it finishes', async () => {
+  const job = await createJob(context, 'Make it green');
+  const events: AgentEvent[] = [];
+
+  const result = await streamJobEvents(job.id, (event) => events.push(event));
+
+  expect(result).toMatchObject({ success: true, agentOutput: expect.stringContaining('Make it green') });
+  expect(events[0]).toEqual({ type: 'queued', jobId: job.id, position: 0 });
+  expect(events.map((event) => event.type)).toEqual(expect.arrayContaining(['spawned', 'output']));
+  expect(events[events.length - 1].type).toBe('done');
+});
+
+test('refuses to stream an unknown job', async () => {
+  const stream = streamJobEvents('no-such-job', () => undefined);
+
+  await expect(stream).rejects.toBeInstanceOf(UiAgentApiError);
+  await expect(stream).rejects.toMatchObject({ code: 'not_found', status: 404 });
+});
+
+test('submits several selections as one job', async () => {
+  const link: ComponentContext = { ...context, id: 'ctx-2', filePath: 'src/Footer.tsx', lineNumber: 8 };
+  const job = await createJob([context, link], 'Use the same color for both');
+
+  expect(job.targets?.map((target) => target.filePath)).toEqual(['src/App.tsx', 'src/Footer.tsx']);
+  const result = await streamJobEvents(job.id, () => undefined);
+  expect(result.agentOutput).toContain('The user selected 2 elements');
+});
+
+test('traces every resolution, cached or not, for the debug endpoints', async () => {
+  const payload: SelectionPayload = {
+    pageUrl: 'http://localhost:5173/',
+    selector: 'button',
+    testId: null,
+    domOuterHtml: '<button>Save</button>',
+    textSnippet: 'Save',
+    classes: [],
+  };
+  const resolved = await resolveSelection(payload);
+  const cached = await resolveSelection(payload);
+
+  const trace = await getResolutionTrace(resolved.traceId ?? '');
+  expect(trace).toMatchObject({ id: resolved.traceId, selector: 'button', result: { filePath: 'App.tsx' } });
+  expect(trace?.runs.length).toBeGreaterThan(0);
+  expect(await getResolutionTrace(cached.traceId ?? '')).toMatchObject({ outcome: 'cached', cachedFrom: trace?.id });
+  expect(await getResolutionTrace('no-such-trace')).toBeNull();
+
+  const res = await fetch(`${baseUrl}/debug/resolutions?limit=2`, {
+    headers: { [SESSION_TOKEN_HEADER]: uiAgent.sessionToken },
+  });
+  const { traces } = (await res.json()) as { traces: ResolutionTrace[] };
+  expect(traces.map((recent) => recent.id)).toEqual([cached.traceId, resolved.traceId]);
+});
@@ -0,0 +1,403 @@
+import express from 'express';
+import { randomUUID } from 'node:crypto';
+import cors from 'cors';
+import type {
+  AgentEvent,
+  ComponentContext,
+  SubmissionRequest,
+  SubmissionResponse,
+} from '../src/shared/types';
+import {
+  resolveSelection,
+  createSourceIndex,
+  extractCodeSnippet,
+  getResolverChain,
+  createResolutionCache,
+  resolutionCacheKey,
+  trackFileReads,
+  createTraceLog,
+  createTraceRecorder,
+  MAX_TRACES,
+} from './resolvers';
+import { loadConfig, type ModuleImporter, type UiAgentConfig } from './config';
+import { createJobQueue, getAgentProvider, type AgentProvider } from './agents';
+import { errorHandler, notFoundHandler, sendError, sendInvalidRequest } from './errors';
+import { SESSION_TOKEN_HEADER, createSessionToken, originGuard, sessionTokenGuard } from './security';
+import { validateResolveSelectionRequest, validateRetryRequest, validateSubmissionRequest } from './validation';
+
+export interface UiAgentApp {
+  app: express.Express;
+  config: UiAgentConfig;
+  /** Token every request but /health and /session must carry (see server/security) */
+  sessionToken: string;
+  /** Stop watching the source files */
+  close(): void;
+}
+
+export interface UiAgentAppOptions {
+  /** Imports the config file and custom resolver modules; defaults to Node's import() */
+  importModule?: ModuleImporter;
+}
+
+/**
+ * The backend as an Express app, for the standalone server (server/index.ts) or to mount
+ * as middleware in a dev server (server/vitePlugin.ts). Routes are relative to the mount point.
+ *
+ * @param cwd - Project root: config, sources and the agents' working directory
+ */
+export async function createUiAgentApp(cwd: string, { importModule }: UiAgentAppOptions = {}): Promise<UiAgentApp> {
+  const config = await loadConfig(cwd, importModule);
+  // Fail at startup rather than on the first click if a custom resolver can't be loaded
+  await getResolverChain(config, cwd, importModule);
+
+  const sourceIndex = await createSourceIndex(cwd, config);
+  const stopWatching = sourceIndex.watch();
+
+  const resolutionCache = createResolutionCache(sourceIndex);
+  const traceLog = createTraceLog();
+
+  const jobQueue = createJobQueue(cwd, config);
+
+  // New on every start: a token leaked from an earlier run is worthless
+  const sessionToken = createSessionToken();
+
+  const app = express();
+
+  // Order matters: foreign origins are refused before cors() answers their preflight,
+  // and the token is checked after it (preflights don't carry it)
+  app.use(originGuard(config.allowedOrigins));
+  app.use(cors({ allowedHeaders: ['Content-Type', SESSION_TOKEN_HEADER] }));
+  app.use(express.json());
+  app.use(sessionTokenGuard(sessionToken, ['/health', '/session']));
+
+  app.get('/health', (_req, res) => {
+    res.json({ ok: true });
+  });
+
+  /**
+   * Hand the session token to the overlay. Only pages from an allowed origin get it:
+   * requests without an Origin header are refused, since browsers leave it out of
+   * same-origin GETs, which is what a DNS-rebound page would send.
+   */
+  app.get('/session', (req, res) => {
+    if (!req.headers.origin) {
+      sendError(res, 'forbidden', 'The session token is only handed to pages from an allowed origin');
+      return;
+    }
+    res.json({ token: sessionToken });
+  });
+
+  /**
+   * Resolve a selection to its source location. Results are cached until one of the files
+   * they depended on changes; `cache` in the response says whether this one was a hit.
+   * Every resolution, cached or not, is traced (componentContext.traceId, GET /debug/resolutions).
+   */
+  app.post('/resolve-selection', async (req, res) => {
+    const validated = validateResolveSelectionRequest(req.body);
+    if ('details' in validated) {
+      sendInvalidRequest(res, validated.details);
+      return;
+    }
+    const { useAgentFallback = false, agentProvider, ...payload } = validated.value;
+
+    // Build base response
+    const componentContext: ComponentContext = {
+      id: randomUUID(),
+      source: 'heuristic',
+      confidence: 'low',
+      filePath: '',
+      selectorSummary: payload.selector,
+      domSummary: payload.textSnippet.slice(0, 100),
+      needsVerification: true,
+      verified: false,
+    };
+
+    let cache: 'hit' | 'miss' = 'miss';
+    const trace = createTraceRecorder(payload.selector);
+
+    // Run resolver chain, unless the result is cached
+    try {
+      const cacheKey = resolutionCacheKey(payload, { agentProvider, useAgentFallback });
+      let result = resolutionCache.get(cacheKey);
+      if (result) {
+        cache = 'hit';
+        const resolvedBy = result.traceId ? traceLog.get(result.traceId) : undefined;
+        trace.stop(
+          'cached',
+          `served from the resolution cache, none of its files changed; ${
+            resolvedBy ? `when resolved: ${resolvedBy.reason}` : 'the trace of the resolution is no longer kept'
+          }`
+        );
+      } else {
+        const tracked = trackFileReads(sourceIndex);
+        result = await resolveSelection(payload, {
+          cwd: cwd,
+          index: tracked.index,
+          config,
+          agentProvider,
+          useAgentFallback,
+          trace,
+        });
+        result = { ...result, traceId: trace.id };
+        resolutionCache.set(cacheKey, result, tracked.reads);
+      }
+      traceLog.add(trace.finish(result, cache === 'hit' ? result.traceId : undefined));
+      componentContext.traceId = trace.id;
+
+      componentContext.source = result.source || 'heuristic';
+      componentContext.confidence = result.confidence;
+      componentContext.score = result.score;
+      componentContext.signals = result.signals;
+      componentContext.verified = result.verified;
+      componentContext.filePath = result.filePath;
+      componentContext.componentName = result.componentName;
+      componentContext.lineNumber = result.lineNumber;
+      componentContext.columnNumber = result.columnNumber;
+      componentContext.needsVerification = !result.verified;
+      componentContext.codeSnippet = result.codeSnippet;
+      componentContext.candidates = result.candidates;
+      componentContext.parentLocation = result.parentLocation;
+    } catch (error) {
+      console.error('[ui-agent] Resolution failed:', error);
+      const message = error instanceof Error ? error.message : 'Resolution failed';
+      trace.stop('unresolved', `resolution failed: ${message}`);
+      traceLog.add(trace.finish(null));
+      sendError(res, 'resolution_failed', message, { traceId: trace.id });
+      return;
+    }
+
+    res.json({ componentContext, cache });
+  });
+
+  /**
+   * The last resolutions' traces, newest first: what each resolver tried, how long it took
+   * and why the chain ended where it did. `?limit=` returns fewer (at most MAX_TRACES are kept).
+   */
+  app.get('/debug/resolutions', (req, res) => {
+    const limit = req.query.limit === undefined ? MAX_TRACES : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      sendInvalidRequest(res, [{ path: 'limit', message: 'must be a positive integer' }]);
+      return;
+    }
+    res.json({ traces: traceLog.recent(limit) });
+  });
+
+  app.get('/debug/resolutions/:id', (req, res) => {
+    const trace = traceLog.get(req.params.id);
+    if (!trace) {
+      sendError(res, 'not_found', `Unknown trace ${req.params.id}; only the last ${MAX_TRACES} are kept`);
+      return;
+    }
+    res.json({ trace });
+  });
+
+  // Flush the resolution cache, e.g. after changing resolvers or adding source files
+  app.delete('/resolution-cache', (_req, res) => {
+    const flushed = resolutionCache.clear();
+    console.log(`[ui-agent] Resolution cache flushed (${flushed} entries)`);
+    res.json({ flushed });
+  });
+
+  /**
+   * Validate a submission body, collect its contexts and pick its agent provider.
+   * The code shown to the agent is read again from the project rather than taken from the
+   * request. Sends a 400 and returns null for requests that must be rejected.
+   */
+  async function prepareSubmission(
+    body: unknown,
+    res: express.Response
+  ): Promise<(SubmissionRequest & { provider: AgentProvider; contexts: ComponentContext[] }) | null> {
+    const validated = validateSubmissionRequest(body, cwd);
+    if ('details' in validated) {
+      sendInvalidRequest(res, validated.details);
+      return null;
+    }
+
+    const contexts = await Promise.all(
+      validated.value.contexts.map(async (context) => ({
+        ...context,
+        codeSnippet: context.lineNumber
+          ? await extractCodeSnippet(context.filePath, context.lineNumber, sourceIndex)
+          : undefined,
+      }))
+    );
+    return { ...validated.value, contexts, provider: getAgentProvider(config, validated.value.agentProvider) };
+  }
+
+  /**
+   * Send a job's events as Server-Sent Events: everything so far, then new events up to
+   * the final `done` / `failed`. Disconnecting stops the stream, not the job.
+   */
+  function streamJob(req: express.Request, res: express.Response, jobId: string) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const unsubscribe = jobQueue.subscribe(jobId, (event: AgentEvent) => {
+      if (res.writableEnded) return;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.type === 'done' || event.type === 'failed') {
+        res.end();
+      }
+    });
+    req.on('close', () => unsubscribe?.());
+  }
+
+  /**
+   * Submit a change and wait for it to finish.
+   * Runs through the job queue like POST /jobs, so it counts against the concurrency limit.
+   */
+  app.post('/submit-to-agent', async (req, res) => {
+    const prepared = await prepareSubmission(req.body, res);
+    if (!prepared) return;
+
+    const job = jobQueue.submit(prepared.provider, prepared.contexts, prepared.userMessage, {
+      sandbox: prepared.sandbox ?? config.agent.sandbox,
+    });
+    const result = await new Promise<SubmissionResponse>((resolve) => {
+      jobQueue.subscribe(job.id, (event) => {
+        if (event.type === 'done' || event.type === 'failed') resolve(event.result);
+      });
+    });
+    res.json(result);
+  });
+
+  /**
+   * Queue a submission and return the job right away (202).
+   * Follow it with GET /jobs/:id or GET /jobs/:id/events.
+   */
+  app.post('/jobs', async (req, res) => {
+    const prepared = await prepareSubmission(req.body, res);
+    if (!prepared) return;
+
+    const job = jobQueue.submit(prepared.provider, prepared.contexts, prepared.userMessage, {
+      sandbox: prepared.sandbox ?? config.agent.sandbox,
+    });
+    res.status(202).json({ job });
+  });
+
+  // Listing leaves out the event logs, which can hold the agents' full output
+  app.get('/jobs', (_req, res) => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    res.json({ jobs: jobQueue.list().map(({ events: _events, ...job }) => job) });
+  });
+
+  app.get('/jobs/:id', (req, res) => {
+    const job = jobQueue.get(req.params.id);
+    if (!job) {
+      sendError(res, 'not_found', `Unknown job ${req.params.id}`);
+      return;
+    }
+    res.json({ job });
+  });
+
+  app.get('/jobs/:id/events', (req, res) => {
+    if (!jobQueue.get(req.params.id)) {
+      sendError(res, 'not_found', `Unknown job ${req.params.id}`);
+      return;
+    }
+    streamJob(req, res, req.params.id);
+  });
+
+  /**
+   * Cancel a queued or running job. A running job reports `cancelRequested` until its
+   * agent process has exited (SIGTERM, then SIGKILL).
+   */
+  app.post('/jobs/:id/cancel', (req, res) => {
+    const job = jobQueue.cancel(req.params.id);
+    if (!job) {
+      sendError(res, 'not_found', `Unknown job ${req.params.id}`);
+      return;
+    }
+    if (job.status !== 'cancelled' && !job.cancelRequested) {
+      sendError(res, 'conflict', `Job ${job.id} already ${job.status}`, { job });
+      return;
+    }
+    res.json({ job });
+  });
+
+  /**
+   * Apply the changes a sandboxed job proposed to the working tree.
+   * 409 if there is nothing to apply or the patch conflicts with edits made since.
+   */
+  app.post('/jobs/:id/apply', async (req, res) => {
+    try {
+      const job = await jobQueue.apply(req.params.id);
+      if (!job) {
+        sendError(res, 'not_found', `Unknown job ${req.params.id}`);
+        return;
+      }
+      res.json({ job });
+    } catch (error) {
+      sendError(res, 'conflict', error instanceof Error ? error.message : 'Could not apply changes');
+    }
+  });
+
+  app.post('/jobs/:id/discard', (req, res) => {
+    try {
+      const job = jobQueue.discard(req.params.id);
+      if (!job) {
+        sendError(res, 'not_found', `Unknown job ${req.params.id}`);
+        return;
+      }
+      res.json({ job });
+    } catch (error) {
+      sendError(res, 'conflict', error instanceof Error ? error.message : 'Could not discard changes');
+    }
+  });
+
+  /**
+   * Run a sandboxed job again with amended instructions ({ userMessage }).
+   * Discards the old job's proposal and returns the new job (202).
+   */
+  app.post('/jobs/:id/retry', (req, res) => {
+    const validated = validateRetryRequest(req.body);
+    if ('details' in validated) {
+      sendInvalidRequest(res, validated.details);
+      return;
+    }
+    const userMessage = validated.value.userMessage;
+
+    try {
+      const job = jobQueue.retry(req.params.id, userMessage.trim());
+      if (!job) {
+        sendError(res, 'not_found', `Unknown job ${req.params.id}`);
+        return;
+      }
+      res.status(202).json({ job });
+    } catch (error) {
+      sendError(res, 'conflict', error instanceof Error ? error.message : 'Could not retry job');
+    }
+  });
+
+  /**
+   * Undo a submission's changes to the working tree (a submission is a job; same ID).
+   * 409 with `conflicts` if any of its files were edited again since; nothing is reverted then.
+   */
+  app.post('/submissions/:id/revert', async (req, res) => {
+    try {
+      const reverted = await jobQueue.revert(req.params.id);
+      if (!reverted) {
+        sendError(res, 'not_found', `Unknown submission ${req.params.id}`);
+        return;
+      }
+      if (reverted.conflicts.length > 0) {
+        sendError(res, 'conflict', 'Files were changed after the submission; nothing was reverted', {
+          conflicts: reverted.conflicts,
+          job: reverted.job,
+        });
+        return;
+      }
+      res.json({ job: reverted.job });
+    } catch (error) {
+      sendError(res, 'conflict', error instanceof Error ? error.message : 'Could not revert submission');
+    }
+  });
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return { app, config, sessionToken, close: stopWatching };
+}
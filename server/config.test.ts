@@ -0,0 +1,129 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_CONFIG, loadConfig, validateConfig } from './config';
+import { getResolverChain } from './resolvers';
+import { getSourceFiles, isSourceFile } from './resolvers/sourceProject';
+
+let cwd: string;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-config-'));
+});
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+test('merges a partial config over the defaults', () => {
+  const config = validateConfig(
+    { sourceRoots: ['./src/', 'lib'], ignore: ['**/*.stories.tsx'], agent: { model: 'fast' }, verify: { lint: false } },
+    'ui-agent.config.ts'
+  );
+
+  expect(config).toEqual({
+    ...DEFAULT_CONFIG,
+    sourceRoots: ['src', 'lib'],
+    ignore: ['**/*.stories.tsx'],
+    agent: { ...DEFAULT_CONFIG.agent, model: 'fast' },
+    verify: { ...DEFAULT_CONFIG.verify, lint: false },
+  });
+  expect(validateConfig({}, 'ui-agent.config.ts')).toEqual(DEFAULT_CONFIG);
+});
+
+test('rejects an unknown provider, listing every problem', () => {
+  expect(() =>
+    validateConfig({ agent: { provider: 'copilot', timeout: 5 }, port: -1, colour: 'blue' }, 'ui-agent.config.json')
+  ).toThrow(
+    [
+      '[ui-agent] Invalid config in ui-agent.config.json:',
+      '  - unknown option "colour"',
+      '  - "port" must be a positive integer',
+      '  - unknown option "agent.timeout"',
+      '  - "agent.provider" must be one of cursor, command, stub',
+    ].join('\n')
+  );
+  expect(() => validateConfig({ agent: { provider: 'command' } }, 'config')).toThrow(/neither "agent.resolveCommand"/);
+  expect(() => validateConfig([], 'config')).toThrow('[ui-agent] Invalid config in config: expected an object');
+});
+
+test('rejects malformed lists and origins', () => {
+  expect(() =>
+    validateConfig(
+      { ignore: 'dist', resolvers: [], sourceRoots: ['../shared'], allowedOrigins: ['http://localhost:3000/'] },
+      'config'
+    )
+  ).toThrow(
+    [
+      '  - "ignore" must be an array of non-empty strings',
+      '  - "sourceRoots" must be inside the project root',
+      '  - "resolvers" must not be empty',
+      '  - "allowedOrigins" entry "http://localhost:3000/" must look like http://host:port (port may be *)',
+    ].join('\n')
+  );
+});
+
+test('rejects an unknown resolver when the chain is loaded', async () => {
+  const config = validateConfig({ resolvers: ['testId', 'xpath'] }, 'config');
+
+  await expect(getResolverChain(config, cwd)).rejects.toThrow(
+    '[ui-agent] Unknown resolver "xpath". Use one of sourceAttribute, componentStack, testId, aria, text, css'
+  );
+});
+
+test('loads custom resolver modules by path', async () => {
+  const custom = jest.fn();
+  const importModule = jest.fn(async () => ({ default: custom }));
+  const config = validateConfig({ resolvers: ['./resolvers/custom.ts', 'css'] }, 'config');
+
+  const chain = await getResolverChain(config, cwd, importModule);
+
+  expect(chain[0]).toBe(custom);
+  expect(importModule).toHaveBeenCalledWith(join(cwd, 'resolvers/custom.ts'));
+  await expect(
+    getResolverChain(validateConfig({ resolvers: ['./missing.ts'] }, 'config'), cwd, async () => ({}))
+  ).rejects.toThrow('[ui-agent] Resolver module ./missing.ts must export a resolver function as default');
+});
+
+test('loads the defaults without a config file', async () => {
+  expect(await loadConfig(cwd)).toBe(DEFAULT_CONFIG);
+});
+
+test('loads and validates a JSON config file', async () => {
+  await writeFile(join(cwd, 'ui-agent.config.json'), JSON.stringify({ port: 4100 }));
+  expect(await loadConfig(cwd)).toEqual({ ...DEFAULT_CONFIG, port: 4100 });
+
+  await writeFile(join(cwd, 'ui-agent.config.json'), JSON.stringify({ port: '4100' }));
+  await expect(loadConfig(cwd)).rejects.toThrow(/Invalid config in ui-agent.config.json/);
+});
+
+test('imports a TypeScript config file before a JSON one', async () => {
+  await writeFile(join(cwd, 'ui-agent.config.ts'), '');
+  await writeFile(join(cwd, 'ui-agent.config.json'), '{}');
+  const importModule = jest.fn(async () => ({ default: { testIdAttributes: ['data-qa'] } }));
+
+  expect((await loadConfig(cwd, importModule)).testIdAttributes).toEqual(['data-qa']);
+  expect(importModule).toHaveBeenCalledWith(join(cwd, 'ui-agent.config.ts'));
+});
+
+test('leaves files matching the ignore globs out of the index', async () => {
+  await mkdir(join(cwd, 'src/generated'), { recursive: true });
+  await writeFile(join(cwd, 'src/App.tsx'), 'export {};\n');
+  await writeFile(join(cwd, 'src/App.stories.tsx'), 'export {};\n');
+  await writeFile(join(cwd, 'src/App.test.tsx'), 'export {};\n');
+  await writeFile(join(cwd, 'src/generated/api.ts'), 'export {};\n');
+  const options = validateConfig({ ignore: ['**/*.stories.tsx', 'src/generated/**'] }, 'config');
+
+  expect(await getSourceFiles(cwd, options)).toEqual(['src/App.tsx']);
+  expect(await isSourceFile('src/App.tsx', cwd, options)).toBe(true);
+  expect(await isSourceFile('src/App.stories.tsx', cwd, options)).toBe(false);
+  expect(await isSourceFile('src/generated/api.ts', cwd, options)).toBe(false);
+  expect((await getSourceFiles(cwd, DEFAULT_CONFIG)).sort()).toEqual([
+    'src/App.stories.tsx',
+    'src/App.tsx',
+    'src/generated/api.ts',
+  ]);
+});
@@ -0,0 +1,298 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+/**
+ * Config files looked up in the project root, in this order.
+ */
+export const CONFIG_FILE_NAMES = [
+  'ui-agent.config.ts',
+  'ui-agent.config.mts',
+  'ui-agent.config.js',
+  'ui-agent.config.mjs',
+  'ui-agent.config.json',
+];
+
+/**
+ * Imports a module (config file, custom resolver) by absolute path.
+ */
+export type ModuleImporter = (filePath: string) => Promise<Record<string, unknown>>;
+
+/**
+ * Node's import(). TypeScript modules need the server to run under tsx.
+ */
+export const nodeImport: ModuleImporter = (filePath) => import(/* @vite-ignore */ pathToFileURL(filePath).href);
+
+/**
+ * Built-in agent providers (see server/agents).
+ * - cursor: the cursor-agent CLI
+ * - command: any CLI, run from the resolveCommand/applyCommand templates
+ * - stub: answers locally without an agent, for offline testing
+ */
+export const AGENT_PROVIDERS = ['cursor', 'command', 'stub'] as const;
+
+export type AgentProviderName = (typeof AGENT_PROVIDERS)[number];
+
+/**
+ * Settings for the coding agent used as resolver fallback and for submissions.
+ */
+export interface AgentConfig {
+  /** Provider used unless a request asks for another one */
+  provider: AgentProviderName;
+  /** Executable to run (cursor provider) */
+  command: string;
+  /** Value passed as --model (cursor provider) */
+  model: string;
+  /**
+   * Command and arguments for locating an element (command provider). Each argument may
+   * contain {prompt} and {cwd} placeholders; nothing is run through a shell.
+   */
+  resolveCommand?: string[];
+  /** Command and arguments for applying a change (command provider), same placeholders */
+  applyCommand?: string[];
+  /** Time limit for locating an element */
+  resolveTimeoutMs: number;
+  /** Time limit for applying a change */
+  submitTimeoutMs: number;
+  /** How many submissions may run at once; the rest wait in the job queue */
+  maxConcurrentJobs: number;
+  /**
+   * Run submissions in a throwaway git worktree and only propose the changes, unless a
+   * request says otherwise
+   */
+  sandbox: boolean;
+}
+
+/**
+ * Checks run on the files an agent changed, after a successful submission.
+ * Each uses the project's own installation (node_modules/.bin) and config.
+ */
+export interface VerifyConfig {
+  /** tsc --noEmit */
+  typecheck: boolean;
+  /** eslint on the changed files */
+  lint: boolean;
+  /** jest --findRelatedTests on the changed files */
+  tests: boolean;
+  /** Time limit per check */
+  timeoutMs: number;
+}
+
+/**
+ * Validated ui-agent configuration, with defaults filled in.
+ */
+export interface UiAgentConfig {
+  /** Directories to index, relative to the project root. Empty means the whole project. */
+  sourceRoots: string[];
+  /** Glob patterns of files not to index, on top of node_modules, build output and tests */
+  ignore: string[];
+  /** JSX attribute/prop names that carry a test ID (e.g. 'data-qa') */
+  testIdAttributes: string[];
+  /**
+   * Resolver chain in priority order: built-in resolver names ('sourceAttribute',
+   * 'componentStack', 'testId', 'aria', 'text', 'css') or paths (relative to the project root)
+   * to modules whose default export is a ResolverFn.
+   */
+  resolvers: string[];
+  /** Port the backend listens on (the PORT environment variable wins) */
+  port: number;
+  /**
+   * Origins (scheme://host:port) of the pages allowed to call the backend, i.e. where the
+   * app with the overlay is served. A port of `*` allows any port on that host.
+   */
+  allowedOrigins: string[];
+  agent: AgentConfig;
+  verify: VerifyConfig;
+}
+
+/**
+ * What a config file may contain: any subset of the config.
+ */
+export type UiAgentUserConfig = Partial<Omit<UiAgentConfig, 'agent' | 'verify'>> & {
+  agent?: Partial<AgentConfig>;
+  verify?: Partial<VerifyConfig>;
+};
+
+export const DEFAULT_CONFIG: UiAgentConfig = {
+  sourceRoots: [],
+  ignore: [],
+  testIdAttributes: ['data-testid', 'testId'],
+  resolvers: ['sourceAttribute', 'componentStack', 'testId', 'aria', 'text', 'css'],
+  port: 4000,
+  allowedOrigins: ['http://localhost:*', 'http://127.0.0.1:*', 'http://[::1]:*'],
+  agent: {
+    provider: 'cursor',
+    command: 'cursor-agent',
+    model: 'auto',
+    resolveTimeoutMs: 60000,
+    submitTimeoutMs: 120000,
+    // Two agents editing the same tree at once would overwrite each other's changes
+    maxConcurrentJobs: 1,
+    sandbox: false,
+  },
+  verify: {
+    typecheck: true,
+    lint: true,
+    tests: true,
+    timeoutMs: 120000,
+  },
+};
+
+/**
+ * Type helper for `ui-agent.config.ts`.
+ */
+export function defineConfig(config: UiAgentUserConfig): UiAgentUserConfig {
+  return config;
+}
+
+const AGENT_OPTIONS = [...Object.keys(DEFAULT_CONFIG.agent), 'resolveCommand', 'applyCommand'];
+
+/**
+ * scheme://host[:port], where port may be `*`. No path, no trailing slash.
+ */
+const ORIGIN_PATTERN = /^https?:\/\/(\[[0-9a-f:.]+\]|[a-z0-9.-]+)(:(\d+|\*))?$/i;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim() !== '');
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Check a config object and merge it over the defaults.
+ * Throws an error listing every problem found.
+ *
+ * @param raw - Parsed config file contents
+ * @param source - Where the config came from, for error messages
+ */
+export function validateConfig(raw: unknown, source: string): UiAgentConfig {
+  if (!isRecord(raw)) {
+    throw new Error(`[ui-agent] Invalid config in ${source}: expected an object`);
+  }
+
+  const errors: string[] = [];
+  const known = new Set(Object.keys(DEFAULT_CONFIG));
+  for (const key of Object.keys(raw)) {
+    if (!known.has(key)) errors.push(`unknown option "${key}"`);
+  }
+
+  for (const key of ['sourceRoots', 'ignore', 'testIdAttributes', 'resolvers', 'allowedOrigins'] as const) {
+    if (raw[key] !== undefined && !isStringArray(raw[key])) {
+      errors.push(`"${key}" must be an array of non-empty strings`);
+    }
+  }
+  if (isStringArray(raw.sourceRoots) && raw.sourceRoots.some((root) => root.startsWith('..'))) {
+    errors.push('"sourceRoots" must be inside the project root');
+  }
+  if (isStringArray(raw.testIdAttributes) && raw.testIdAttributes.length === 0) {
+    errors.push('"testIdAttributes" must not be empty');
+  }
+  if (isStringArray(raw.resolvers) && raw.resolvers.length === 0) {
+    errors.push('"resolvers" must not be empty');
+  }
+  if (isStringArray(raw.allowedOrigins)) {
+    for (const origin of raw.allowedOrigins.filter((origin) => !ORIGIN_PATTERN.test(origin))) {
+      errors.push(`"allowedOrigins" entry "${origin}" must look like http://host:port (port may be *)`);
+    }
+  }
+  if (raw.port !== undefined && !isPositiveInteger(raw.port)) {
+    errors.push('"port" must be a positive integer');
+  }
+
+  const agent = raw.agent ?? {};
+  if (!isRecord(agent)) {
+    errors.push('"agent" must be an object');
+  } else {
+    for (const key of Object.keys(agent)) {
+      if (!AGENT_OPTIONS.includes(key)) errors.push(`unknown option "agent.${key}"`);
+    }
+    for (const key of ['command', 'model'] as const) {
+      if (agent[key] !== undefined && (typeof agent[key] !== 'string' || !agent[key])) {
+        errors.push(`"agent.${key}" must be a non-empty string`);
+      }
+    }
+    if (agent.provider !== undefined && !AGENT_PROVIDERS.includes(agent.provider as AgentProviderName)) {
+      errors.push(`"agent.provider" must be one of ${AGENT_PROVIDERS.join(', ')}`);
+    }
+    for (const key of ['resolveCommand', 'applyCommand'] as const) {
+      const template = agent[key];
+      if (template !== undefined && (!isStringArray(template) || template.length === 0)) {
+        errors.push(`"agent.${key}" must be a non-empty array of non-empty strings`);
+      }
+    }
+    if (agent.provider === 'command' && agent.resolveCommand === undefined && agent.applyCommand === undefined) {
+      errors.push('"agent.provider" is "command" but neither "agent.resolveCommand" nor "agent.applyCommand" is set');
+    }
+    for (const key of ['resolveTimeoutMs', 'submitTimeoutMs', 'maxConcurrentJobs'] as const) {
+      if (agent[key] !== undefined && !isPositiveInteger(agent[key])) {
+        errors.push(`"agent.${key}" must be a positive integer`);
+      }
+    }
+    if (agent.sandbox !== undefined && typeof agent.sandbox !== 'boolean') {
+      errors.push('"agent.sandbox" must be true or false');
+    }
+  }
+
+  const verify = raw.verify ?? {};
+  if (!isRecord(verify)) {
+    errors.push('"verify" must be an object');
+  } else {
+    for (const key of Object.keys(verify)) {
+      if (!(key in DEFAULT_CONFIG.verify)) errors.push(`unknown option "verify.${key}"`);
+    }
+    for (const key of ['typecheck', 'lint', 'tests'] as const) {
+      if (verify[key] !== undefined && typeof verify[key] !== 'boolean') {
+        errors.push(`"verify.${key}" must be true or false`);
+      }
+    }
+    if (verify.timeoutMs !== undefined && !isPositiveInteger(verify.timeoutMs)) {
+      errors.push('"verify.timeoutMs" must be a positive integer');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`[ui-agent] Invalid config in ${source}:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+
+  const config = raw as UiAgentUserConfig;
+  return {
+    ...DEFAULT_CONFIG,
+    ...config,
+    sourceRoots: (config.sourceRoots ?? DEFAULT_CONFIG.sourceRoots).map((root) => root.replace(/^\.\/|\/+$/g, '')),
+    agent: { ...DEFAULT_CONFIG.agent, ...config.agent },
+    verify: { ...DEFAULT_CONFIG.verify, ...config.verify },
+  };
+}
+
+/**
+ * Load the config file from the project root, or the defaults if there is none.
+ *
+ * @param cwd - Project root
+ * @param importModule - How to import JS/TS config files
+ */
+export async function loadConfig(cwd: string, importModule: ModuleImporter = nodeImport): Promise<UiAgentConfig> {
+  const fileName = CONFIG_FILE_NAMES.find((name) => existsSync(join(cwd, name)));
+  if (!fileName) {
+    return DEFAULT_CONFIG;
+  }
+
+  const filePath = join(cwd, fileName);
+  let raw: unknown;
+  if (fileName.endsWith('.json')) {
+    raw = JSON.parse(await readFile(filePath, 'utf-8'));
+  } else {
+    const module = await importModule(filePath);
+    raw = module.default ?? module.config;
+  }
+
+  const config = validateConfig(raw, fileName);
+  console.log(`[ui-agent] Loaded config from ${fileName}`);
+  return config;
+}
@@ -0,0 +1,62 @@
+import type express from 'express';
+import type { UiAgentError, UiAgentErrorCode, UiAgentErrorDetail } from '../src/shared/types';
+
+const STATUS_BY_CODE: Record<UiAgentErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  resolution_failed: 500,
+  internal: 500,
+};
+
+/**
+ * Send `{ error: UiAgentError }` with the code's HTTP status.
+ *
+ * @param extra - Endpoint-specific fields sent next to the error (e.g. the job)
+ */
+export function sendError(
+  res: express.Response,
+  code: UiAgentErrorCode,
+  message: string,
+  { details, ...extra }: { details?: UiAgentErrorDetail[] } & Record<string, unknown> = {}
+): void {
+  const error: UiAgentError = details && details.length > 0 ? { code, message, details } : { code, message };
+  res.status(STATUS_BY_CODE[code]).json({ ...extra, error });
+}
+
+/**
+ * Reject a request body that failed validation. The message names the first problem.
+ */
+export function sendInvalidRequest(res: express.Response, details: UiAgentErrorDetail[]): void {
+  const [first] = details;
+  const more = details.length > 1 ? ` (and ${details.length - 1} more)` : '';
+  const where = first.path ? `${first.path} ` : 'Request body ';
+  sendError(res, 'invalid_request', `${where}${first.message}${more}`, { details });
+}
+
+export const notFoundHandler: express.RequestHandler = (req, res) => {
+  sendError(res, 'not_found', `No endpoint ${req.method} ${req.path}`);
+};
+
+/**
+ * Last middleware: bodies that can't be parsed are the client's fault, anything else
+ * that was thrown is reported as internal.
+ */
+export const errorHandler: express.ErrorRequestHandler = (error, _req, res, next) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  // body-parser errors carry a 4xx status (malformed JSON, body too large, ...)
+  const status = (error as { status?: number }).status;
+  if (status !== undefined && status >= 400 && status < 500) {
+    sendError(res, 'invalid_request', error instanceof Error ? error.message : 'Invalid request');
+    return;
+  }
+
+  console.error('[ui-agent] Request failed:', error);
+  sendError(res, 'internal', error instanceof Error ? error.message : 'Internal error');
+};
@@ -1,94 +1,12 @@
-import express from 'express';
-import { randomUUID } from 'node:crypto';
-import cors from 'cors';
-import type { SelectionPayload, ComponentContext, SubmissionRequest, SubmissionResponse } from '../src/shared/types';
-import { resolveSelection } from './resolvers';
-import { submitToAgent as executeCursorAgent } from './resolvers/agentSubmitter';
+import { createUiAgentApp } from './app';
 
-const app = express();
+/**
+ * Standalone backend, for apps that aren't served by Vite (Vite apps use server/vitePlugin.ts).
+ * The overlay fetches the session token from GET /session.
+ */
+const { app, config } = await createUiAgentApp(process.cwd());
 
-app.use(express.json());
-app.use(cors());
-
-app.get('/health', (_req, res) => {
-  res.json({ ok: true });
-});
-
-app.post('/resolve-selection', async (req, res) => {
-  const payload: Partial<SelectionPayload> = req.body ?? {};
-  const useAgentFallback = req.body.useAgentFallback ?? false;
-
-  // Build base response
-  const componentContext: ComponentContext = {
-    id: randomUUID(),
-    source: 'heuristic',
-    confidence: 'low',
-    filePath: '',
-    selectorSummary: payload.selector ?? '',
-    domSummary: (payload.textSnippet ?? '').slice(0, 100),
-    needsVerification: true,
-    verified: false,
-  };
-
-  // Run resolver chain
-  try {
-    const result = await resolveSelection(payload as SelectionPayload, {
-      cwd: process.cwd(),
-      useAgentFallback,
-    });
-
-    componentContext.source = result.source || 'heuristic';
-    componentContext.confidence = result.confidence;
-    componentContext.verified = result.verified;
-    componentContext.filePath = result.filePath;
-    componentContext.lineNumber = result.lineNumber;
-    componentContext.needsVerification = !result.verified;
-    componentContext.codeSnippet = result.codeSnippet;
-  } catch (error) {
-    console.error('[ui-agent] Resolution failed:', error);
-  }
-
-  res.json({ componentContext });
-});
-
-app.post('/submit-to-agent', async (req, res) => {
-  const request: SubmissionRequest = req.body;
-  
-  // Validate request
-  if (!request.componentContext || !request.userMessage) {
-    res.status(400).json({
-      success: false,
-      message: 'Missing componentContext or userMessage',
-    });
-    return;
-  }
-
-  // Only allow verified contexts
-  if (!request.componentContext.verified) {
-    res.status(400).json({
-      success: false,
-      message: 'Component context must be verified before submission',
-    });
-    return;
-  }
-
-  try {
-    const result = await executeCursorAgent(
-      request.componentContext,
-      request.userMessage,
-      process.cwd()
-    );
-    res.json(result);
-  } catch (error) {
-    console.error('[ui-agent] Agent submission error:', error);
-    res.status(500).json({
-      success: false,
-      message: error instanceof Error ? error.message : 'Internal server error',
-    });
-  }
-});
-
-const port = process.env.PORT ?? 4000;
+const port = process.env.PORT ?? config.port;
 app.listen(port, () => {
   console.log(`[ui-agent] backend listening on ${port}`);
 });
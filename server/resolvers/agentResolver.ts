@@ -0,0 +1,108 @@
+import { existsSync } from 'node:fs';
+import type { CodeSnippet } from '../../src/shared/types';
+import type { ResolverFn } from './types';
+import type { SourceIndex } from './sourceIndex';
+import { getAgentProvider } from '../agents';
+import { extractCodeSnippet } from './codeSnippet';
+import { scored } from './scoring';
+import { resolveProjectPath } from '../security';
+
+/**
+ * Validate that the file path exists and is within the project.
+ * Indexed source files are checked in memory; anything else falls back to the disk.
+ */
+function validateFilePath(filePath: string, index: SourceIndex): boolean {
+  if (!filePath || typeof filePath !== 'string' || filePath.trim() === '') {
+    return false;
+  }
+
+  if (index.getFile(filePath)) {
+    return true;
+  }
+
+  const fullPath = resolveProjectPath(index.cwd, filePath);
+  return fullPath !== null && existsSync(fullPath);
+}
+
+/**
+ * Agent resolver - fallback when heuristics fail.
+ * Asks the request's agent provider (or the configured one) where the element is rendered.
+ * Only runs when previous resolvers return low confidence or no result.
+ * What the agent answered, and why an answer was rejected, goes into the trace.
+ */
+export const agentResolver: ResolverFn = async (payload, options) => {
+  // Only run if we have some context to work with
+  if (!payload.selector && !payload.textSnippet) {
+    options.trace?.step('skipped', 'no selector or text snippet to describe the element with');
+    return null;
+  }
+
+  try {
+    const provider = getAgentProvider(options.config, options.agentProvider);
+    const response = await provider.resolveLocation({ payload, cwd: options.cwd, index: options.index });
+
+    if (!response) {
+      options.trace?.step('ask', `${provider.name} agent, for ${payload.selector}: no response`);
+      return null;
+    }
+
+    if (!response.filePath || response.filePath.trim() === '') {
+      options.trace?.step('ask', `${provider.name} agent, for ${payload.selector}: answered without a file path`);
+      return null;
+    }
+    options.trace?.step('ask', `${provider.name} agent, for ${payload.selector}`, [response]);
+
+    // Validate file exists
+    if (!validateFilePath(response.filePath, options.index)) {
+      options.trace?.step('validate', `${response.filePath} is not a file inside the project`);
+      return null;
+    }
+
+    // Extract code snippet if we have a line number
+    let codeSnippet: CodeSnippet | undefined;
+    if (response.lineNumber) {
+      try {
+        codeSnippet = await extractCodeSnippet(
+          response.filePath,
+          response.lineNumber,
+          options.index
+        );
+      } catch (snippetError) {
+        console.warn('[ui-agent] Failed to extract code snippet:', {
+          filePath: response.filePath,
+          lineNumber: response.lineNumber,
+          error: snippetError instanceof Error ? snippetError.message : String(snippetError),
+        });
+        // Continue without code snippet
+      }
+    }
+
+    // Return result with agent source
+    // Confidence is medium if we have componentName and lineNumber, low otherwise
+    const score = scored([
+      { label: `${provider.name} agent located the element`, weight: 0.3 },
+      response.componentName && response.lineNumber
+        ? { label: 'agent named the component and line', weight: 0.25 }
+        : { label: 'agent gave no component or line', weight: 0 },
+    ]);
+
+    return {
+      ...score,
+      verified: false, // Always needs verification from AI
+      filePath: response.filePath,
+      componentName: response.componentName,
+      lineNumber: response.lineNumber,
+      codeSnippet,
+      source: 'agent',
+    };
+  } catch (error) {
+    options.trace?.step('error', error instanceof Error ? error.message : String(error));
+    console.error('[ui-agent] Agent resolver error:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      selector: payload.selector,
+      textSnippet: payload.textSnippet?.slice(0, 50),
+    });
+    return null;
+  }
+};
@@ -0,0 +1,121 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ElementInfo, SelectionPayload } from '../../src/shared/types';
+import { DEFAULT_CONFIG } from '../config';
+import { resolveSelection } from '.';
+import { payloadForAncestor, scoreAtDepth } from './ancestors';
+import { scored } from './scoring';
+import { createSourceIndex, type SourceIndex } from './sourceIndex';
+
+const TOOLBAR = `export const Toolbar = () => (
+  <div className="toolbar">
+    <button className="save-button">
+      <i />
+      Save
+    </button>
+    <button className="close-button">
+      <i />
+    </button>
+  </div>
+);
+
+export const Panel = ({ children }: { children: React.ReactNode }) => (
+  <section className="panel">{children}</section>
+);
+`;
+
+let cwd: string;
+let index: SourceIndex;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-ancestors-'));
+  await mkdir(join(cwd, 'src'));
+  await writeFile(join(cwd, 'src/Toolbar.tsx'), TOOLBAR);
+  index = await createSourceIndex(cwd, DEFAULT_CONFIG);
+});
+
+afterAll(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+const element = (tagName: string, attributes: Record<string, string> = {}, textSummary = ''): ElementInfo => ({
+  tagName,
+  attributes,
+  selector: tagName,
+  textSummary,
+});
+
+function resolve(ancestors: ElementInfo[]) {
+  const [clicked] = ancestors;
+  const payload: SelectionPayload = {
+    pageUrl: '/',
+    selector: clicked.selector,
+    testId: null,
+    domOuterHtml: `<${clicked.tagName}></${clicked.tagName}>`,
+    textSnippet: clicked.textSummary,
+    classes: [],
+    ancestors,
+  };
+  return resolveSelection(payload, { cwd, index, config: DEFAULT_CONFIG });
+}
+
+test('describes an ancestor the way the overlay describes a clicked element', () => {
+  const payload: SelectionPayload = {
+    pageUrl: '/cart',
+    selector: 'i',
+    testId: null,
+    domOuterHtml: '<i></i>',
+    textSnippet: '',
+    classes: [],
+    ancestors: [
+      element('i'),
+      element(
+        'button',
+        { class: 'save-button primary', title: 'Save "draft"', 'data-ui-agent-src': 'src/Toolbar.tsx:3:5' },
+        'Save'
+      ),
+    ],
+  };
+
+  expect(payloadForAncestor(payload, 1)).toEqual({
+    pageUrl: '/cart',
+    selector: 'button',
+    testId: null,
+    domOuterHtml: '<button class="save-button primary" title="Save &quot;draft&quot;">',
+    textSnippet: 'Save',
+    classes: ['save-button', 'primary'],
+    ancestors: payload.ancestors?.slice(1),
+    sourceLocation: { filePath: 'src/Toolbar.tsx', lineNumber: 3, columnNumber: 5 },
+  });
+  expect(payloadForAncestor(payload, 2)).toBeNull();
+});
+
+test('lowers confidence one level for matches more than two ancestors up', () => {
+  const result = { ...scored([{ label: 'matched', weight: 0.9 }]), verified: false, filePath: 'src/Toolbar.tsx' };
+
+  expect(scoreAtDepth(result, 2)).toMatchObject({ confidence: 'high', score: 0.9 });
+  expect(scoreAtDepth(result, 3)).toMatchObject({ confidence: 'medium', score: 0.6 });
+});
+
+test('finds the clicked element inside the JSX of an ancestor it resolved', async () => {
+  const result = await resolve([
+    element('i'),
+    element('button', { class: 'save-button' }, 'Save'),
+    element('div', { class: 'toolbar' }, 'Save'),
+  ]);
+
+  expect(result).toMatchObject({ filePath: 'src/Toolbar.tsx', lineNumber: 4, verified: false });
+  expect(result.confidence).not.toBe('low');
+  expect(result.signals?.map((signal) => signal.label)).toContain('ancestor depth 1');
+});
+
+test('keeps a low confidence when the clicked element is not in the ancestor JSX', async () => {
+  const result = await resolve([element('p'), element('section', { class: 'panel' })]);
+
+  expect(result).toMatchObject({ filePath: 'src/Toolbar.tsx', lineNumber: 14, confidence: 'low', verified: false });
+  expect(result.signals?.map((signal) => signal.label)).toContain("clicked element isn't in the ancestor's JSX");
+});
@@ -0,0 +1,161 @@
+import type { ElementInfo, SelectionPayload } from '../../src/shared/types';
+import type { ResolutionResult } from './types';
+import type { JsxElementFact, ParsedSourceFile } from './sourceParser';
+import type { SourceIndex } from './sourceIndex';
+import { evaluateStringPatterns, textPatternMatches } from './staticValues';
+import { withSignals } from './scoring';
+import { SOURCE_ATTRIBUTE, parseSourceAttribute } from '../../src/shared/sourceAttribute';
+
+/**
+ * Matches on an ancestor up to this many levels above the clicked element keep their
+ * confidence (the same rule testIdResolver applies to test ID depth); further up,
+ * confidence drops one level.
+ */
+export const ANCESTOR_CLOSE_DEPTH = 2;
+
+/**
+ * Weight of matching on a distant ancestor: exactly one confidence level (see scoring).
+ */
+const DISTANT_ANCESTOR_WEIGHT = -0.3;
+
+/**
+ * Text summaries are cut at this length by the overlay.
+ */
+const TEXT_SUMMARY_MAX_LENGTH = 100;
+
+/**
+ * Add the signal for a match found on an ancestor `depth` levels up, which lowers the
+ * confidence by one level beyond ANCESTOR_CLOSE_DEPTH.
+ */
+export function scoreAtDepth(result: ResolutionResult, depth: number): ResolutionResult {
+  return withSignals(result, {
+    label: `ancestor depth ${depth}`,
+    weight: depth <= ANCESTOR_CLOSE_DEPTH ? 0 : DISTANT_ANCESTOR_WEIGHT,
+  });
+}
+
+/**
+ * Build the payload resolvers would have received had the user clicked an ancestor.
+ * Returns null if the payload has no ancestor at that depth.
+ */
+export function payloadForAncestor(payload: SelectionPayload, depth: number): SelectionPayload | null {
+  const ancestor = payload.ancestors?.[depth];
+  if (!ancestor) return null;
+
+  const attributes = Object.entries(ancestor.attributes)
+    .filter(([name]) => name !== SOURCE_ATTRIBUTE)
+    .map(([name, value]) => ` ${name}="${value.replace(/"/g, '&quot;')}"`)
+    .join('');
+
+  return {
+    pageUrl: payload.pageUrl,
+    selector: ancestor.selector,
+    // Test IDs on ancestors are already covered by payload.testId, which carries its depth
+    testId: null,
+    domOuterHtml: `<${ancestor.tagName}${attributes}>`,
+    textSnippet: ancestor.textSummary,
+    classes: (ancestor.attributes.class ?? '').split(/\s+/).filter(Boolean),
+    ancestors: payload.ancestors?.slice(depth),
+    sourceLocation: parseSourceAttribute(ancestor.attributes[SOURCE_ATTRIBUTE]),
+  };
+}
+
+/**
+ * Find the JSX element a resolver result points at: its opening tag, or one of its
+ * attributes or spreads.
+ */
+export function elementAt(
+  file: ParsedSourceFile,
+  lineNumber: number,
+  columnNumber?: number
+): JsxElementFact | undefined {
+  const isAt = (position: { lineNumber: number; columnNumber: number }) =>
+    position.lineNumber === lineNumber && (columnNumber === undefined || position.columnNumber === columnNumber);
+
+  return file.jsxElements.find(
+    (element) => isAt(element) || element.attributes.some(isAt) || element.spreads.some(isAt)
+  );
+}
+
+/**
+ * Number of JSX levels between an element and one of its ancestors, or null if
+ * the element is not nested inside it.
+ */
+export function levelsBelow(element: JsxElementFact, ancestor: JsxElementFact): number | null {
+  let levels = 1;
+  for (let current = element.parent; current; current = current.parent) {
+    if (current === ancestor) return levels;
+    levels++;
+  }
+  return null;
+}
+
+/**
+ * Score how well a JSX element matches the clicked element's DOM facts:
+ * classes, static attributes and text.
+ */
+export function scoreElement(
+  index: SourceIndex,
+  file: ParsedSourceFile,
+  element: JsxElementFact,
+  clicked: ElementInfo
+): number {
+  let score = 0;
+
+  const classNames = index.lookups().elementClassNames.get(element) ?? [];
+  const clickedClasses = (clicked.attributes.class ?? '').split(/\s+/).filter(Boolean);
+  score += 2 * clickedClasses.filter((className) => classNames.includes(className)).length;
+
+  for (const attribute of element.attributes) {
+    if (attribute.value.kind === 'string' && clicked.attributes[attribute.name] === attribute.value.value) {
+      score += 2;
+    }
+  }
+
+  if (clicked.textSummary) {
+    const isPrefix = clicked.textSummary.length >= TEXT_SUMMARY_MAX_LENGTH;
+    const matchesText = evaluateStringPatterns(index.project, element.textContent, file).some(
+      (pattern) =>
+        pattern.segments.some((segment) => segment.trim()) &&
+        textPatternMatches(pattern, clicked.textSummary, isPrefix)
+    );
+    if (matchesText) score += 3;
+  }
+
+  return score;
+}
+
+/**
+ * Find the clicked element inside the JSX of an ancestor that was matched in source.
+ * Candidates must have the clicked tag and be nested in the ancestor; they are scored
+ * by nesting depth, classes, static attributes and text. Returns null unless one
+ * candidate is the clear best.
+ *
+ * @param ancestor - JSX element matched for the ancestor
+ * @param clicked - DOM facts of the clicked element
+ * @param distance - How many DOM levels the ancestor is above the clicked element
+ */
+export function findClickedElement(
+  index: SourceIndex,
+  file: ParsedSourceFile,
+  ancestor: JsxElementFact,
+  clicked: ElementInfo,
+  distance: number
+): JsxElementFact | null {
+  const scored: { element: JsxElementFact; score: number }[] = [];
+
+  for (const element of file.jsxElements) {
+    if (element.tagName !== clicked.tagName) continue;
+    const levels = levelsBelow(element, ancestor);
+    if (levels === null) continue;
+    const score = scoreElement(index, file, element, clicked) + (levels === distance ? 1 : 0);
+    scored.push({ element, score });
+  }
+
+  scored.sort((a, b) => b.score - a.score);
+  const [best, second] = scored;
+  if (!best || (second && second.score === best.score)) {
+    return null;
+  }
+  return best.element;
+}
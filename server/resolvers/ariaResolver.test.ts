@@ -0,0 +1,106 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { SelectionPayload } from '../../src/shared/types';
+import { DEFAULT_CONFIG } from '../config';
+import { ariaResolver, attributesFromHtml } from './ariaResolver';
+import { createSourceIndex, type SourceIndex } from './sourceIndex';
+import type { ResolverOptions } from './types';
+
+const DIALOG = `import { CLOSE_LABEL } from './labels';
+
+export const Dialog = ({ item }: { item: string }) => (
+  <div role="dialog">
+    <button aria-label={CLOSE_LABEL}>x</button>
+    <button aria-label={\`Delete \${item}\`}>Delete</button>
+    <input name="email" placeholder="Email" />
+    <input placeholder="Email" />
+  </div>
+);
+
+export const Menu = () => <nav role="navigation" />;
+export const Popup = () => <div role="dialog" />;
+`;
+
+let cwd: string;
+let index: SourceIndex;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-aria-'));
+  await mkdir(join(cwd, 'src'));
+  await writeFile(join(cwd, 'src/labels.ts'), `export const CLOSE_LABEL = 'Close dialog';\n`);
+  await writeFile(join(cwd, 'src/Dialog.tsx'), DIALOG);
+  index = await createSourceIndex(cwd, DEFAULT_CONFIG);
+});
+
+afterAll(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+function resolve(domOuterHtml: string) {
+  const payload: SelectionPayload = {
+    pageUrl: '/',
+    selector: '',
+    testId: null,
+    domOuterHtml,
+    textSnippet: '',
+    classes: [],
+  };
+  const options: ResolverOptions = { cwd, index, config: DEFAULT_CONFIG };
+  return ariaResolver(payload, options);
+}
+
+const labels = (result: Awaited<ReturnType<typeof resolve>>) => result?.signals?.map((signal) => signal.label);
+
+test('matches an aria-label that comes from a constant', async () => {
+  const result = await resolve('<button aria-label="Close dialog">x</button>');
+
+  expect(result).toMatchObject({ filePath: 'src/Dialog.tsx', lineNumber: 5, confidence: 'medium', verified: false });
+  expect(labels(result)).toEqual(['aria-label match', 'best match among elements with these attributes']);
+});
+
+test('matches an aria-label built from a template', async () => {
+  const result = await resolve('<button aria-label="Delete Lamp">Delete</button>');
+
+  expect(result).toMatchObject({ lineNumber: 6, confidence: 'medium' });
+  expect(labels(result)).toContain('aria-label partial match');
+});
+
+test('prefers the element with the most matching attributes', async () => {
+  const result = await resolve('<input name="email" placeholder="Email">');
+
+  expect(result).toMatchObject({ lineNumber: 7, confidence: 'medium' });
+  expect(labels(result)).toContain('name, placeholder match');
+  expect(result?.candidates?.map((candidate) => candidate.lineNumber)).toEqual([7, 8]);
+  expect(result?.candidates?.[0].score).toBeGreaterThan(result?.candidates?.[1].score ?? 1);
+});
+
+test('trusts a role only when no other element has it', async () => {
+  const shared = await resolve('<div role="dialog"></div>');
+  expect(shared?.confidence).toBe('low');
+  expect(labels(shared)).toEqual(['role match', '2 elements with these attributes', 'role only, used elsewhere too']);
+
+  expect(await resolve('<nav role="navigation"></nav>')).toMatchObject({ lineNumber: 12, confidence: 'medium' });
+});
+
+test('does not settle on an element with another tag', async () => {
+  const result = await resolve('<a aria-label="Close dialog">x</a>');
+
+  expect(result?.confidence).toBe('low');
+  expect(labels(result)).toContain('different tag than the clicked element');
+});
+
+test('returns null without accessibility attributes or a matching prop', async () => {
+  expect(await resolve('<button class="close">x</button>')).toBeNull();
+  expect(await resolve('<button aria-label="Open dialog">x</button>')).toBeNull();
+});
+
+test('reads attributes from the opening tag only', () => {
+  const html = `<input ARIA-LABEL="Tom &amp; &quot;Jerry&quot;" name='email' role=search disabled><b title="x">`;
+
+  expect(attributesFromHtml(html)).toEqual({ 'aria-label': 'Tom & "Jerry"', name: 'email', role: 'search', disabled: '' });
+  expect(attributesFromHtml('plain text')).toEqual({});
+});
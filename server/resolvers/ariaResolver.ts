@@ -0,0 +1,199 @@
+import type { SelectionPayload } from '../../src/shared/types';
+import type { ResolutionResult, ResolverFn } from './types';
+import type { JsxElementFact } from './sourceParser';
+import { ACCESSIBLE_ATTRIBUTES, type IndexedAccessibleAttribute } from './sourceIndex';
+import { hasLiteralContent, isExactPattern, patternMatches } from './staticValues';
+import { tagNameFromHtml } from './cssResolver';
+import { buildCandidates } from './candidates';
+import { extractCodeSnippet } from './codeSnippet';
+import { scored } from './scoring';
+
+/**
+ * Roles come from a small fixed vocabulary ("button", "dialog"), so a role only tells
+ * elements apart when nothing else in the project uses it. The other attributes are
+ * free text written for this element and weigh more.
+ */
+const ATTRIBUTE_WEIGHTS: Record<string, number> = {
+  role: 1,
+};
+const DEFAULT_ATTRIBUTE_WEIGHT = 2;
+
+interface Candidate {
+  /** First matching attribute, used as the location */
+  entry: IndexedAccessibleAttribute;
+  /** Names of the clicked element's attributes found on this element */
+  matched: Set<string>;
+  /** True if every matched value is fully static */
+  exact: boolean;
+  /** True if the JSX tag is the clicked element's tag (not a component) */
+  sameTag: boolean;
+}
+
+function weightOf(candidate: Candidate): number {
+  let weight = 0;
+  for (const name of candidate.matched) {
+    weight += ATTRIBUTE_WEIGHTS[name] ?? DEFAULT_ATTRIBUTE_WEIGHT;
+  }
+  return weight;
+}
+
+function compareCandidates(a: Candidate, b: Candidate): number {
+  return (
+    weightOf(b) - weightOf(a) ||
+    Number(b.exact) - Number(a.exact) ||
+    Number(b.sameTag) - Number(a.sameTag)
+  );
+}
+
+function decodeHtmlEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Attributes of the opening tag in an outer HTML string.
+ */
+export function attributesFromHtml(html: string): Record<string, string> {
+  const openingTag = html.match(/^\s*<[a-zA-Z][\w-]*((?:[^>"']|"[^"]*"|'[^']*')*)>/);
+  const attributes: Record<string, string> = {};
+  if (!openingTag) return attributes;
+
+  const attributePattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  for (const match of openingTag[1].matchAll(attributePattern)) {
+    attributes[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * The clicked element's accessibility/form attributes with a non-empty value.
+ * Taken from the ancestor chain when it was sent, otherwise from the outer HTML.
+ */
+function accessibleAttributesOf(payload: SelectionPayload): Record<string, string> {
+  const all = payload.ancestors?.[0]?.attributes ?? attributesFromHtml(payload.domOuterHtml ?? '');
+  const attributes: Record<string, string> = {};
+  for (const name of ACCESSIBLE_ATTRIBUTES) {
+    const value = all[name]?.trim();
+    if (value) attributes[name] = value;
+  }
+  return attributes;
+}
+
+/**
+ * Share of the clicked attributes (by weight) the element has, halved when the
+ * JSX tag isn't the clicked one and when a value only matched through unknown parts.
+ */
+function scoreCandidate(candidate: Candidate, totalWeight: number): number {
+  return (weightOf(candidate) / totalWeight) * (candidate.sameTag ? 1 : 0.5) * (candidate.exact ? 1 : 0.5);
+}
+
+/**
+ * Score the ranked candidates.
+ * Like class names, these attributes aren't meant to be unique, so the best we report
+ * is medium: one element must beat every other and have the clicked tag. A match on
+ * role alone also has to be the only element with that role.
+ */
+function resolveFromCandidates(ranked: Candidate[]): ResolutionResult {
+  const [best, second] = ranked;
+  const isUnique = best.sameTag && (!second || compareCandidates(best, second) < 0);
+  const isDistinctive = weightOf(best) > ATTRIBUTE_WEIGHTS.role || ranked.length === 1;
+
+  return {
+    ...scored([
+      { label: `${[...best.matched].join(', ')} ${best.exact ? 'match' : 'partial match'}`, weight: 0.3 },
+      isUnique
+        ? { label: 'best match among elements with these attributes', weight: 0.3 }
+        : {
+            label: best.sameTag ? `${ranked.length} elements with these attributes` : 'different tag than the clicked element',
+            weight: 0,
+          },
+      ...(isDistinctive ? [] : [{ label: 'role only, used elsewhere too', weight: -0.2 }]),
+    ]),
+    verified: false,
+    filePath: best.entry.file.filePath,
+    lineNumber: best.entry.lineNumber,
+    columnNumber: best.entry.columnNumber,
+    source: 'heuristic',
+  };
+}
+
+/**
+ * ARIA resolver - resolves the clicked element's aria-label, role, name, placeholder
+ * and alt attributes to JSX props with those values, including values that come from
+ * constants. Returns null if the element has none of them or nothing matches.
+ */
+export const ariaResolver: ResolverFn = async (payload, options) => {
+  const clicked = accessibleAttributesOf(payload);
+  const names = Object.keys(clicked);
+  if (names.length === 0) {
+    return null; // Cannot handle - no accessibility attributes
+  }
+
+  const tagName = tagNameFromHtml(payload.domOuterHtml ?? '');
+  const candidates = new Map<JsxElementFact, Candidate>();
+
+  for (const entry of options.index.lookups().accessibleAttributes) {
+    const value = clicked[entry.attributeName];
+    if (value === undefined) continue;
+
+    const exact = entry.patterns.some((pattern) => isExactPattern(pattern) && pattern.segments[0].trim() === value);
+    const matches =
+      exact ||
+      entry.patterns.some(
+        (pattern) => !isExactPattern(pattern) && hasLiteralContent(pattern) && patternMatches(pattern, value)
+      );
+    if (!matches) continue;
+
+    const existing = candidates.get(entry.element);
+    if (existing) {
+      existing.matched.add(entry.attributeName);
+      existing.exact &&= exact;
+      continue;
+    }
+    candidates.set(entry.element, {
+      entry,
+      matched: new Set([entry.attributeName]),
+      exact,
+      sameTag: tagName === null || entry.element.tagName === tagName,
+    });
+  }
+
+  for (const name of names) {
+    options.trace?.step(
+      name,
+      `"${clicked[name]}"`,
+      [...candidates.values()]
+        .filter((candidate) => candidate.matched.has(name))
+        .map((candidate) => ({ ...candidate.entry, filePath: candidate.entry.file.filePath }))
+    );
+  }
+
+  if (candidates.size === 0) {
+    return null;
+  }
+
+  const ranked = [...candidates.values()].sort(compareCandidates);
+  const result = resolveFromCandidates(ranked);
+
+  if (result.filePath && result.lineNumber) {
+    result.codeSnippet = await extractCodeSnippet(result.filePath, result.lineNumber, options.index);
+  }
+
+  const totalWeight = names.reduce((sum, name) => sum + (ATTRIBUTE_WEIGHTS[name] ?? DEFAULT_ATTRIBUTE_WEIGHT), 0);
+  result.candidates = await buildCandidates(
+    'aria',
+    ranked.map((candidate) => ({
+      filePath: candidate.entry.file.filePath,
+      lineNumber: candidate.entry.lineNumber,
+      columnNumber: candidate.entry.columnNumber,
+      score: scoreCandidate(candidate, totalWeight),
+    })),
+    options.index
+  );
+
+  return result;
+};
@@ -0,0 +1,66 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_CONFIG } from '../config';
+import { buildCandidates, MAX_CANDIDATES } from './candidates';
+import { extractCodeSnippet } from './codeSnippet';
+import { createSourceIndex, type SourceIndex } from './sourceIndex';
+
+const LIST = Array.from({ length: 30 }, (_, i) => `export const Item${i} = () => <li>${i}</li>;`).join('\n');
+
+let cwd: string;
+let index: SourceIndex;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-candidates-'));
+  await mkdir(join(cwd, 'src'));
+  await writeFile(join(cwd, 'src/List.tsx'), `${LIST}\n`);
+  index = await createSourceIndex(cwd, DEFAULT_CONFIG);
+});
+
+afterAll(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+test('ranks candidates as given, without duplicates, with rounded scores and the resolver name', async () => {
+  const candidates = await buildCandidates(
+    'css',
+    [
+      { filePath: 'src/List.tsx', lineNumber: 3, columnNumber: 30, score: 0.876 },
+      { filePath: 'src/List.tsx', lineNumber: 3, columnNumber: 30, score: 0.5 },
+      { filePath: 'src/List.tsx', lineNumber: 12, score: 1 / 3 },
+      { filePath: 'src/Gone.tsx', score: 0.1 },
+    ],
+    index
+  );
+
+  expect(candidates).toEqual([
+    expect.objectContaining({ filePath: 'src/List.tsx', lineNumber: 3, columnNumber: 30, score: 0.88, resolver: 'css' }),
+    expect.objectContaining({ filePath: 'src/List.tsx', lineNumber: 12, score: 0.33, resolver: 'css' }),
+    expect.objectContaining({ filePath: 'src/Gone.tsx', score: 0.1, resolver: 'css' }),
+  ]);
+  expect(candidates[0].codeSnippet?.matchLine).toBe(3);
+  expect(candidates[2].codeSnippet).toBeUndefined();
+});
+
+test(`keeps the first ${MAX_CANDIDATES} candidates`, async () => {
+  const locations = Array.from({ length: 30 }, (_, i) => ({ filePath: 'src/List.tsx', lineNumber: i + 1, score: 1 }));
+  const candidates = await buildCandidates('text', locations, index);
+
+  expect(candidates.map((candidate) => candidate.lineNumber)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+});
+
+test('extracts ten lines around the match, clipped to the file', async () => {
+  const middle = await extractCodeSnippet('src/List.tsx', 15, index);
+  expect(middle).toMatchObject({ startLine: 5, endLine: 25, matchLine: 15 });
+  expect(middle?.lines.filter((line) => line.isMatch)).toEqual([
+    { lineNumber: 15, content: 'export const Item14 = () => <li>14</li>;', isMatch: true },
+  ]);
+
+  expect(await extractCodeSnippet('src/List.tsx', 2, index, 3)).toMatchObject({ startLine: 1, endLine: 5 });
+  expect(await extractCodeSnippet('src/List.tsx', 29, index)).toMatchObject({ startLine: 19, endLine: 31 });
+  expect(await extractCodeSnippet('src/Gone.tsx', 1, index)).toBeUndefined();
+});
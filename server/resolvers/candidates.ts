@@ -0,0 +1,52 @@
+import type { ResolutionCandidate } from '../../src/shared/types';
+import type { SourceIndex } from './sourceIndex';
+import { extractCodeSnippet } from './codeSnippet';
+
+/**
+ * Maximum number of candidates returned with a result.
+ */
+export const MAX_CANDIDATES = 10;
+
+/**
+ * A candidate location before its code snippet is attached.
+ */
+export interface CandidateLocation {
+  filePath: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  score: number;
+}
+
+/**
+ * Turn the locations a resolver ranked into candidates with code snippets.
+ * Duplicate locations are dropped and the list is capped at MAX_CANDIDATES.
+ *
+ * @param resolver - Name of the resolver that found the locations
+ * @param locations - Locations best first; the first must be the one the resolver picked
+ */
+export async function buildCandidates(
+  resolver: string,
+  locations: CandidateLocation[],
+  index: SourceIndex
+): Promise<ResolutionCandidate[]> {
+  const seen = new Set<string>();
+  const ranked = locations
+    .filter((location) => {
+      const key = `${location.filePath}:${location.lineNumber ?? ''}:${location.columnNumber ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_CANDIDATES);
+
+  return Promise.all(
+    ranked.map(async (location) => ({
+      ...location,
+      score: Math.round(location.score * 100) / 100,
+      codeSnippet: location.lineNumber
+        ? await extractCodeSnippet(location.filePath, location.lineNumber, index)
+        : undefined,
+      resolver,
+    }))
+  );
+}
@@ -0,0 +1,132 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ElementInfo } from '../../src/shared/types';
+import { DEFAULT_CONFIG } from '../config';
+import { findInChildComponents, resolveComponent, withChildLocation } from './childComponents';
+import { scored } from './scoring';
+import { createSourceIndex, type SourceIndex } from './sourceIndex';
+import type { ParsedSourceFile } from './sourceParser';
+
+const TOOLBAR = `import * as UI from './ui';
+import { PrimaryButton, Icon } from './ui';
+import Anonymous from './ui/Anonymous';
+
+const Group = () => (
+  <div className="group">
+    <UI.Button label="Save" />
+  </div>
+);
+
+export const Toolbar = () => (
+  <header className="toolbar">
+    <Group />
+    <PrimaryButton label="Go" />
+    <Icon />
+    <Anonymous />
+  </header>
+);
+`;
+
+let cwd: string;
+let index: SourceIndex;
+let toolbar: ParsedSourceFile;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-children-'));
+  await mkdir(join(cwd, 'src/ui'), { recursive: true });
+  await writeFile(
+    join(cwd, 'src/ui/Button.tsx'),
+    `export const Button = ({ label }: { label: string }) => <button className="btn">{label}</button>;\n`
+  );
+  await writeFile(
+    join(cwd, 'src/ui/Icon.tsx'),
+    `export default function Icon() {\n  return <svg className="icon" />;\n}\n`
+  );
+  await writeFile(join(cwd, 'src/ui/Anonymous.tsx'), `export default () => <span className="anonymous" />;\n`);
+  await writeFile(
+    join(cwd, 'src/ui/index.ts'),
+    [
+      `export * from './Button';`,
+      `export { default as Icon } from './Icon';`,
+      `export { Button as PrimaryButton } from './Button';`,
+      '',
+    ].join('\n')
+  );
+  await writeFile(join(cwd, 'src/Toolbar.tsx'), TOOLBAR);
+  index = await createSourceIndex(cwd, DEFAULT_CONFIG);
+  toolbar = index.getFile('src/Toolbar.tsx') as ParsedSourceFile;
+});
+
+afterAll(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+const element = (tagName: string, attributes: Record<string, string> = {}, textSummary = ''): ElementInfo => ({
+  tagName,
+  attributes,
+  selector: tagName,
+  textSummary,
+});
+
+function findInHeader(clicked: ElementInfo) {
+  const header = toolbar.jsxElements.find((jsx) => jsx.tagName === 'header');
+  return header ? findInChildComponents(index, toolbar, header, clicked) : null;
+}
+
+test('finds where a component is declared, through imports and re-exports', () => {
+  const definition = (tagName: string) => {
+    const found = resolveComponent(index.project, toolbar, tagName);
+    return found && { filePath: found.file.filePath, componentName: found.componentName };
+  };
+
+  expect(definition('Group')).toEqual({ filePath: 'src/Toolbar.tsx', componentName: 'Group' });
+  expect(definition('UI.Button')).toEqual({ filePath: 'src/ui/Button.tsx', componentName: 'Button' });
+  expect(definition('PrimaryButton')).toEqual({ filePath: 'src/ui/Button.tsx', componentName: 'Button' });
+  expect(definition('Icon')).toEqual({ filePath: 'src/ui/Icon.tsx', componentName: 'Icon' });
+  expect(definition('Anonymous')).toBeNull();
+  expect(definition('Missing')).toBeNull();
+});
+
+test('finds the clicked element in the components an ancestor renders', () => {
+  const button = findInHeader(element('button', { class: 'btn' }, 'Go'));
+  expect(button && { filePath: button.file.filePath, lineNumber: button.element.lineNumber }).toEqual({
+    filePath: 'src/ui/Button.tsx',
+    lineNumber: 1,
+  });
+
+  const icon = findInHeader(element('svg', { class: 'icon' }));
+  expect(icon && { filePath: icon.file.filePath, lineNumber: icon.element.lineNumber }).toEqual({
+    filePath: 'src/ui/Icon.tsx',
+    lineNumber: 2,
+  });
+});
+
+test('returns null when no rendered component has the clicked element', () => {
+  expect(findInHeader(element('span', { class: 'anonymous' }))).toBeNull();
+  expect(findInHeader(element('table'))).toBeNull();
+});
+
+test('points the result at the child and keeps the parent location, at most at medium confidence', () => {
+  const parent = {
+    ...scored([{ label: 'test ID', weight: 0.9 }]),
+    verified: true,
+    filePath: 'src/Toolbar.tsx',
+    lineNumber: 13,
+    columnNumber: 3,
+    componentName: 'Toolbar',
+  };
+  const child = findInHeader(element('svg', { class: 'icon' }));
+
+  expect(child && withChildLocation(parent, child)).toMatchObject({
+    confidence: 'medium',
+    verified: false,
+    filePath: 'src/ui/Icon.tsx',
+    componentName: 'Icon',
+    lineNumber: 2,
+    parentLocation: { filePath: 'src/Toolbar.tsx', lineNumber: 13, columnNumber: 3, componentName: 'Toolbar' },
+  });
+});
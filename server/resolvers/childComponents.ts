@@ -0,0 +1,180 @@
+import type { ElementInfo } from '../../src/shared/types';
+import type { ResolutionResult } from './types';
+import { DEFAULT_EXPORT_LOCAL, type JsxElementFact, type ParsedSourceFile } from './sourceParser';
+import { resolveModule, type SourceProject } from './sourceProject';
+import type { SourceIndex } from './sourceIndex';
+import { levelsBelow, scoreElement } from './ancestors';
+import { capConfidence } from './scoring';
+
+/**
+ * How many components deep to follow from the matched parent.
+ */
+const MAX_COMPONENT_DEPTH = 3;
+
+/**
+ * Re-exports and imports followed before giving up on a component.
+ */
+const MAX_LOOKUP_DEPTH = 10;
+
+/**
+ * A function component: the file it is declared in and its name there.
+ */
+export interface ComponentDefinition {
+  file: ParsedSourceFile;
+  componentName: string;
+}
+
+/**
+ * The clicked element found in a child component's source.
+ */
+export interface ChildElementMatch {
+  file: ParsedSourceFile;
+  element: JsxElementFact;
+}
+
+function isComponentTag(tagName: string): boolean {
+  return /^[A-Z]/.test(tagName.split('.').pop() ?? '');
+}
+
+function resolveExportedComponent(
+  project: SourceProject,
+  file: ParsedSourceFile,
+  name: string,
+  depth: number
+): ComponentDefinition | null {
+  if (depth > MAX_LOOKUP_DEPTH) return null;
+
+  const local = file.exports.get(name);
+  if (local) {
+    // Anonymous default exports have no name to find their JSX by
+    return local === DEFAULT_EXPORT_LOCAL ? null : resolveComponent(project, file, local, depth + 1);
+  }
+
+  for (const reExport of file.reExports) {
+    const isStar = reExport.exported === '*';
+    if (!isStar && reExport.exported !== name) continue;
+    if (isStar && name === 'default') continue;
+
+    const target = resolveModule(project, file.filePath, reExport.source);
+    const found = target && resolveExportedComponent(project, target, isStar ? name : reExport.imported, depth + 1);
+    if (found) return found;
+  }
+
+  return null;
+}
+
+/**
+ * Find where the component a JSX tag refers to is declared: in the same file, or
+ * through (namespace) imports and re-exports of relative modules.
+ *
+ * @param tagName - JSX tag, e.g. `UserRow` or `UI.Button`
+ */
+export function resolveComponent(
+  project: SourceProject,
+  file: ParsedSourceFile,
+  tagName: string,
+  depth = 0
+): ComponentDefinition | null {
+  if (depth > MAX_LOOKUP_DEPTH) return null;
+
+  const [head, member, ...rest] = tagName.split('.');
+  if (rest.length > 0) return null;
+
+  const binding = file.imports.get(head);
+  if (member !== undefined) {
+    const target = binding?.imported === '*' ? resolveModule(project, file.filePath, binding.source) : undefined;
+    return target ? resolveExportedComponent(project, target, member, depth + 1) : null;
+  }
+
+  if (file.jsxElements.some((element) => element.componentName === head)) {
+    return { file, componentName: head };
+  }
+
+  const target = binding ? resolveModule(project, file.filePath, binding.source) : undefined;
+  return target && binding ? resolveExportedComponent(project, target, binding.imported, depth + 1) : null;
+}
+
+/**
+ * Look for the clicked element in the components rendered inside an ancestor's JSX
+ * (and the ancestor itself, if it is a component), following imports into their source
+ * files and from there into the components they render, up to MAX_COMPONENT_DEPTH deep.
+ *
+ * Elements with the clicked tag are scored by classes, static attributes and text.
+ * Returns null unless one of them is the clear best.
+ *
+ * @param ancestor - JSX element matched for the ancestor
+ * @param clicked - DOM facts of the clicked element
+ */
+export function findInChildComponents(
+  index: SourceIndex,
+  file: ParsedSourceFile,
+  ancestor: JsxElementFact,
+  clicked: ElementInfo
+): ChildElementMatch | null {
+  const scored: (ChildElementMatch & { score: number })[] = [];
+  const visited = new Set<string>();
+
+  const visitComponents = (currentFile: ParsedSourceFile, elements: JsxElementFact[], depth: number) => {
+    if (depth > MAX_COMPONENT_DEPTH) return;
+
+    for (const element of elements) {
+      if (!isComponentTag(element.tagName)) continue;
+
+      const definition = resolveComponent(index.project, currentFile, element.tagName);
+      if (!definition) continue;
+
+      const key = `${definition.file.filePath}#${definition.componentName}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      const rendered = definition.file.jsxElements.filter(
+        (candidate) => candidate.componentName === definition.componentName
+      );
+      for (const candidate of rendered) {
+        if (candidate.tagName !== clicked.tagName) continue;
+        scored.push({
+          file: definition.file,
+          element: candidate,
+          score: scoreElement(index, definition.file, candidate, clicked),
+        });
+      }
+
+      visitComponents(definition.file, rendered, depth + 1);
+    }
+  };
+
+  const nested = file.jsxElements.filter(
+    (element) => element === ancestor || levelsBelow(element, ancestor) !== null
+  );
+  visitComponents(file, nested, 1);
+
+  scored.sort((a, b) => b.score - a.score);
+  const [best, second] = scored;
+  if (!best || (second && second.score === best.score)) {
+    return null;
+  }
+  return { file: best.file, element: best.element };
+}
+
+/**
+ * Point a result at the clicked element found in a child component, keeping the
+ * parent match as parentLocation. The child is picked by similarity rather than
+ * proof, so high confidence drops to medium.
+ */
+export function withChildLocation(result: ResolutionResult, child: ChildElementMatch): ResolutionResult {
+  const label = `followed into child component${child.element.componentName ? ` ${child.element.componentName}` : ''}`;
+  return {
+    ...capConfidence(result, 'medium', label),
+    verified: false,
+    filePath: child.file.filePath,
+    componentName: child.element.componentName,
+    lineNumber: child.element.lineNumber,
+    columnNumber: child.element.columnNumber,
+    parentLocation: {
+      filePath: result.filePath,
+      lineNumber: result.lineNumber,
+      columnNumber: result.columnNumber,
+      componentName: result.componentName,
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import type { CodeSnippet, CodeLine } from '../../src/shared/types';
+import type { SourceIndex } from './sourceIndex';
+
+/**
+ * Extract code snippet around a specific line.
+ */
+export async function extractCodeSnippet(
+  filePath: string,
+  matchLine: number,
+  index: SourceIndex,
+  contextLines = 10
+): Promise<CodeSnippet | undefined> {
+  try {
+    const allLines = await index.readLines(filePath);
+    if (!allLines) {
+      return undefined;
+    }
+
+    const startLine = Math.max(1, matchLine - contextLines);
+    const endLine = Math.min(allLines.length, matchLine + contextLines);
+
+    const lines: CodeLine[] = [];
+    for (let i = startLine; i <= endLine; i++) {
+      lines.push({
+        lineNumber: i,
+        content: allLines[i - 1], // 0-indexed
+        isMatch: i === matchLine,
+      });
+    }
+
+    return { lines, startLine, endLine, matchLine };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,120 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ComponentStackFrame, SelectionPayload } from '../../src/shared/types';
+import { DEFAULT_CONFIG } from '../config';
+import { componentStackResolver } from './componentStackResolver';
+import { createSourceIndex, type SourceIndex } from './sourceIndex';
+import type { ResolverOptions } from './types';
+
+const CARD = `import { Button } from './Button';
+
+export const Card = () => (
+  <article className="card">
+    <Button label="Buy" />
+  </article>
+);
+`;
+
+const BUTTON = `export const Button = ({ label }: { label: string }) => <button className="btn">{label}</button>;
+`;
+
+const BUTTON_COLUMN = BUTTON.indexOf('<button') + 1;
+
+let cwd: string;
+let index: SourceIndex;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-stack-'));
+  await mkdir(join(cwd, 'src'));
+  await writeFile(join(cwd, 'src/Card.tsx'), CARD);
+  await writeFile(join(cwd, 'src/Button.tsx'), BUTTON);
+  index = await createSourceIndex(cwd, DEFAULT_CONFIG);
+});
+
+afterAll(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+function resolve(componentStack: ComponentStackFrame[], domOuterHtml = '<button class="btn">Buy</button>') {
+  const payload: SelectionPayload = {
+    pageUrl: '/',
+    selector: 'button.btn',
+    testId: null,
+    domOuterHtml,
+    textSnippet: 'Buy',
+    classes: ['btn'],
+    componentStack,
+  };
+  const options: ResolverOptions = { cwd, index, config: DEFAULT_CONFIG };
+  return componentStackResolver(payload, options);
+}
+
+// The clicked <button> is rendered by Button, which Card renders
+const buttonFrame = (): ComponentStackFrame => ({
+  componentName: 'Button',
+  fileName: join(cwd, 'src/Button.tsx'),
+  lineNumber: 1,
+  columnNumber: BUTTON_COLUMN,
+});
+const cardFrame = (): ComponentStackFrame => ({
+  componentName: 'Card',
+  fileName: join(cwd, 'src/Card.tsx'),
+  lineNumber: 5,
+  columnNumber: 5,
+});
+
+test('verifies the innermost frame when it is on the clicked tag inside the named component', async () => {
+  const result = await resolve([buttonFrame(), cardFrame()]);
+
+  expect(result).toMatchObject({
+    filePath: 'src/Button.tsx',
+    componentName: 'Button',
+    lineNumber: 1,
+    columnNumber: BUTTON_COLUMN,
+    confidence: 'high',
+    verified: true,
+  });
+  expect(result?.candidates?.map((candidate) => candidate.filePath)).toEqual(['src/Button.tsx', 'src/Card.tsx']);
+});
+
+test('does not verify a frame on an element with another tag', async () => {
+  const result = await resolve([buttonFrame()], '<a class="btn">Buy</a>');
+
+  expect(result).toMatchObject({ filePath: 'src/Button.tsx', confidence: 'medium', verified: false });
+  expect(result?.signals?.map((signal) => signal.label)).toContain('JSX element has a different tag');
+});
+
+test('does not verify a frame that names another component', async () => {
+  const result = await resolve([{ ...buttonFrame(), componentName: 'IconButton' }]);
+
+  expect(result).toMatchObject({ confidence: 'medium', verified: false });
+  expect(result?.signals?.map((signal) => signal.label)).toContain('element belongs to Button');
+});
+
+test('does not verify a frame that lands on no JSX element, e.g. a stale stack', async () => {
+  const result = await resolve([{ ...buttonFrame(), lineNumber: 2 }]);
+
+  expect(result).toMatchObject({ filePath: 'src/Button.tsx', lineNumber: 2, verified: false });
+});
+
+test('skips frames outside the project and does not verify an outer frame', async () => {
+  const library: ComponentStackFrame = {
+    componentName: 'Tooltip',
+    fileName: join(cwd, 'node_modules/ui/Tooltip.js'),
+    lineNumber: 3,
+  };
+  const result = await resolve([library, cardFrame()], '<article class="card"></article>');
+
+  expect(result).toMatchObject({ filePath: 'src/Card.tsx', lineNumber: 5, componentName: 'Card', verified: false });
+  expect(result?.confidence).not.toBe('high');
+});
+
+test('returns null without a stack frame in the project', async () => {
+  expect(await resolve([])).toBeNull();
+  expect(await resolve([{ componentName: 'App' }])).toBeNull();
+  expect(await resolve([{ componentName: 'Gone', fileName: join(cwd, 'src/Gone.tsx'), lineNumber: 1 }])).toBeNull();
+});
@@ -0,0 +1,132 @@
+import { isAbsolute, relative } from 'node:path';
+import type { ComponentStackFrame } from '../../src/shared/types';
+import type { ResolutionResult, ResolverFn } from './types';
+import type { JsxElementFact, ParsedSourceFile } from './sourceParser';
+import { tagNameFromHtml } from './cssResolver';
+import { buildCandidates } from './candidates';
+import { extractCodeSnippet } from './codeSnippet';
+import { scored } from './scoring';
+
+/**
+ * A stack frame that points into a project file.
+ */
+interface LocatedFrame {
+  depth: number;
+  frame: ComponentStackFrame;
+  filePath: string;
+  element?: JsxElementFact;
+  lineNumber: number;
+  columnNumber?: number;
+}
+
+/**
+ * Map a file name recorded by the dev server to a path relative to cwd.
+ * Returns null for files outside the project (node_modules, linked packages).
+ */
+function toProjectPath(fileName: string, cwd: string): string | null {
+  const path = fileName.replace(/[?#].*$/, '').replace(/\\/g, '/');
+  const projectPath = isAbsolute(path) ? relative(cwd, path).replace(/\\/g, '/') : path.replace(/^\.?\//, '');
+
+  if (!projectPath || projectPath.startsWith('..') || projectPath.includes('node_modules/')) {
+    return null;
+  }
+  return projectPath;
+}
+
+/**
+ * Find the JSX element a frame points at. Columns are compared when available,
+ * since several elements can start on one line.
+ */
+function findElementAt(file: ParsedSourceFile, frame: ComponentStackFrame): JsxElementFact | undefined {
+  const onLine = file.jsxElements.filter((element) => element.lineNumber === frame.lineNumber);
+  return onLine.find((element) => element.columnNumber === frame.columnNumber) ?? onLine[0];
+}
+
+/**
+ * Component stack resolver - uses the owner chain React records in development
+ * builds (see getComponentStack in the overlay) to locate the clicked element.
+ *
+ * The stack comes from the browser and may be stale (the file changed since it was
+ * compiled), so every frame is checked against the source index. The innermost frame
+ * that lands on a JSX element in the project wins:
+ * - high, verified: the first frame, on a JSX element with the clicked tag inside the named
+ *   component; React recorded that element as the one it rendered, so nothing is guessed
+ * - medium: any other frame that lands in a project file
+ * (one signal per condition; missing any of them drops the score below high)
+ * Returns null if the payload has no usable stack.
+ */
+export const componentStackResolver: ResolverFn = async (payload, options) => {
+  const stack = Array.isArray(payload.componentStack) ? payload.componentStack : [];
+  const tagName = tagNameFromHtml(payload.domOuterHtml ?? '');
+  const located: LocatedFrame[] = [];
+
+  for (const [depth, frame] of stack.entries()) {
+    if (!frame?.fileName || !frame.lineNumber) continue;
+
+    const filePath = toProjectPath(frame.fileName, options.cwd);
+    const file = filePath ? options.index.getFile(filePath) : undefined;
+    if (!file) {
+      options.trace?.step('stack frame', `${frame.componentName} in ${frame.fileName}, not a project source file`);
+      continue;
+    }
+
+    const element = findElementAt(file, frame);
+    const entry: LocatedFrame = {
+      depth,
+      frame,
+      filePath: file.filePath,
+      element,
+      lineNumber: element?.lineNumber ?? frame.lineNumber,
+      columnNumber: element?.columnNumber ?? frame.columnNumber,
+    };
+    located.push(entry);
+    options.trace?.step(
+      'stack frame',
+      `${frame.componentName}${element ? ` renders <${element.tagName}>` : ', no JSX element at the frame'}`,
+      [entry]
+    );
+  }
+
+  if (located.length === 0) {
+    return null;
+  }
+
+  const [{ depth, frame, element, filePath, lineNumber, columnNumber }] = located;
+  const isInComponent = !element?.componentName || element.componentName === frame.componentName;
+  const isClickedTag = tagName === null || element?.tagName === tagName;
+  const verified = depth === 0 && element !== undefined && isClickedTag && isInComponent;
+
+  const result: ResolutionResult = {
+    ...scored([
+      { label: `component stack frame ${frame.componentName}`, weight: 0.5 },
+      depth === 0 ? { label: 'innermost frame', weight: 0.1 } : { label: `frame depth ${depth}`, weight: 0 },
+      element && isClickedTag
+        ? { label: 'on a JSX element with the clicked tag', weight: 0.1 }
+        : { label: element ? 'JSX element has a different tag' : 'no JSX element at the frame', weight: 0 },
+      isInComponent
+        ? { label: `inside ${frame.componentName}`, weight: 0.1 }
+        : { label: `element belongs to ${element?.componentName}`, weight: 0 },
+    ]),
+    verified,
+    filePath,
+    componentName: frame.componentName,
+    lineNumber,
+    columnNumber,
+    source: 'heuristic',
+  };
+
+  result.codeSnippet = await extractCodeSnippet(filePath, lineNumber, options.index);
+  // Outer frames are where each owner is rendered by its parent
+  result.candidates = await buildCandidates(
+    'componentStack',
+    located.map((entry) => ({
+      filePath: entry.filePath,
+      lineNumber: entry.lineNumber,
+      columnNumber: entry.columnNumber,
+      score: 1 / (entry.depth + 1),
+    })),
+    options.index
+  );
+
+  return result;
+};
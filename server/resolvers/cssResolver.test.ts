@@ -0,0 +1,88 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { SelectionPayload } from '../../src/shared/types';
+import { DEFAULT_CONFIG } from '../config';
+import { cssResolver, isHashedClassName } from './cssResolver';
+import { createSourceIndex, type SourceIndex } from './sourceIndex';
+import type { ResolverOptions } from './types';
+
+const BUTTONS = `export function Buttons({ primary, size }: { primary: boolean; size: string }) {
+  return (
+    <div className="flex items-center justify-between">
+      <button className="btn btn-primary large">Save</button>
+      <button className={clsx('btn', primary && 'btn-primary', { small: !primary })}>Cancel</button>
+      <span className={\`badge badge-\${size}\`}>New</span>
+      <span className="badge">Old</span>
+    </div>
+  );
+}
+`;
+
+let cwd: string;
+let index: SourceIndex;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-css-'));
+  await mkdir(dirname(join(cwd, 'src/Buttons.tsx')), { recursive: true });
+  await writeFile(join(cwd, 'src/Buttons.tsx'), BUTTONS);
+  index = await createSourceIndex(cwd, DEFAULT_CONFIG);
+});
+
+afterAll(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+function resolve(classes: string[], domOuterHtml: string) {
+  const payload: SelectionPayload = { pageUrl: '/', selector: '', testId: null, domOuterHtml, textSnippet: '', classes };
+  const options: ResolverOptions = { cwd, index, config: DEFAULT_CONFIG };
+  return cssResolver(payload, options);
+}
+
+test('recognises generated class names', () => {
+  expect(isHashedClassName('_card_1x2y3_12')).toBe(true);
+  expect(isHashedClassName('Button_button__a1b2c3')).toBe(true);
+  expect(isHashedClassName('css-1q2w3e')).toBe(true);
+  expect(isHashedClassName('sc-bdVaJa')).toBe(true);
+  expect(isHashedClassName('btn-primary')).toBe(false);
+  expect(isHashedClassName('justify-between')).toBe(false);
+});
+
+test('resolves the only element with every class to medium confidence', async () => {
+  const result = await resolve(['flex', 'items-center', 'justify-between'], '<div class="flex">');
+
+  expect(result).toMatchObject({ filePath: 'src/Buttons.tsx', lineNumber: 3, confidence: 'medium', score: 0.6 });
+  expect(result?.verified).toBe(false);
+});
+
+test('ranks elements by how many of the clicked classes they have', async () => {
+  const result = await resolve(['btn', 'btn-primary', 'large'], '<button class="btn btn-primary large">');
+
+  expect(result).toMatchObject({ lineNumber: 4, confidence: 'medium' });
+  expect(result?.candidates?.map((candidate) => candidate.lineNumber)).toEqual([4, 5]);
+  expect(result?.candidates?.[0].score).toBeGreaterThan(result?.candidates?.[1].score ?? 1);
+});
+
+test('matches classes from clsx calls and template literals', async () => {
+  expect(await resolve(['small'], '<button class="btn small">')).toMatchObject({ lineNumber: 5 });
+
+  // badge-${size} is unknown, but badge is certain on both spans
+  const badge = await resolve(['badge', 'badge-lg'], '<span class="badge badge-lg">');
+  expect(badge?.candidates?.map((candidate) => candidate.lineNumber)).toEqual([6, 7]);
+});
+
+test('scores a single class used by several elements as low', async () => {
+  const result = await resolve(['btn'], '<button class="btn">');
+
+  expect(result?.confidence).toBe('low');
+  expect(result?.signals?.map((signal) => signal.label)).toContain('single class used elsewhere too');
+});
+
+test('ignores generated class names and returns null when nothing is left', async () => {
+  expect(await resolve(['css-1q2w3e', '_card_1x2y3_12'], '<div>')).toBeNull();
+  expect(await resolve(['not-in-source'], '<div>')).toBeNull();
+  expect(await resolve(['css-1q2w3e', 'justify-between'], '<div>')).toMatchObject({ lineNumber: 3 });
+});
@@ -0,0 +1,155 @@
+import type { ResolutionResult, ResolverFn } from './types';
+import type { IndexedAttribute } from './sourceIndex';
+import { buildCandidates } from './candidates';
+import { extractCodeSnippet } from './codeSnippet';
+import { scored } from './scoring';
+
+/**
+ * Class names generated at build time (CSS modules, CSS-in-JS) never appear in source.
+ * - card_abc123, _card_1x2y3_12 (CSS modules)
+ * - Button_button__a1b2c3 (Next.js CSS modules)
+ * - css-1q2w3e (Emotion), sc-bdVaJa (styled-components)
+ */
+const HASHED_CLASS_PATTERNS = [
+  /^_[\w-]+_[a-zA-Z0-9-]{5}(_\d+)?$/,
+  /__(?=[a-zA-Z0-9_-]*\d)[a-zA-Z0-9_-]{5,}$/,
+  /_(?=[a-zA-Z]*\d)[a-zA-Z0-9]{5,}$/,
+  /^css-[a-z0-9]+$/i,
+  /^sc-[a-zA-Z]+$/,
+];
+
+interface Candidate {
+  entry: IndexedAttribute;
+  /** Clicked element classes found on this element */
+  matched: number;
+  /** Classes this element always renders that the clicked element doesn't have */
+  extra: number;
+  /** True if the JSX tag is the clicked element's tag (not a component) */
+  sameTag: boolean;
+}
+
+/**
+ * True if the class name looks generated (hashed) rather than written in source.
+ */
+export function isHashedClassName(className: string): boolean {
+  return HASHED_CLASS_PATTERNS.some((pattern) => pattern.test(className));
+}
+
+/**
+ * Tag name of the clicked element, taken from its outer HTML.
+ */
+export function tagNameFromHtml(html: string): string | null {
+  const match = html.match(/^\s*<([a-zA-Z][\w-]*)/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Share of the clicked classes the element has, halved when the JSX tag isn't
+ * the clicked one and reduced by every class the element has on top.
+ */
+function scoreCandidate(candidate: Candidate, classCount: number): number {
+  return ((candidate.matched / classCount) * (candidate.sameTag ? 1 : 0.5)) / (1 + candidate.extra);
+}
+
+function compareCandidates(a: Candidate, b: Candidate): number {
+  return b.matched - a.matched || Number(b.sameTag) - Number(a.sameTag) || a.extra - b.extra;
+}
+
+/**
+ * Score the ranked candidates.
+ * Class names are never proof, so the best we report is medium: exactly one element
+ * must have every class (or be the only one with nothing but those classes).
+ */
+function resolveFromCandidates(
+  ranked: Candidate[],
+  classCount: number,
+  isDistinctive: boolean
+): ResolutionResult {
+  const [best] = ranked;
+  const fullMatches = ranked.filter((c) => c.matched === classCount && c.sameTag);
+  const exactMatches = fullMatches.filter((c) => c.extra === 0);
+  const isUnique = fullMatches.length === 1 || exactMatches.length === 1;
+
+  return {
+    ...scored([
+      { label: `class overlap ${best.matched}/${classCount}`, weight: (0.3 * best.matched) / classCount },
+      isUnique
+        ? { label: 'only element with these classes', weight: 0.3 }
+        : {
+            label: fullMatches.length === 0 ? 'no element with every class' : `${fullMatches.length} elements with every class`,
+            weight: 0,
+          },
+      ...(isDistinctive ? [] : [{ label: 'single class used elsewhere too', weight: -0.2 }]),
+    ]),
+    verified: false,
+    filePath: best.entry.file.filePath,
+    lineNumber: best.entry.lineNumber,
+    columnNumber: best.entry.columnNumber,
+    source: 'heuristic',
+  };
+}
+
+/**
+ * CSS resolver - resolves the clicked element's class names to className attributes in JSX.
+ * Handles string literals, template literals, conditionals and clsx-style helpers.
+ * Returns null if the element has no usable (non-hashed) classes or nothing matches.
+ */
+export const cssResolver: ResolverFn = async (payload, options) => {
+  const classes = [...new Set(payload.classes ?? [])].filter((c) => c && !isHashedClassName(c));
+  if (classes.length === 0) {
+    return null; // Cannot handle - no classes written in source
+  }
+
+  const { classNames, elementClassNames } = options.index.lookups();
+  const tagName = tagNameFromHtml(payload.domOuterHtml ?? '');
+  const clicked = new Set(classes);
+  const candidates = new Map<IndexedAttribute['element'], Candidate>();
+
+  for (const className of classes) {
+    options.trace?.step(
+      'class',
+      className,
+      (classNames.get(className) ?? []).map((entry) => ({ ...entry, filePath: entry.file.filePath }))
+    );
+    for (const entry of classNames.get(className) ?? []) {
+      const existing = candidates.get(entry.element);
+      if (existing) {
+        existing.matched++;
+        continue;
+      }
+      const elementClasses = elementClassNames.get(entry.element) ?? [];
+      candidates.set(entry.element, {
+        entry,
+        matched: 1,
+        extra: elementClasses.filter((c) => !clicked.has(c)).length,
+        sameTag: tagName === null || entry.element.tagName === tagName,
+      });
+    }
+  }
+
+  if (candidates.size === 0) {
+    return null;
+  }
+
+  const ranked = [...candidates.values()].sort(compareCandidates);
+  // A single class is only distinctive if nothing else in the project uses it
+  const isDistinctive = classes.length >= 2 || classNames.get(classes[0])?.length === 1;
+  const result = resolveFromCandidates(ranked, classes.length, isDistinctive);
+
+  if (result.filePath && result.lineNumber) {
+    result.codeSnippet = await extractCodeSnippet(result.filePath, result.lineNumber, options.index);
+  }
+
+  result.candidates = await buildCandidates(
+    'css',
+    ranked.map((candidate) => ({
+      filePath: candidate.entry.file.filePath,
+      lineNumber: candidate.entry.lineNumber,
+      columnNumber: candidate.entry.columnNumber,
+      score: scoreCandidate(candidate, classes.length),
+    })),
+    options.index
+  );
+
+  return result;
+};
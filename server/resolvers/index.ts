@@ -1,60 +1,188 @@
+import { isAbsolute, resolve } from 'node:path';
 import type { SelectionPayload } from '../../src/shared/types';
+import { nodeImport, type ModuleImporter, type UiAgentConfig } from '../config';
 import type { ResolutionResult, ResolverOptions, ResolverFn } from './types';
-import { testIdResolver } from './testIdResolver';
-import { cursorCliResolver } from './cursorCliResolver';
+import { sourceAttributeResolver } from './sourceAttributeResolver';
+import { componentStackResolver } from './componentStackResolver';
+import { testIdResolver, withConfiguredTestId } from './testIdResolver';
+import { ariaResolver } from './ariaResolver';
+import { textResolver } from './textResolver';
+import { cssResolver } from './cssResolver';
+import { agentResolver } from './agentResolver';
+import { extractCodeSnippet } from './codeSnippet';
+import { elementAt, findClickedElement, payloadForAncestor, scoreAtDepth } from './ancestors';
+import { findInChildComponents, withChildLocation } from './childComponents';
+import { capConfidence, normalizeScore, withSignals } from './scoring';
 
 export type { ResolutionResult, ResolverOptions, ResolverFn } from './types';
+export { createSourceIndex, type SourceIndex } from './sourceIndex';
+export { extractCodeSnippet } from './codeSnippet';
+export {
+  createResolutionCache,
+  resolutionCacheKey,
+  resultFiles,
+  trackFileReads,
+  type IndexReads,
+  type ResolutionCache,
+} from './resolutionCache';
+export { createTraceLog, createTraceRecorder, MAX_TRACES, type TraceLog, type TraceRecorder } from './resolutionTrace';
 
 /**
- * Ordered list of heuristic resolvers to try.
- * Each resolver returns null if it cannot handle the payload.
- * First resolver to return a result wins.
+ * Heuristic resolvers by the name used in the config's `resolvers` list.
+ * Each resolver returns null if it cannot handle the payload, otherwise a scored result.
+ * The chain runs them in order until one is highly confident and keeps the best score,
+ * raised for every other resolver that points at the same location (see runResolvers).
  *
  * To add a new resolver:
  * 1. Create resolver file (e.g., cssResolver.ts)
- * 2. Add to this array in priority order
+ * 2. Register it here and add its name to DEFAULT_CONFIG.resolvers in priority order
  */
-const resolvers: ResolverFn[] = [
-  testIdResolver,
-  // Future: cssResolver, componentNameResolver, etc.
-];
+const BUILT_IN_RESOLVERS: Record<string, ResolverFn> = {
+  sourceAttribute: sourceAttributeResolver,
+  componentStack: componentStackResolver,
+  testId: testIdResolver,
+  aria: ariaResolver,
+  text: textResolver,
+  css: cssResolver,
+};
+
+/**
+ * Resolver chains by config, so custom resolver modules are imported once.
+ */
+const resolverChains = new WeakMap<UiAgentConfig, Promise<ResolverFn[]>>();
+
+async function loadResolver(entry: string, cwd: string, importModule: ModuleImporter): Promise<ResolverFn> {
+  const builtIn = BUILT_IN_RESOLVERS[entry];
+  if (builtIn) return builtIn;
+
+  if (!entry.startsWith('.') && !isAbsolute(entry)) {
+    throw new Error(
+      `[ui-agent] Unknown resolver "${entry}". Use one of ${Object.keys(BUILT_IN_RESOLVERS).join(', ')} or a module path`
+    );
+  }
+
+  const module = await importModule(resolve(cwd, entry));
+  const resolver = module.default ?? module.resolver;
+  if (typeof resolver !== 'function') {
+    throw new Error(`[ui-agent] Resolver module ${entry} must export a resolver function as default`);
+  }
+  return resolver as ResolverFn;
+}
+
+/**
+ * The resolver chain a config asks for, importing custom resolver modules on first use.
+ * Rejects if a resolver name is unknown or a module can't be loaded.
+ *
+ * @param importModule - How to import custom resolver modules; only used on first use
+ */
+export function getResolverChain(
+  config: UiAgentConfig,
+  cwd: string,
+  importModule: ModuleImporter = nodeImport
+): Promise<ResolverFn[]> {
+  let chain = resolverChains.get(config);
+  if (!chain) {
+    chain = Promise.all(config.resolvers.map((entry) => loadResolver(entry, cwd, importModule)));
+    resolverChains.set(config, chain);
+  }
+  return chain;
+}
 
 /**
  * Default result when no resolver can handle the payload.
  */
 const DEFAULT_RESULT: ResolutionResult = {
   confidence: 'low',
+  score: 0,
+  signals: [{ label: 'no resolver could handle the element', weight: 0 }],
   verified: false,
   filePath: '',
   source: 'heuristic',
 };
 
+function isConfident(result: ResolutionResult | null): boolean {
+  return result?.confidence === 'high' || result?.confidence === 'medium';
+}
+
 /**
- * Run resolvers in chain until one returns a result.
- * If all heuristics fail (low confidence or no result) and useAgentFallback is true, try agent as fallback.
+ * Run a resolver, recorded in the options' trace if there is one.
+ */
+function traced(
+  options: ResolverOptions,
+  resolver: string,
+  depth: number,
+  resolve: () => Promise<ResolutionResult | null>
+): Promise<ResolutionResult | null> {
+  return options.trace ? options.trace.run(resolver, depth, resolve) : resolve();
+}
+
+/**
+ * A result for trace reasons, e.g. "testId at medium confidence, score 0.60".
+ */
+function describeResult(result: ResolutionResult): string {
+  const resolver = result.signals?.find((signal) => signal.resolver)?.resolver ?? 'a resolver';
+  return `${resolver} at ${result.confidence} confidence, score ${result.score?.toFixed(2) ?? '?'}`;
+}
+
+/**
+ * Score added to a result for every other resolver that points at the same location.
+ */
+const AGREEMENT_WEIGHT = 0.1;
+
+/**
+ * Pick the best of the resolvers' results. Each is raised by AGREEMENT_WEIGHT for every
+ * other resolver that found the same file and line; the highest score wins, ties going
+ * to the resolver listed first.
+ */
+function mergeResults(results: { resolver: string; result: ResolutionResult }[]): ResolutionResult | null {
+  let best: ResolutionResult | null = null;
+
+  for (const { result } of results) {
+    const agreeing = results.filter(
+      (other) =>
+        other.result !== result &&
+        result.filePath &&
+        other.result.filePath === result.filePath &&
+        other.result.lineNumber === result.lineNumber
+    );
+    const merged = withSignals(
+      result,
+      ...agreeing.map((other) => ({ label: `${other.resolver} resolver agrees`, weight: AGREEMENT_WEIGHT }))
+    );
+    if (!best || (merged.score ?? 0) > (best.score ?? 0)) {
+      best = merged;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Run the heuristic resolvers on a payload and merge their results (see mergeResults).
+ * Resolvers after a high confidence result are skipped.
+ * Returns null if no resolver could handle the payload.
  *
- * @param payload - The selection payload from frontend
- * @param options - Resolver options (cwd, useAgentFallback)
- * @returns Resolution result from first successful resolver, or agent fallback (if enabled), or default low-confidence result
+ * @param depth - Ancestor the payload describes (0 for the clicked element), for the trace
  */
-export async function resolveSelection(
+async function runResolvers(
   payload: SelectionPayload,
-  options: ResolverOptions
-): Promise<ResolutionResult> {
-  let heuristicResult: ResolutionResult | null = null;
+  options: ResolverOptions,
+  depth = 0
+): Promise<ResolutionResult | null> {
+  const results: { resolver: string; result: ResolutionResult }[] = [];
+  const chain = await getResolverChain(options.config, options.cwd);
 
-  // Try heuristic resolvers first
-  for (const resolver of resolvers) {
+  for (const [i, resolver] of chain.entries()) {
+    const name = options.config.resolvers[i];
     try {
-      const result = await resolver(payload, options);
+      const result = await traced(options, name, depth, () => resolver(payload, options));
       if (result !== null) {
-        heuristicResult = result;
-        // If we have a high or medium confidence result, use it immediately
-        if (result.confidence === 'high' || result.confidence === 'medium') {
-          return result;
+        results.push({ resolver: name, result: normalizeScore(result, name) });
+        // Nothing later in the chain can do better than high
+        if (results[results.length - 1].result.confidence === 'high') {
+          options.config.resolvers.slice(i + 1).forEach((skipped) => options.trace?.skip(skipped, depth));
+          break;
         }
-        // If low confidence, continue to try Cursor CLI as fallback
-        break;
       }
     } catch (error) {
       console.error('[ui-agent] Resolver failed:', error);
@@ -62,21 +190,152 @@ export async function resolveSelection(
     }
   }
 
+  return mergeResults(results);
+}
+
+/**
+ * Resolve an ancestor of the clicked element, then look for the clicked element inside
+ * the ancestor's JSX or the child components it renders. Confidence is lowered with the
+ * distance to the ancestor, and to low if the clicked element can't be found inside it.
+ */
+async function resolveAncestor(
+  payload: SelectionPayload,
+  depth: number,
+  options: ResolverOptions
+): Promise<ResolutionResult | null> {
+  const ancestorPayload = payloadForAncestor(payload, depth);
+  const result = ancestorPayload && (await runResolvers(ancestorPayload, options, depth));
+  if (!result?.filePath) return null;
+
+  return traced(options, 'ancestor', depth, () => locateInAncestor(payload, depth, result, options));
+}
+
+/**
+ * Find the clicked element inside the JSX of the ancestor a resolution matched, or inside
+ * the child components it renders (see resolveAncestor).
+ */
+async function locateInAncestor(
+  payload: SelectionPayload,
+  depth: number,
+  result: ResolutionResult,
+  options: ResolverOptions
+): Promise<ResolutionResult> {
+  const file = options.index.getFile(result.filePath);
+  const ancestor = file && result.lineNumber ? elementAt(file, result.lineNumber, result.columnNumber) : undefined;
+  const clicked = payload.ancestors?.[0];
+  if (!file || !ancestor || !clicked) {
+    return { ...capConfidence(result, 'low', 'matched an ancestor, not the clicked element'), verified: false };
+  }
+
+  let located: ResolutionResult;
+  const target = findClickedElement(options.index, file, ancestor, clicked, depth);
+  options.trace?.step(
+    'ancestor JSX',
+    `<${clicked.tagName}> inside <${ancestor.tagName}> at ${file.filePath}:${ancestor.lineNumber}`,
+    target ? [{ ...target, filePath: file.filePath }] : []
+  );
+  if (target) {
+    located = { ...result, lineNumber: target.lineNumber, columnNumber: target.columnNumber };
+  } else {
+    const child = findInChildComponents(options.index, file, ancestor, clicked);
+    options.trace?.step(
+      'child components',
+      `<${clicked.tagName}> in components rendered by <${ancestor.tagName}>`,
+      child ? [{ ...child.element, filePath: child.file.filePath }] : []
+    );
+    if (!child) {
+      // The clicked element isn't written in the ancestor's JSX or the components it renders
+      // (e.g. it comes from `children`), so the ancestor is only a container for it
+      return { ...capConfidence(result, 'low', "clicked element isn't in the ancestor's JSX"), verified: false };
+    }
+    located = withChildLocation(result, child);
+  }
+
+  const location = {
+    filePath: located.filePath,
+    lineNumber: located.lineNumber,
+    columnNumber: located.columnNumber,
+    codeSnippet: located.lineNumber
+      ? await extractCodeSnippet(located.filePath, located.lineNumber, options.index)
+      : undefined,
+  };
+
+  return {
+    ...scoreAtDepth(located, depth),
+    ...location,
+    verified: false,
+    candidates: result.candidates?.map((candidate, i) => (i === 0 ? { ...candidate, ...location } : candidate)),
+  };
+}
+
+/**
+ * Run the resolver chain and merge the results (see runResolvers).
+ * If nothing matches the clicked element with at least medium confidence, the chain is
+ * retried on each ancestor in turn (closest first), with the score lowered by distance.
+ * If all heuristics fail (low confidence or no result) and useAgentFallback is true, try agent as fallback.
+ * Every resolver run, and why the chain ended where it did, goes into options.trace.
+ *
+ * @param payload - The selection payload from frontend
+ * @param options - Resolver options (cwd, index, config, useAgentFallback, trace)
+ * @returns Best merged heuristic result, or agent fallback (if enabled), or default low-confidence result;
+ *   always with a score and signals
+ */
+export async function resolveSelection(
+  payload: SelectionPayload,
+  options: ResolverOptions
+): Promise<ResolutionResult> {
+  // Test IDs in custom attributes (config.testIdAttributes) are only visible in the ancestor chain
+  payload = withConfiguredTestId(payload, options.config.testIdAttributes);
+
+  // Try heuristic resolvers first, on the clicked element and then its ancestors
+  let heuristicResult = await runResolvers(payload, options);
+  let resultDepth = 0;
+
+  const ancestorCount = Array.isArray(payload.ancestors) ? payload.ancestors.length : 0;
+  for (let depth = 1; depth < ancestorCount && !isConfident(heuristicResult); depth++) {
+    const result = await resolveAncestor(payload, depth, options);
+    if (result && (isConfident(result) || !heuristicResult?.filePath)) {
+      heuristicResult = result;
+      resultDepth = depth;
+    }
+  }
+
+  const best = heuristicResult?.filePath
+    ? `${describeResult(heuristicResult)}${resultDepth > 0 ? ` through the ancestor at depth ${resultDepth}` : ''}`
+    : 'no resolver matched';
+
+  if (heuristicResult && isConfident(heuristicResult)) {
+    options.trace?.stop(
+      'resolved',
+      heuristicResult.confidence === 'high'
+        ? `${best}; the chain stopped at the first highly confident result`
+        : `${best}, the best of the chain`
+    );
+    return heuristicResult;
+  }
+
   // Only try agent fallback if explicitly enabled
-  if (options.useAgentFallback && (!heuristicResult || heuristicResult.confidence === 'low')) {
+  if (options.useAgentFallback) {
     try {
-      console.log('[ui-agent] Heuristics failed or low confidence, trying agent fallback...');
-      const agentResult = await cursorCliResolver(payload, options);
+      const agentResult = await traced(options, 'agent', 0, () => agentResolver(payload, options));
       if (agentResult !== null) {
-        console.log('[ui-agent] Agent resolved:', agentResult.filePath);
-        return agentResult;
+        options.trace?.stop('agent', `no heuristic was confident (best: ${best}), so the agent was asked`);
+        return normalizeScore(agentResult, 'agent');
       }
     } catch (error) {
       console.error('[ui-agent] Agent resolver failed:', error);
     }
+    options.trace?.stop(
+      'unresolved',
+      `no heuristic was confident (best: ${best}) and the agent couldn't locate the element`
+    );
+  } else {
+    options.trace?.stop(
+      'unresolved',
+      `no heuristic was confident (best: ${best}) and the agent fallback is off`
+    );
   }
 
   // Return heuristic result if we have one, otherwise default
   return heuristicResult || DEFAULT_RESULT;
 }
-
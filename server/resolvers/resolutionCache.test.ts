@@ -0,0 +1,163 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { SelectionPayload } from '../../src/shared/types';
+import { DEFAULT_CONFIG } from '../config';
+import { resolveSelection } from '.';
+import { createResolutionCache, resolutionCacheKey, trackFileReads } from './resolutionCache';
+import { createSourceIndex, type SourceIndex } from './sourceIndex';
+import type { ResolutionResult } from './types';
+
+const FORM = `import { SAVE } from './ids';
+
+export const Form = () => (
+  <form data-testid={SAVE}>
+    <button>Save</button>
+  </form>
+);
+`;
+
+let cwd: string;
+let index: SourceIndex;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-cache-'));
+  await mkdir(join(cwd, 'src'));
+  await writeFile(join(cwd, 'src/ids.ts'), `export const SAVE = 'save-form';\n`);
+  await writeFile(join(cwd, 'src/Form.tsx'), FORM);
+  await writeFile(join(cwd, 'src/Other.tsx'), `export const Other = () => <div />;\n`);
+  index = await createSourceIndex(cwd, DEFAULT_CONFIG);
+});
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+const payload: SelectionPayload = {
+  pageUrl: '/',
+  selector: 'form',
+  testId: { value: 'save-form', onSelf: true, depth: 0, ancestorTagName: 'form' },
+  domOuterHtml: '<form data-testid="save-form"><button>Save</button></form>',
+  textSnippet: 'Save',
+  classes: ['b', 'a'],
+};
+
+const located: ResolutionResult = { filePath: 'src/Form.tsx', lineNumber: 4, confidence: 'high', verified: true };
+
+/**
+ * Resolve the payload and cache the result, the way the server does.
+ */
+async function resolveAndCache(cache: ReturnType<typeof createResolutionCache>, key: string) {
+  const tracked = trackFileReads(index);
+  const result = await resolveSelection(payload, { cwd, index: tracked.index, config: DEFAULT_CONFIG });
+  cache.set(key, result, tracked.reads);
+  return result;
+}
+
+test('keys payloads that only differ in formatting, class order or page alike', () => {
+  const key = resolutionCacheKey(payload, {});
+
+  expect(
+    resolutionCacheKey(
+      {
+        ...payload,
+        pageUrl: '/other',
+        textSnippet: '  Save\n',
+        domOuterHtml: '<form\n  data-testid="save-form"><button>Save</button></form>',
+        classes: ['a', 'b'],
+      },
+      { useAgentFallback: false }
+    )
+  ).toBe(key);
+  expect(resolutionCacheKey({ ...payload, textSnippet: 'Cancel' }, {})).not.toBe(key);
+  expect(resolutionCacheKey(payload, { useAgentFallback: true })).not.toBe(key);
+});
+
+test('drops an entry when a file it read changes', async () => {
+  const cache = createResolutionCache(index);
+  const tracked = trackFileReads(index);
+  tracked.index.getFile('src/Other.tsx');
+  cache.set('key', located, tracked.reads);
+
+  // Neither read nor imported
+  await writeFile(join(cwd, 'src/extra.ts'), `export const EXTRA = 1;\n`);
+  await index.update('src/extra.ts');
+  expect(cache.get('key')).toBe(located);
+
+  await index.update('src/Other.tsx');
+  expect(cache.get('key')).toBeUndefined();
+  expect(cache.size).toBe(0);
+});
+
+test('drops an entry when a file imported by a file it points at changes', async () => {
+  const cache = createResolutionCache(index);
+  cache.set('key', located, trackFileReads(index).reads);
+  expect(cache.get('key')).toBe(located);
+
+  await writeFile(join(cwd, 'src/ids.ts'), `export const SAVE = 'save-settings';\n`);
+  await index.update('src/ids.ts');
+
+  expect(cache.get('key')).toBeUndefined();
+});
+
+test('does not serve a verified location after an imported constant changes', async () => {
+  const cache = createResolutionCache(index);
+  const key = resolutionCacheKey(payload, {});
+  expect(await resolveAndCache(cache, key)).toMatchObject({ filePath: 'src/Form.tsx', verified: true });
+
+  await writeFile(join(cwd, 'src/ids.ts'), `export const SAVE = 'save-settings';\n`);
+  await index.update('src/ids.ts');
+
+  expect(cache.get(key)).toBeUndefined();
+  expect(await resolveAndCache(cache, key)).not.toMatchObject({ filePath: 'src/Form.tsx', verified: true });
+});
+
+test('drops results that queried the lookups when any file changes', async () => {
+  const cache = createResolutionCache(index);
+  const key = resolutionCacheKey(payload, {});
+  expect(await resolveAndCache(cache, key)).toMatchObject({ confidence: 'high' });
+
+  // The test ID is no longer unique
+  await writeFile(join(cwd, 'src/Other.tsx'), `export const Other = () => <div data-testid="save-form" />;\n`);
+  await index.update('src/Other.tsx');
+
+  expect(cache.get(key)).toBeUndefined();
+  expect((await resolveAndCache(cache, key)).confidence).not.toBe('high');
+});
+
+test('does not cache results resolved while the index is updating', async () => {
+  const cache = createResolutionCache(index);
+  const reads = trackFileReads(index).reads;
+
+  const updating = index.update('src/Other.tsx');
+  cache.set('key', located, reads);
+  await updating;
+
+  expect(cache.size).toBe(0);
+  expect(cache.get('key')).toBeUndefined();
+});
+
+test('does not cache results without a file', () => {
+  const cache = createResolutionCache(index);
+  cache.set('key', { filePath: '', confidence: 'low', verified: false }, trackFileReads(index).reads);
+
+  expect(cache.size).toBe(0);
+});
+
+test('evicts the least recently used entry past 500 entries', () => {
+  const cache = createResolutionCache(index);
+  const reads = trackFileReads(index).reads;
+  for (let i = 0; i < 500; i++) cache.set(`key-${i}`, located, reads);
+
+  cache.get('key-0');
+  cache.set('key-500', located, reads);
+
+  expect(cache.size).toBe(500);
+  expect(cache.get('key-0')).toBe(located);
+  expect(cache.get('key-1')).toBeUndefined();
+  expect(cache.get('key-500')).toBe(located);
+  expect(cache.clear()).toBe(500);
+});
@@ -0,0 +1,189 @@
+import { createHash } from 'node:crypto';
+import type { SelectionPayload } from '../../src/shared/types';
+import type { SourceIndex } from './sourceIndex';
+import type { ResolutionResult, ResolverOptions } from './types';
+
+/**
+ * Entries kept before the least recently used ones are dropped.
+ */
+const MAX_ENTRIES = 500;
+
+/**
+ * What a resolution read from the source index, with the index versions it saw.
+ */
+export interface IndexReads {
+  /** SourceIndex.version of every file read, at the first read */
+  files: Map<string, number>;
+  /** SourceIndex.lookupsVersion at the first lookups() call; undefined if there was none */
+  lookups?: number;
+}
+
+interface CacheEntry {
+  result: ResolutionResult;
+  /** What the result depended on, including the files it points at */
+  dependencies: IndexReads;
+}
+
+export interface ResolutionCache {
+  /** A cached result, or undefined if there is none or one of its files changed since */
+  get(key: string): ResolutionResult | undefined;
+  /**
+   * Cache a result, given what it read from the index (see trackFileReads).
+   * Results that found no file aren't cached, since any edit could change them, and neither
+   * are results resolved while the index was catching up with file changes.
+   */
+  set(key: string, result: ResolutionResult, reads: IndexReads): void;
+  /** Drop every entry. Returns how many there were. */
+  clear(): number;
+  readonly size: number;
+}
+
+/**
+ * Recursively sort object keys and collapse whitespace in strings, so payloads that only
+ * differ in formatting share a key.
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') return value.replace(/\s+/g, ' ').trim();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Cache key for resolving a payload with the given options.
+ * The page URL is left out: the same element on another route resolves the same way.
+ */
+export function resolutionCacheKey(
+  payload: SelectionPayload,
+  options: Pick<ResolverOptions, 'agentProvider' | 'useAgentFallback'>
+): string {
+  const { selector, testId, domOuterHtml, textSnippet, classes, ancestors, componentStack, sourceLocation } = payload;
+  const key = normalize({
+    payload: {
+      selector,
+      testId,
+      domOuterHtml,
+      textSnippet,
+      classes: [...(classes ?? [])].sort(),
+      ancestors,
+      componentStack,
+      sourceLocation,
+    },
+    agentProvider: options.agentProvider ?? null,
+    useAgentFallback: options.useAgentFallback ?? false,
+  });
+  return createHash('sha256').update(JSON.stringify(key)).digest('hex');
+}
+
+/**
+ * Wrap a source index to record what resolvers read through it: the files, and whether
+ * they queried the lookups, which are built from every file. Together with the files a
+ * result points at, these are what the result depends on.
+ */
+export function trackFileReads(index: SourceIndex): { index: SourceIndex; reads: IndexReads } {
+  const reads: IndexReads = { files: new Map() };
+  const track = (filePath: string) => {
+    if (!reads.files.has(filePath)) reads.files.set(filePath, index.version(filePath));
+  };
+  return {
+    reads,
+    index: {
+      ...index,
+      getFile(filePath) {
+        track(filePath);
+        return index.getFile(filePath);
+      },
+      readLines(filePath) {
+        track(filePath);
+        return index.readLines(filePath);
+      },
+      lookups() {
+        if (reads.lookups === undefined) reads.lookups = index.lookupsVersion();
+        return index.lookups();
+      },
+    },
+  };
+}
+
+/**
+ * Whether the index changed since it was read.
+ */
+function isStale(index: SourceIndex, reads: IndexReads): boolean {
+  if (reads.lookups !== undefined && index.lookupsVersion() !== reads.lookups) return true;
+  for (const [filePath, version] of reads.files) {
+    if (index.version(filePath) !== version) return true;
+  }
+  return false;
+}
+
+/**
+ * Files a result points at: its location, its candidates and the parent it was found through.
+ */
+export function resultFiles(result: ResolutionResult): string[] {
+  return [
+    result.filePath,
+    ...(result.candidates ?? []).map((candidate) => candidate.filePath),
+    result.parentLocation?.filePath ?? '',
+  ].filter(Boolean);
+}
+
+/**
+ * In-memory cache of resolution results, keyed by resolutionCacheKey.
+ * An entry is dropped as soon as the index has seen one of the files it depended on
+ * change (any file at all, if it queried the lookups), so it is only as fresh as the
+ * index: files the watcher doesn't see never invalidate it.
+ *
+ * @param index - The source index the results were resolved from
+ */
+export function createResolutionCache(index: SourceIndex): ResolutionCache {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (isStale(index, entry.dependencies)) {
+        entries.delete(key);
+        return undefined;
+      }
+
+      // Move to the end: the oldest entries are the least recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.result;
+    },
+
+    set(key, result, reads) {
+      // isStale: a file changed while the result was being resolved
+      if (!result.filePath || index.hasPendingUpdates() || isStale(index, reads)) return;
+
+      const dependencies: IndexReads = { ...reads, files: new Map(reads.files) };
+      for (const filePath of resultFiles(result)) {
+        if (!dependencies.files.has(filePath)) dependencies.files.set(filePath, index.version(filePath));
+      }
+      entries.delete(key);
+      entries.set(key, { result, dependencies });
+
+      for (const oldest of entries.keys()) {
+        if (entries.size <= MAX_ENTRIES) break;
+        entries.delete(oldest);
+      }
+    },
+
+    clear() {
+      const count = entries.size;
+      entries.clear();
+      return count;
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
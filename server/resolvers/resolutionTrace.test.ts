@@ -0,0 +1,79 @@
+/** @jest-environment node */
+import type { ResolutionTrace } from '../../src/shared/types';
+import { createTraceLog, createTraceRecorder, MAX_TRACES } from './resolutionTrace';
+import type { ResolutionResult } from './types';
+
+const result: ResolutionResult = {
+  confidence: 'high',
+  score: 0.9,
+  verified: true,
+  filePath: 'src/Toolbar.tsx',
+  componentName: 'Toolbar',
+  lineNumber: 4,
+  columnNumber: 7,
+  source: 'heuristic',
+};
+
+test('records each resolver run with its steps, then how the chain ended', async () => {
+  const trace = createTraceRecorder('button.save');
+  trace.step('literal', 'ignored outside a run');
+
+  await trace.run('testId', 0, async () => {
+    trace.step('literal', 'save-button');
+    return null;
+  });
+  await trace.run('text', 0, async () => {
+    const matches = Array.from({ length: 12 }, (_, i) => ({ ...result, lineNumber: i + 1 }));
+    trace.step('jsx-text', 'Save', matches);
+    return result;
+  });
+  trace.skip('aria', 0);
+  trace.stop('resolved', 'text matched with high confidence');
+  const finished = trace.finish(result);
+
+  expect(finished).toMatchObject({
+    id: trace.id,
+    selector: 'button.save',
+    outcome: 'resolved',
+    reason: 'text matched with high confidence',
+    result: { filePath: 'src/Toolbar.tsx', lineNumber: 4, confidence: 'high', score: 0.9, source: 'heuristic' },
+  });
+  expect(finished.runs.map(({ resolver, outcome }) => ({ resolver, outcome }))).toEqual([
+    { resolver: 'testId', outcome: 'no_match' },
+    { resolver: 'text', outcome: 'matched' },
+    { resolver: 'aria', outcome: 'skipped' },
+  ]);
+  expect(finished.runs[0].steps).toEqual([{ phase: 'literal', detail: 'save-button', matchCount: 0, matches: [] }]);
+  expect(finished.runs[1].steps[0].matchCount).toBe(12);
+  expect(finished.runs[1].steps[0].matches).toHaveLength(10);
+  expect(finished.runs[1].steps[0].matches[0]).toEqual({ filePath: 'src/Toolbar.tsx', lineNumber: 1, columnNumber: 7 });
+});
+
+test('records a resolver that throws and rethrows its error', async () => {
+  const trace = createTraceRecorder('div');
+
+  await expect(
+    trace.run('custom', 1, async () => {
+      throw new Error('index not ready');
+    })
+  ).rejects.toThrow('index not ready');
+  const finished = trace.finish(null);
+
+  expect(finished.runs).toEqual([
+    expect.objectContaining({ resolver: 'custom', depth: 1, outcome: 'failed', error: 'index not ready' }),
+  ]);
+  expect(finished).toMatchObject({ outcome: 'unresolved', result: { filePath: '', confidence: 'low' } });
+});
+
+test('keeps the last traces, newest first', () => {
+  const log = createTraceLog();
+  const traces: ResolutionTrace[] = Array.from({ length: MAX_TRACES + 2 }, (_, i) =>
+    createTraceRecorder(`#item-${i}`).finish(null)
+  );
+  traces.forEach((trace) => log.add(trace));
+
+  expect(log.get(traces[0].id)).toBeUndefined();
+  expect(log.get(traces[2].id)).toBe(traces[2]);
+  expect(log.recent(MAX_TRACES + 10)).toHaveLength(MAX_TRACES);
+  expect(log.recent(2).map((trace) => trace.selector)).toEqual([`#item-${MAX_TRACES + 1}`, `#item-${MAX_TRACES}`]);
+});
@@ -0,0 +1,164 @@
+import { randomUUID } from 'node:crypto';
+import { performance } from 'node:perf_hooks';
+import type {
+  ResolutionTrace,
+  ResolutionTraceOutcome,
+  ResolutionTraceRun,
+  SourceLocation,
+} from '../../src/shared/types';
+import type { ResolutionResult } from './types';
+
+/**
+ * Traces kept before the oldest ones are dropped.
+ */
+export const MAX_TRACES = 50;
+
+/**
+ * Locations listed per step; matchCount still counts all of them.
+ */
+const MAX_STEP_MATCHES = 10;
+
+/**
+ * Records what the resolver chain does for one selection (see ResolverOptions.trace).
+ * Resolvers run one at a time, so steps belong to whichever run is in progress.
+ */
+export interface TraceRecorder {
+  readonly id: string;
+  /** Record something the running resolver tried. Ignored outside a run. */
+  step(phase: string, detail: string, matches?: SourceLocation[]): void;
+  /** Run a resolver and record its outcome, duration and steps. Errors are recorded and rethrown. */
+  run(
+    resolver: string,
+    depth: number,
+    resolve: () => Promise<ResolutionResult | null>
+  ): Promise<ResolutionResult | null>;
+  /** Record a resolver the chain didn't get to */
+  skip(resolver: string, depth: number): void;
+  /** Record how the resolution ended and why */
+  stop(outcome: ResolutionTraceOutcome, reason: string): void;
+  /** The finished trace for the result the selection was resolved to (null if resolving failed) */
+  finish(result: ResolutionResult | null, cachedFrom?: string): ResolutionTrace;
+}
+
+function elapsed(start: number): number {
+  return Math.round((performance.now() - start) * 10) / 10;
+}
+
+function summarize(result: ResolutionResult): NonNullable<ResolutionTraceRun['result']> {
+  return {
+    filePath: result.filePath,
+    lineNumber: result.lineNumber,
+    columnNumber: result.columnNumber,
+    componentName: result.componentName,
+    confidence: result.confidence,
+    score: result.score,
+  };
+}
+
+/**
+ * Start tracing the resolution of a selection.
+ *
+ * @param selector - The clicked element's selector, to tell traces apart
+ */
+export function createTraceRecorder(selector: string): TraceRecorder {
+  const id = randomUUID();
+  const startedAt = new Date().toISOString();
+  const start = performance.now();
+  const runs: ResolutionTraceRun[] = [];
+  let current: ResolutionTraceRun | null = null;
+  let outcome: ResolutionTraceOutcome = 'unresolved';
+  let reason = 'the chain did not finish';
+
+  return {
+    id,
+
+    step(phase, detail, matches = []) {
+      current?.steps.push({
+        phase,
+        detail,
+        matchCount: matches.length,
+        // Callers may pass richer objects (index entries); keep only the location
+        matches: matches
+          .slice(0, MAX_STEP_MATCHES)
+          .map(({ filePath, lineNumber, columnNumber }) => ({ filePath, lineNumber, columnNumber })),
+      });
+    },
+
+    async run(resolver, depth, resolve) {
+      const run: ResolutionTraceRun = { resolver, depth, outcome: 'no_match', durationMs: 0, steps: [] };
+      const runStart = performance.now();
+      runs.push(run);
+      current = run;
+      try {
+        const result = await resolve();
+        if (result) {
+          run.outcome = 'matched';
+          run.result = summarize(result);
+        }
+        return result;
+      } catch (error) {
+        run.outcome = 'failed';
+        run.error = error instanceof Error ? error.message : String(error);
+        throw error;
+      } finally {
+        run.durationMs = elapsed(runStart);
+        current = null;
+      }
+    },
+
+    skip(resolver, depth) {
+      runs.push({ resolver, depth, outcome: 'skipped', durationMs: 0, steps: [] });
+    },
+
+    stop(stoppedWith, why) {
+      outcome = stoppedWith;
+      reason = why;
+    },
+
+    finish(result, cachedFrom) {
+      return {
+        id,
+        startedAt,
+        durationMs: elapsed(start),
+        selector,
+        runs,
+        outcome,
+        reason,
+        result: result ? { ...summarize(result), source: result.source } : { filePath: '', confidence: 'low' },
+        cachedFrom,
+      };
+    },
+  };
+}
+
+export interface TraceLog {
+  add(trace: ResolutionTrace): void;
+  get(id: string): ResolutionTrace | undefined;
+  /** The most recent traces, newest first */
+  recent(limit: number): ResolutionTrace[];
+}
+
+/**
+ * In-memory log of the last MAX_TRACES resolution traces, for GET /debug/resolutions.
+ */
+export function createTraceLog(): TraceLog {
+  const traces = new Map<string, ResolutionTrace>();
+
+  return {
+    add(trace) {
+      traces.set(trace.id, trace);
+      for (const oldest of traces.keys()) {
+        if (traces.size <= MAX_TRACES) break;
+        traces.delete(oldest);
+      }
+    },
+
+    get(id) {
+      return traces.get(id);
+    },
+
+    recent(limit) {
+      return [...traces.values()].reverse().slice(0, limit);
+    },
+  };
+}
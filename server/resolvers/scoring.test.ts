@@ -0,0 +1,109 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { SelectionPayload } from '../../src/shared/types';
+import { DEFAULT_CONFIG } from '../config';
+import { resolveSelection } from '.';
+import { capConfidence, confidenceForScore, normalizeScore, scored, scoreSignals } from './scoring';
+import { createSourceIndex } from './sourceIndex';
+
+test('maps scores to confidence levels at the thresholds', () => {
+  expect(confidenceForScore(0.8)).toBe('high');
+  expect(confidenceForScore(0.79)).toBe('medium');
+  expect(confidenceForScore(0.5)).toBe('medium');
+  expect(confidenceForScore(0.49)).toBe('low');
+  expect(confidenceForScore(0)).toBe('low');
+});
+
+test('sums signal weights, clamped to 0..1 and rounded', () => {
+  expect(scoreSignals([0.5, 0.1, 0.1, 0.1].map((weight) => ({ label: '', weight })))).toBe(0.8);
+  expect(scoreSignals([{ label: '', weight: 0.9 }, { label: '', weight: 0.3 }])).toBe(1);
+  expect(scoreSignals([{ label: '', weight: 0.2 }, { label: '', weight: -0.5 }])).toBe(0);
+  expect(scoreSignals([])).toBe(0);
+});
+
+test('caps a result at a level with a signal saying why', () => {
+  const high = { ...scored([{ label: 'unique', weight: 0.9 }]), verified: true, filePath: 'a.tsx' };
+
+  expect(capConfidence(high, 'medium', 'ancestor')).toMatchObject({ confidence: 'medium', score: 0.79 });
+  expect(capConfidence(high, 'low', 'ancestor')).toMatchObject({ confidence: 'low', score: 0.49 });
+
+  const low = { ...scored([{ label: 'weak', weight: 0.2 }]), verified: false, filePath: 'a.tsx' };
+  expect(capConfidence(low, 'medium', 'ancestor').score).toBe(0.2);
+  expect(capConfidence(low, 'medium', 'ancestor').signals?.at(-1)).toEqual({ label: 'ancestor', weight: 0 });
+});
+
+test('scores custom resolver results that only report a level', () => {
+  expect(normalizeScore({ confidence: 'medium', verified: false, filePath: 'a.tsx' }, 'custom')).toMatchObject({
+    confidence: 'medium',
+    score: 0.65,
+    signals: [{ resolver: 'custom', label: 'reported medium confidence', weight: 0.65 }],
+  });
+  expect(normalizeScore({ confidence: 'low', score: 0.85, verified: false, filePath: 'a.tsx' }, 'custom')).toMatchObject({
+    confidence: 'high',
+    score: 0.85,
+  });
+});
+
+describe('merging resolver results', () => {
+  let cwd: string;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    cwd = await mkdtemp(join(tmpdir(), 'ui-agent-scoring-'));
+    await mkdir(join(cwd, 'src'));
+    await writeFile(
+      join(cwd, 'src/Toolbar.tsx'),
+      `export const Toolbar = () => (
+  <div className="toolbar">
+    <button className="btn-save">Save changes</button>
+    <span className="hint">Saved automatically</span>
+  </div>
+);
+`
+    );
+  });
+
+  afterAll(async () => {
+    await rm(cwd, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  const payload = (overrides: Partial<SelectionPayload>): SelectionPayload => ({
+    pageUrl: '/',
+    selector: 'button',
+    testId: null,
+    domOuterHtml: '<button class="btn-save">Save changes</button>',
+    textSnippet: 'Save changes',
+    classes: ['btn-save'],
+    ...overrides,
+  });
+
+  test('raises a result for every other resolver pointing at the same line', async () => {
+    const config = { ...DEFAULT_CONFIG, resolvers: ['text', 'css'] };
+    const index = await createSourceIndex(cwd, config);
+
+    const result = await resolveSelection(payload({}), { cwd, index, config });
+
+    expect(result).toMatchObject({ filePath: 'src/Toolbar.tsx', lineNumber: 3, confidence: 'medium', score: 0.7 });
+    expect(result.signals?.at(-1)).toEqual({ label: 'css resolver agrees', weight: 0.1 });
+  });
+
+  test('keeps the best score when the resolvers disagree', async () => {
+    const config = { ...DEFAULT_CONFIG, resolvers: ['css', 'text'] };
+    const index = await createSourceIndex(cwd, config);
+
+    // The text is only on the span, the class only on the button
+    const result = await resolveSelection(
+      payload({
+        domOuterHtml: '<span class="btn-save">Saved automatically</span>',
+        textSnippet: 'Saved automatically',
+      }),
+      { cwd, index, config }
+    );
+
+    expect(result).toMatchObject({ lineNumber: 4, score: 0.6 });
+    expect(result.signals?.some((signal) => signal.label.endsWith('agrees'))).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import type { ConfidenceSignal } from '../../src/shared/types';
+import type { ResolutionResult } from './types';
+
+export type Confidence = ResolutionResult['confidence'];
+
+/**
+ * Lowest score of each confidence level. The levels are 0.3 apart (low is below 0.5),
+ * so a weight of -0.3 drops a score by exactly one level.
+ */
+export const HIGH_CONFIDENCE_SCORE = 0.8;
+export const MEDIUM_CONFIDENCE_SCORE = 0.5;
+
+/**
+ * Score a custom resolver's result is given when it only reports a level.
+ */
+const LEVEL_SCORES: Record<Confidence, number> = { high: 0.9, medium: 0.65, low: 0.3 };
+
+export function confidenceForScore(score: number): Confidence {
+  if (score >= HIGH_CONFIDENCE_SCORE) return 'high';
+  if (score >= MEDIUM_CONFIDENCE_SCORE) return 'medium';
+  return 'low';
+}
+
+/**
+ * Sum of the signals' weights, clamped to 0..1 and rounded to two decimals
+ * (so that 0.5 + 0.1 + 0.1 + 0.1 is 0.8).
+ */
+export function scoreSignals(signals: ConfidenceSignal[]): number {
+  const sum = signals.reduce((total, signal) => total + signal.weight, 0);
+  return Math.round(Math.min(1, Math.max(0, sum)) * 100) / 100;
+}
+
+/**
+ * The score, signals and confidence level of a result, from its signals.
+ */
+export function scored(signals: ConfidenceSignal[]): Pick<ResolutionResult, 'confidence' | 'score' | 'signals'> {
+  const score = scoreSignals(signals);
+  return { confidence: confidenceForScore(score), score, signals };
+}
+
+/**
+ * Add signals to a result and score it again.
+ */
+export function withSignals(result: ResolutionResult, ...signals: ConfidenceSignal[]): ResolutionResult {
+  return { ...result, ...scored([...(result.signals ?? []), ...signals]) };
+}
+
+/**
+ * Lower a result to at most the given level, with a signal saying why.
+ * Results already at or below it get the signal at weight 0.
+ */
+export function capConfidence(result: ResolutionResult, level: 'medium' | 'low', label: string): ResolutionResult {
+  const max = (level === 'medium' ? HIGH_CONFIDENCE_SCORE : MEDIUM_CONFIDENCE_SCORE) - 0.01;
+  const score = result.score ?? scoreSignals(result.signals ?? []);
+  const weight = Math.round(Math.min(0, max - score) * 100) / 100;
+  return withSignals(result, { label, weight });
+}
+
+/**
+ * Make sure a result has a score and signals, for custom resolvers that only set a
+ * level (or only a score), and tag untagged signals with the resolver's name.
+ */
+export function normalizeScore(result: ResolutionResult, resolver: string): ResolutionResult {
+  const signals = result.signals?.map((signal) => (signal.resolver ? signal : { ...signal, resolver }));
+  if (signals) {
+    return result.score === undefined ? { ...result, ...scored(signals) } : { ...result, signals };
+  }
+
+  const reported: ConfidenceSignal =
+    result.score === undefined
+      ? { resolver, label: `reported ${result.confidence} confidence`, weight: LEVEL_SCORES[result.confidence] }
+      : { resolver, label: 'reported score', weight: result.score };
+  return { ...result, ...scored([reported]) };
+}
@@ -0,0 +1,56 @@
+import type { ResolverFn } from './types';
+import { elementAt } from './ancestors';
+import { extractCodeSnippet } from './codeSnippet';
+import { tagNameFromHtml } from './cssResolver';
+import { scored } from './scoring';
+import { resolveProjectPath } from '../security';
+
+/**
+ * Source attribute resolver - reads the location the dev-only transform stamped on the
+ * clicked element (`data-ui-agent-src`, see server/sourceAttributes.ts), so there is
+ * nothing to guess.
+ *
+ * The stamp is as old as the page, so it is checked against the source index:
+ * - high, verified: a JSX element with the clicked tag starts at the stamped position
+ * - medium: the file changed since, and the position may be off by a few lines
+ * Returns null if the element has no stamp, or it points outside the project or to a
+ * file the index doesn't have (deleted or ignored since), so the next resolver runs.
+ */
+export const sourceAttributeResolver: ResolverFn = async (payload, options) => {
+  const location = payload.sourceLocation;
+  if (!location?.lineNumber || !resolveProjectPath(options.cwd, location.filePath)) {
+    return null;
+  }
+
+  const { filePath, lineNumber, columnNumber } = location;
+  const file = options.index.getFile(filePath);
+  if (!file) {
+    options.trace?.step('source attribute', `stamped file ${filePath} is not in the source index`);
+    return null;
+  }
+
+  const element = elementAt(file, lineNumber, columnNumber);
+  const tagName = tagNameFromHtml(payload.domOuterHtml);
+  const matches = element !== undefined && (tagName === null || element.tagName === tagName);
+  options.trace?.step(
+    'source attribute',
+    `<${tagName ?? 'element'}> stamped at ${filePath}:${lineNumber}:${columnNumber ?? 1}`,
+    matches ? [{ ...element, filePath }] : []
+  );
+
+  return {
+    ...scored([
+      { label: `stamped by the build at ${filePath}:${lineNumber}:${columnNumber ?? 1}`, weight: 0.9 },
+      matches
+        ? { label: `<${element.tagName}> still written there`, weight: 0.1 }
+        : { label: 'no matching JSX element there, the file changed since the page was built', weight: -0.3 },
+    ]),
+    verified: matches,
+    filePath,
+    componentName: element?.componentName,
+    lineNumber,
+    columnNumber,
+    codeSnippet: await extractCodeSnippet(filePath, lineNumber, options.index),
+    source: 'heuristic',
+  };
+};
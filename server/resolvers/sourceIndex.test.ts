@@ -0,0 +1,127 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rename, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_CONFIG } from '../config';
+import { createSourceIndex, type SourceIndex } from './sourceIndex';
+
+let cwd: string;
+let index: SourceIndex;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-index-'));
+  await mkdir(join(cwd, 'src/components'), { recursive: true });
+  await writeFile(join(cwd, 'src/ids.ts'), `export const SAVE = 'save-button';\n`);
+  await writeFile(
+    join(cwd, 'src/components/Toolbar.tsx'),
+    `import { SAVE } from '../ids';\nexport const Toolbar = () => <button data-testid={SAVE} className="primary" />;\n`
+  );
+  index = await createSourceIndex(cwd, DEFAULT_CONFIG);
+});
+
+afterEach(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+const testIdFiles = (value: string) =>
+  (index.lookups().exactTestIds.get(value) ?? []).map((entry) => entry.file.filePath).sort();
+
+test('indexes source files and their lookups at startup', () => {
+  expect([...index.project.files.keys()].sort()).toEqual(['src/components/Toolbar.tsx', 'src/ids.ts']);
+  expect(testIdFiles('save-button')).toEqual(['src/components/Toolbar.tsx']);
+  expect(index.version('src/ids.ts')).toBe(0);
+  expect(index.hasPendingUpdates()).toBe(false);
+});
+
+test('picks up created, edited and deleted files', async () => {
+  await writeFile(join(cwd, 'src/Menu.tsx'), `export const Menu = () => <nav data-testid="menu" />;\n`);
+  await index.update('src/Menu.tsx');
+  expect(index.getFile('src/Menu.tsx')?.jsxElements).toHaveLength(1);
+  expect(testIdFiles('menu')).toEqual(['src/Menu.tsx']);
+  const created = index.version('src/Menu.tsx');
+  expect(created).toBeGreaterThan(0);
+
+  await writeFile(join(cwd, 'src/Menu.tsx'), `export const Menu = () => <nav data-testid="main-menu" />;\n`);
+  await index.update('src/Menu.tsx');
+  expect(testIdFiles('menu')).toEqual([]);
+  expect(testIdFiles('main-menu')).toEqual(['src/Menu.tsx']);
+  expect(index.version('src/Menu.tsx')).toBeGreaterThan(created);
+
+  await unlink(join(cwd, 'src/Menu.tsx'));
+  await index.update('src/Menu.tsx');
+  expect(index.getFile('src/Menu.tsx')).toBeUndefined();
+  expect(testIdFiles('main-menu')).toEqual([]);
+  expect(index.version('src/ids.ts')).toBe(0);
+});
+
+test('picks up created, renamed and deleted directories', async () => {
+  await mkdir(join(cwd, 'src/pages'));
+  await writeFile(join(cwd, 'src/pages/Home.tsx'), `export const Home = () => <main data-testid="home" />;\n`);
+  await index.update('src/pages');
+  expect(index.getFile('src/pages/Home.tsx')).toBeDefined();
+  expect(testIdFiles('home')).toEqual(['src/pages/Home.tsx']);
+
+  await rename(join(cwd, 'src/pages'), join(cwd, 'src/views'));
+  await index.update('src/pages');
+  await index.update('src/views');
+  expect(index.getFile('src/pages/Home.tsx')).toBeUndefined();
+  expect(testIdFiles('home')).toEqual(['src/views/Home.tsx']);
+
+  await rm(join(cwd, 'src/views'), { recursive: true });
+  const before = index.version('src/views/Home.tsx');
+  await index.update('src/views');
+  expect(index.getFile('src/views/Home.tsx')).toBeUndefined();
+  expect(index.version('src/views/Home.tsx')).toBeGreaterThan(before);
+  expect(testIdFiles('home')).toEqual([]);
+});
+
+test('re-evaluates importers when a constant they import changes', async () => {
+  await writeFile(join(cwd, 'src/ids.ts'), `export const SAVE = 'submit-button';\n`);
+  await index.update('src/ids.ts');
+
+  expect(testIdFiles('save-button')).toEqual([]);
+  expect(testIdFiles('submit-button')).toEqual(['src/components/Toolbar.tsx']);
+  expect(index.version('src/components/Toolbar.tsx')).toBe(index.version('src/ids.ts'));
+});
+
+test('re-evaluates importers when the module they import is created', async () => {
+  await writeFile(
+    join(cwd, 'src/components/Dialog.tsx'),
+    `import { CLOSE } from './dialogIds';\nexport const Dialog = () => <button data-testid={CLOSE} />;\n`
+  );
+  await index.update('src/components/Dialog.tsx');
+  expect(testIdFiles('close-dialog')).toEqual([]);
+
+  await writeFile(join(cwd, 'src/components/dialogIds.ts'), `export const CLOSE = 'close-dialog';\n`);
+  await index.update('src/components/dialogIds.ts');
+  expect(testIdFiles('close-dialog')).toEqual(['src/components/Dialog.tsx']);
+});
+
+test('bumps lookupsVersion on every change and reuses the lookups in between', async () => {
+  const lookups = index.lookups();
+  const version = index.lookupsVersion();
+  expect(index.lookups()).toBe(lookups);
+
+  await index.update('src/ids.ts');
+  expect(index.lookupsVersion()).toBeGreaterThan(version);
+  expect(index.lookups()).not.toBe(lookups);
+});
+
+test('keeps up with file changes while watching', async () => {
+  const stop = index.watch();
+  try {
+    await writeFile(
+      join(cwd, 'src/components/Footer.tsx'),
+      `export const Footer = () => <footer data-testid="footer" />;\n`
+    );
+
+    for (let i = 0; i < 50 && (index.hasPendingUpdates() || !index.getFile('src/components/Footer.tsx')); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    expect(testIdFiles('footer')).toEqual(['src/components/Footer.tsx']);
+  } finally {
+    stop();
+  }
+});
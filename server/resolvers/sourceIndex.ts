@@ -0,0 +1,690 @@
+import { statSync, watch, type FSWatcher } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { UiAgentConfig } from '../config';
+import { resolveProjectPath } from '../security';
+import { parseSourceFile, type JsxElementFact, type ParsedSourceFile, type ValueExpr } from './sourceParser';
+import {
+  getSourceFiles,
+  isSourceFile,
+  loadSourceProject,
+  mayContainSources,
+  moduleCandidates,
+  type SourceProject,
+} from './sourceProject';
+import {
+  evaluateObjectProperty,
+  evaluateStringPatterns,
+  hasLiteralContent,
+  isExactPattern,
+  type StringPattern,
+} from './staticValues';
+
+/**
+ * Accessibility and form attributes that often identify an element when it has no test ID.
+ */
+export const ACCESSIBLE_ATTRIBUTES = ['aria-label', 'role', 'name', 'placeholder', 'alt'];
+
+/**
+ * How long to wait for more file events before re-parsing.
+ */
+const WATCH_DEBOUNCE_MS = 100;
+
+/**
+ * A JSX element together with the file it lives in.
+ */
+export interface IndexedElement {
+  file: ParsedSourceFile;
+  element: JsxElementFact;
+}
+
+/**
+ * A JSX attribute position together with its element and file.
+ */
+export interface IndexedAttribute extends IndexedElement {
+  lineNumber: number;
+  columnNumber: number;
+}
+
+/**
+ * A test ID attribute on a JSX element, with its statically evaluated values.
+ */
+export interface IndexedTestId extends IndexedElement {
+  attributeName: string;
+  /** Attribute value, or the spread expression when `viaSpread` is set */
+  value: ValueExpr;
+  /** True if the test ID comes from a `{...spread}` object */
+  viaSpread: boolean;
+  lineNumber: number;
+  columnNumber: number;
+  patterns: StringPattern[];
+}
+
+/**
+ * An accessibility or form attribute on a JSX element, with its statically evaluated values.
+ */
+export interface IndexedAccessibleAttribute extends IndexedAttribute {
+  attributeName: string;
+  patterns: StringPattern[];
+}
+
+/**
+ * A top-level string constant (`const X = 'value'` or `Namespace.X: 'value'`).
+ */
+export interface IndexedConstant {
+  filePath: string;
+  name: string;
+  lineNumber: number;
+}
+
+/**
+ * A function whose return value is a partially known string, e.g.
+ * `item: (name) => \`item-${name}\``.
+ */
+export interface IndexedTestIdFunction {
+  filePath: string;
+  name: string;
+  lineNumber: number;
+  patterns: StringPattern[];
+}
+
+/**
+ * A static text child of a JSX element.
+ */
+export interface IndexedText extends IndexedElement {
+  /** Text with whitespace collapsed */
+  text: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+/**
+ * The rendered text of a JSX element, as patterns with unknown parts for
+ * interpolations and child elements.
+ */
+export interface IndexedElementText extends IndexedElement {
+  patterns: StringPattern[];
+}
+
+/**
+ * A string literal anywhere in a source file.
+ */
+export interface IndexedStringLiteral {
+  file: ParsedSourceFile;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+/**
+ * Lookup tables derived from the parsed files.
+ * Entries are kept per file and merged lazily the first time the tables are queried after
+ * a file change; only the changed files and the files importing them are re-evaluated.
+ */
+export interface SourceLookups {
+  /** Every test ID attribute in the project */
+  testIds: IndexedTestId[];
+  /** Test ID attributes with a fully static value, by value */
+  exactTestIds: Map<string, IndexedTestId[]>;
+  /** String constants, by value */
+  constants: Map<string, IndexedConstant[]>;
+  testIdFunctions: IndexedTestIdFunction[];
+  /** className attributes by the class names they may produce */
+  classNames: Map<string, IndexedAttribute[]>;
+  /** Every class name each element may produce */
+  elementClassNames: Map<JsxElementFact, string[]>;
+  /** Every accessibility/form attribute in the project (see ACCESSIBLE_ATTRIBUTES) */
+  accessibleAttributes: IndexedAccessibleAttribute[];
+  texts: IndexedText[];
+  /** Text content of every element that renders some static text */
+  elementTexts: IndexedElementText[];
+  /** String literals, by value with whitespace collapsed */
+  stringLiterals: Map<string, IndexedStringLiteral[]>;
+}
+
+/**
+ * In-memory index of the project's source files.
+ * Built once at startup and kept up to date by a file watcher, so resolvers never hit the disk.
+ */
+export interface SourceIndex {
+  cwd: string;
+  project: SourceProject;
+  getFile(filePath: string): ParsedSourceFile | undefined;
+  /**
+   * Lines of a file, from the index if it is a source file, otherwise read from disk.
+   * Undefined for missing files and paths outside the project root.
+   */
+  readLines(filePath: string): Promise<string[] | undefined>;
+  lookups(): SourceLookups;
+  /**
+   * Bumped every time update() sees the file (or a directory containing it) change, or a
+   * file it imports from, directly or not; 0 for files that haven't changed since the index
+   * was built.
+   */
+  version(filePath: string): number;
+  /** Bumped every time update() sees any file change: lookups() depends on all of them */
+  lookupsVersion(): number;
+  /** True while file changes are waiting to be, or being, applied to the index */
+  hasPendingUpdates(): boolean;
+  /** Re-parse (or drop) a single file */
+  update(filePath: string): Promise<void>;
+  /** Start watching cwd for changes. Returns a function that stops watching. */
+  watch(): () => void;
+}
+
+function addTo<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/**
+ * Split evaluated className patterns into the class names that are certainly present.
+ * Tokens touching an unknown hole (e.g. `btn-${size}`) are incomplete and skipped.
+ */
+export function classNamesFromPatterns(patterns: StringPattern[]): string[] {
+  const names = new Set<string>();
+
+  for (const pattern of patterns) {
+    pattern.segments.forEach((segment, index) => {
+      const tokens = segment.split(/\s+/);
+      const touchesHoleBefore = index > 0 && !/^\s/.test(segment);
+      const touchesHoleAfter = index < pattern.segments.length - 1 && !/\s$/.test(segment);
+
+      tokens.forEach((token, tokenIndex) => {
+        if (!token) return;
+        if (tokenIndex === 0 && touchesHoleBefore) return;
+        if (tokenIndex === tokens.length - 1 && touchesHoleAfter) return;
+        names.add(token);
+      });
+    });
+  }
+
+  return [...names];
+}
+
+/**
+ * Helpers that join class names: clsx('a', cond && 'b', { c: cond }, ['d']).
+ * They usually come from packages, so they are recognised by name rather than followed.
+ */
+const CLASS_JOIN_FUNCTIONS = ['clsx', 'classnames', 'classNames', 'cx', 'cn', 'twMerge', 'twJoin'];
+
+function calleeName(callee: ValueExpr): string | null {
+  if (callee.kind === 'identifier') return callee.name;
+  if (callee.kind === 'member') return callee.property;
+  return null;
+}
+
+/**
+ * Collect the class names a className expression may produce, including
+ * conditional branches, template literals and clsx-style helper calls.
+ */
+export function classNamesFromExpr(
+  project: SourceProject,
+  expr: ValueExpr,
+  file: ParsedSourceFile
+): string[] {
+  const names = new Set<string>();
+
+  const collect = (value: ValueExpr) => {
+    switch (value.kind) {
+      case 'call': {
+        const name = calleeName(value.callee);
+        if (name && CLASS_JOIN_FUNCTIONS.includes(name)) {
+          value.args.forEach(collect);
+          return;
+        }
+        break;
+      }
+      case 'conditional':
+        value.options.forEach(collect);
+        return;
+      case 'array':
+        value.elements.forEach(collect);
+        return;
+      case 'object':
+        // clsx({ active: isActive }): keys are class names
+        Object.keys(value.properties).forEach((key) => key.split(/\s+/).forEach((k) => k && names.add(k)));
+        return;
+    }
+    classNamesFromPatterns(evaluateStringPatterns(project, value, file)).forEach((n) => names.add(n));
+  };
+
+  collect(expr);
+  return [...names];
+}
+
+/**
+ * A function looks like a test ID factory if it returns a string with known parts around unknown ones.
+ */
+function isTestIdFunctionBody(patterns: StringPattern[]): boolean {
+  return patterns.some((p) => !isExactPattern(p) && hasLiteralContent(p));
+}
+
+function emptyLookups(): SourceLookups {
+  return {
+    testIds: [],
+    exactTestIds: new Map(),
+    constants: new Map(),
+    testIdFunctions: [],
+    classNames: new Map(),
+    elementClassNames: new Map(),
+    accessibleAttributes: [],
+    texts: [],
+    elementTexts: [],
+    stringLiterals: new Map(),
+  };
+}
+
+/**
+ * Lookup entries for a single file. Values are evaluated across imports, so the
+ * entries also depend on the files it imports (see importersOf).
+ */
+function buildFileLookups(project: SourceProject, file: ParsedSourceFile, testIdAttributes: string[]): SourceLookups {
+  const lookups = emptyLookups();
+
+  for (const [name, declaration] of file.declarations) {
+    const { value } = declaration;
+
+    if (value.kind === 'string') {
+      addTo(lookups.constants, value.value, { filePath: file.filePath, name, lineNumber: declaration.lineNumber });
+    } else if (value.kind === 'object') {
+      for (const [property, propertyValue] of Object.entries(value.properties)) {
+        if (propertyValue.kind === 'string') {
+          addTo(lookups.constants, propertyValue.value, {
+            filePath: file.filePath,
+            name: `${name}.${property}`,
+            lineNumber: declaration.lineNumber,
+          });
+        } else if (propertyValue.kind === 'function') {
+          const patterns = evaluateStringPatterns(project, propertyValue.body, file);
+          if (isTestIdFunctionBody(patterns)) {
+            lookups.testIdFunctions.push({
+              filePath: file.filePath,
+              name: `${name}.${property}`,
+              lineNumber: declaration.lineNumber,
+              patterns,
+            });
+          }
+        }
+      }
+    } else if (value.kind === 'function') {
+      const patterns = evaluateStringPatterns(project, value.body, file);
+      if (isTestIdFunctionBody(patterns)) {
+        lookups.testIdFunctions.push({ filePath: file.filePath, name, lineNumber: declaration.lineNumber, patterns });
+      }
+    }
+  }
+
+  const addTestId = (entry: IndexedTestId) => {
+    lookups.testIds.push(entry);
+    const exactValues = new Set(entry.patterns.filter(isExactPattern).map((p) => p.segments[0]));
+    for (const value of exactValues) {
+      addTo(lookups.exactTestIds, value, entry);
+    }
+  };
+
+  for (const element of file.jsxElements) {
+    for (const spread of element.spreads) {
+      for (const attributeName of ACCESSIBLE_ATTRIBUTES) {
+        const patterns = evaluateObjectProperty(project, spread.value, file, attributeName);
+        if (!patterns) continue;
+        lookups.accessibleAttributes.push({
+          file,
+          element,
+          attributeName,
+          lineNumber: spread.lineNumber,
+          columnNumber: spread.columnNumber,
+          patterns,
+        });
+      }
+
+      for (const attributeName of testIdAttributes) {
+        const patterns = evaluateObjectProperty(project, spread.value, file, attributeName);
+        if (!patterns) continue;
+        addTestId({
+          file,
+          element,
+          attributeName,
+          value: spread.value,
+          viaSpread: true,
+          lineNumber: spread.lineNumber,
+          columnNumber: spread.columnNumber,
+          patterns,
+        });
+      }
+    }
+
+    for (const attribute of element.attributes) {
+      if (testIdAttributes.includes(attribute.name)) {
+        addTestId({
+          file,
+          element,
+          attributeName: attribute.name,
+          value: attribute.value,
+          viaSpread: false,
+          lineNumber: attribute.lineNumber,
+          columnNumber: attribute.columnNumber,
+          patterns: evaluateStringPatterns(project, attribute.value, file),
+        });
+      } else if (ACCESSIBLE_ATTRIBUTES.includes(attribute.name)) {
+        lookups.accessibleAttributes.push({
+          file,
+          element,
+          attributeName: attribute.name,
+          lineNumber: attribute.lineNumber,
+          columnNumber: attribute.columnNumber,
+          patterns: evaluateStringPatterns(project, attribute.value, file),
+        });
+      } else if (attribute.name === 'className' || attribute.name === 'class') {
+        const names = classNamesFromExpr(project, attribute.value, file);
+        lookups.elementClassNames.set(element, names);
+        for (const className of names) {
+          addTo(lookups.classNames, className, {
+            file,
+            element,
+            lineNumber: attribute.lineNumber,
+            columnNumber: attribute.columnNumber,
+          });
+        }
+      }
+    }
+
+    for (const text of element.texts) {
+      for (const pattern of evaluateStringPatterns(project, text.value, file)) {
+        if (!isExactPattern(pattern) || !pattern.segments[0].trim()) continue;
+        lookups.texts.push({
+          file,
+          element,
+          text: pattern.segments[0].replace(/\s+/g, ' ').trim(),
+          lineNumber: text.lineNumber,
+          columnNumber: text.columnNumber,
+        });
+      }
+    }
+
+    const textPatterns = evaluateStringPatterns(project, element.textContent, file);
+    if (textPatterns.some((p) => p.segments.some((segment) => segment.trim()))) {
+      lookups.elementTexts.push({ file, element, patterns: textPatterns });
+    }
+  }
+
+  for (const literal of file.stringLiterals) {
+    const value = literal.value.replace(/\s+/g, ' ').trim();
+    if (!value) continue;
+    addTo(lookups.stringLiterals, value, {
+      file,
+      lineNumber: literal.lineNumber,
+      columnNumber: literal.columnNumber,
+    });
+  }
+
+  return lookups;
+}
+
+function mergeInto<K, V>(target: Map<K, V[]>, source: Map<K, V[]>): void {
+  for (const [key, values] of source) {
+    const list = target.get(key);
+    if (list) {
+      list.push(...values);
+    } else {
+      target.set(key, [...values]);
+    }
+  }
+}
+
+function mergeLookups(parts: SourceLookups[]): SourceLookups {
+  const lookups = emptyLookups();
+  for (const part of parts) {
+    lookups.testIds.push(...part.testIds);
+    mergeInto(lookups.exactTestIds, part.exactTestIds);
+    mergeInto(lookups.constants, part.constants);
+    lookups.testIdFunctions.push(...part.testIdFunctions);
+    mergeInto(lookups.classNames, part.classNames);
+    part.elementClassNames.forEach((names, element) => lookups.elementClassNames.set(element, names));
+    lookups.accessibleAttributes.push(...part.accessibleAttributes);
+    lookups.texts.push(...part.texts);
+    lookups.elementTexts.push(...part.elementTexts);
+    mergeInto(lookups.stringLiterals, part.stringLiterals);
+  }
+  return lookups;
+}
+
+/**
+ * The given files plus every file that imports or re-exports one of them, directly or
+ * through other files. Specifiers are matched against every path they may resolve to,
+ * so importers of created and deleted files are found too.
+ */
+function importersOf(project: SourceProject, files: Set<string>): Set<string> {
+  const importers = new Map<string, string[]>();
+  for (const file of project.files.values()) {
+    const sources = new Set([
+      ...[...file.imports.values()].map((binding) => binding.source),
+      ...file.reExports.map((reExport) => reExport.source),
+    ]);
+    for (const source of sources) {
+      for (const candidate of moduleCandidates(file.filePath, source)) {
+        addTo(importers, candidate, file.filePath);
+      }
+    }
+  }
+
+  const affected = new Set(files);
+  const queue = [...files];
+  while (queue.length > 0) {
+    for (const importer of importers.get(queue.pop() as string) ?? []) {
+      if (affected.has(importer)) continue;
+      affected.add(importer);
+      queue.push(importer);
+    }
+  }
+  return affected;
+}
+
+/**
+ * Build the source index for cwd.
+ *
+ * @param cwd - Project root
+ * @param config - Which files to index and which attributes carry test IDs
+ */
+export async function createSourceIndex(
+  cwd: string,
+  config: Pick<UiAgentConfig, 'sourceRoots' | 'ignore' | 'testIdAttributes'>
+): Promise<SourceIndex> {
+  const project = await loadSourceProject(cwd, config);
+  /** Lookup entries per file, merged into cachedLookups */
+  const fileLookups = new Map<string, SourceLookups>();
+  /** Files changed since the lookups were last merged */
+  const changedFiles = new Set<string>();
+  let cachedLookups: SourceLookups | null = null;
+  const versions = new Map<string, number>();
+  let lastVersion = 0;
+  /** Changes the watcher has seen but not applied yet */
+  const pending = new Set<string>();
+  let flushing = 0;
+  let updating = 0;
+
+  const parseInto = async (file: string) => {
+    try {
+      const content = await readFile(join(cwd, file), 'utf-8');
+      project.files.set(file, parseSourceFile(file, content));
+    } catch {
+      // Deleted or unreadable
+      project.files.delete(file);
+    }
+  };
+
+  const update = async (filePath: string) => {
+    const file = filePath.replace(/\\/g, '/');
+    const changed = [file];
+    updating++;
+    try {
+      if (await isSourceFile(file, cwd, config)) {
+        await parseInto(file);
+        return;
+      }
+
+      // Not a source file: it may be a directory that was removed, renamed or created
+      project.files.delete(file);
+      for (const indexed of [...project.files.keys()]) {
+        if (!indexed.startsWith(`${file}/`)) continue;
+        project.files.delete(indexed);
+        changed.push(indexed);
+      }
+      for (const added of await getSourceFiles(cwd, config, file)) {
+        changed.push(added);
+        await parseInto(added);
+      }
+    } finally {
+      // Only once the new content is in, so whatever read the files meanwhile counts as stale.
+      // Importers evaluate values from the changed files, so they count as changed too.
+      changed.forEach((changedFile) => changedFiles.add(changedFile));
+      lastVersion++;
+      for (const affected of importersOf(project, new Set(changed))) {
+        versions.set(affected, lastVersion);
+      }
+      cachedLookups = null;
+      updating--;
+    }
+  };
+
+  const watchSources = () => {
+    let timer: NodeJS.Timeout | null = null;
+
+    const flush = async () => {
+      timer = null;
+      const files = [...pending];
+      pending.clear();
+      flushing++;
+      for (const file of files) {
+        // A failing file must not stop the others (or reject inside the timer)
+        try {
+          await update(file);
+        } catch (error) {
+          console.error(`[ui-agent] Could not update source index for ${file}:`, error);
+        }
+      }
+      flushing--;
+      console.log(`[ui-agent] Source index updated (${files.length} file(s))`);
+    };
+
+    const schedule = (filePath: string) => {
+      pending.add(filePath);
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, WATCH_DEBOUNCE_MS);
+    };
+
+    // Watch only the top-level directories that contain sources (recursive watches
+    // over node_modules are slow to set up), plus cwd itself for root-level files
+    // and for top-level directories created or removed later.
+    const rootWatchers = new Map<string, FSWatcher>();
+
+    const watchRoot = (root: string) => {
+      const watcher = watch(join(cwd, root), { recursive: true }, (_event, filename) => {
+        if (filename) schedule(`${root}/${filename.toString()}`);
+      });
+      // Emitted e.g. when the directory is removed
+      watcher.on('error', () => {
+        watcher.close();
+        if (rootWatchers.get(root) === watcher) rootWatchers.delete(root);
+      });
+      rootWatchers.set(root, watcher);
+    };
+
+    const syncRoot = (name: string) => {
+      const isDirectory = statSync(join(cwd, name), { throwIfNoEntry: false })?.isDirectory() ?? false;
+      const watcher = rootWatchers.get(name);
+      if (!isDirectory && watcher) {
+        watcher.close();
+        rootWatchers.delete(name);
+      } else if (isDirectory && !watcher && mayContainSources(name, config)) {
+        try {
+          watchRoot(name);
+        } catch (error) {
+          console.warn(`[ui-agent] Could not watch ${name}, its changes will not be indexed:`, error);
+        }
+      }
+    };
+
+    let cwdWatcher: FSWatcher | undefined;
+    try {
+      cwdWatcher = watch(cwd, (_event, filename) => {
+        if (!filename) return;
+        schedule(filename.toString());
+        syncRoot(filename.toString());
+      });
+      for (const filePath of project.files.keys()) {
+        const slash = filePath.indexOf('/');
+        const root = filePath.slice(0, slash);
+        if (slash > 0 && !rootWatchers.has(root)) watchRoot(root);
+      }
+    } catch (error) {
+      cwdWatcher?.close();
+      rootWatchers.forEach((w) => w.close());
+      console.warn('[ui-agent] Source index watcher unavailable, index will not update:', error);
+      return () => undefined;
+    }
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      pending.clear();
+      cwdWatcher?.close();
+      rootWatchers.forEach((w) => w.close());
+      rootWatchers.clear();
+    };
+  };
+
+  const lookups = () => {
+    if (cachedLookups) return cachedLookups;
+
+    // Re-evaluate only the changed files and the files that read values from them
+    if (changedFiles.size > 0) {
+      importersOf(project, changedFiles).forEach((file) => fileLookups.delete(file));
+      changedFiles.clear();
+    }
+    for (const filePath of fileLookups.keys()) {
+      if (!project.files.has(filePath)) fileLookups.delete(filePath);
+    }
+
+    const parts: SourceLookups[] = [];
+    for (const file of project.files.values()) {
+      let part = fileLookups.get(file.filePath);
+      if (!part) {
+        part = buildFileLookups(project, file, config.testIdAttributes);
+        fileLookups.set(file.filePath, part);
+      }
+      parts.push(part);
+    }
+    cachedLookups = mergeLookups(parts);
+    return cachedLookups;
+  };
+
+  // Warm the lookups so the first click is as fast as the rest
+  lookups();
+  console.log(`[ui-agent] Source index built (${project.files.size} files)`);
+
+  return {
+    cwd,
+    project,
+    getFile: (filePath) => project.files.get(filePath),
+    readLines: async (filePath) => {
+      const indexed = project.files.get(filePath);
+      if (indexed) return indexed.lines;
+      const fullPath = resolveProjectPath(cwd, filePath);
+      if (!fullPath) return undefined;
+      try {
+        return (await readFile(fullPath, 'utf-8')).split('\n');
+      } catch {
+        return undefined;
+      }
+    },
+    lookups,
+    version: (filePath) => versions.get(filePath) ?? 0,
+    lookupsVersion: () => lastVersion,
+    hasPendingUpdates: () => pending.size > 0 || flushing > 0 || updating > 0,
+    update,
+    watch: watchSources,
+  };
+}
@@ -0,0 +1,536 @@
+import ts from 'typescript';
+
+/**
+ * Statically analysable shape of an expression.
+ * Only the forms that matter for locating elements are modelled, everything else is 'unknown'.
+ */
+export type ValueExpr =
+  | { kind: 'string'; value: string }
+  | { kind: 'concat'; parts: ValueExpr[] }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: ValueExpr; property: string }
+  | { kind: 'call'; callee: ValueExpr; args: ValueExpr[] }
+  | { kind: 'conditional'; options: ValueExpr[] }
+  | { kind: 'object'; properties: Record<string, ValueExpr>; spreads: ValueExpr[] }
+  | { kind: 'array'; elements: ValueExpr[] }
+  | { kind: 'function'; params: (string | null)[]; body: ValueExpr }
+  | { kind: 'unknown' };
+
+/**
+ * A named value declared in a file (const, function, object of constants, ...).
+ */
+export interface Declaration {
+  value: ValueExpr;
+  lineNumber: number;
+}
+
+/**
+ * An import binding: `import { imported as local } from 'source'`.
+ * `imported` is 'default' for default imports and '*' for namespace imports.
+ */
+export interface ImportBinding {
+  imported: string;
+  source: string;
+}
+
+/**
+ * A re-export: `export { imported as exported } from 'source'` or `export * from 'source'`.
+ */
+export interface ReExport {
+  exported: string;
+  imported: string;
+  source: string;
+}
+
+/**
+ * A JSX attribute with its statically analysable value.
+ */
+export interface JsxAttributeFact {
+  name: string;
+  value: ValueExpr;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+/**
+ * A `{...spread}` inside a JSX opening tag.
+ */
+export interface JsxSpreadFact {
+  value: ValueExpr;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+/**
+ * A text child of a JSX element: `<b>Text</b>` or `<b>{'Text'}</b>`.
+ * JSX text is stored with whitespace collapsed the way React renders it.
+ */
+export interface JsxTextFact {
+  value: ValueExpr;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+/**
+ * A JSX element (host element or component) found in a file.
+ */
+export interface JsxElementFact {
+  /** Tag as written in source (e.g., 'div', 'Button', 'Accordion.Item') */
+  tagName: string;
+  lineNumber: number;
+  columnNumber: number;
+  attributes: JsxAttributeFact[];
+  spreads: JsxSpreadFact[];
+  /** Text children, in source order */
+  texts: JsxTextFact[];
+  /**
+   * Rendered text of the element as a concatenation of its children:
+   * JSX text and expressions in order, with child elements as unknown parts.
+   */
+  textContent: ValueExpr;
+  /** Name of the enclosing function component, if any */
+  componentName?: string;
+  /** Nearest enclosing JSX element in the same file, if any */
+  parent?: JsxElementFact;
+}
+
+/**
+ * A string literal anywhere in a file (other than module specifiers).
+ */
+export interface StringLiteralFact {
+  value: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+/**
+ * Everything the resolvers need to know about a single source file.
+ */
+export interface ParsedSourceFile {
+  /** Path relative to project root, using forward slashes */
+  filePath: string;
+  lines: string[];
+  /** Top-level declarations by name */
+  declarations: Map<string, Declaration>;
+  /** Declarations inside functions (first one wins), used when no top-level one exists */
+  localDeclarations: Map<string, Declaration>;
+  /** Exported name -> local declaration name */
+  exports: Map<string, string>;
+  reExports: ReExport[];
+  /** Local name -> import binding */
+  imports: Map<string, ImportBinding>;
+  jsxElements: JsxElementFact[];
+  stringLiterals: StringLiteralFact[];
+}
+
+/** Synthetic local name used for `export default <expression>` */
+export const DEFAULT_EXPORT_LOCAL = '*default*';
+
+const UNKNOWN: ValueExpr = { kind: 'unknown' };
+
+function scriptKindFor(filePath: string): ts.ScriptKind {
+  if (filePath.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (filePath.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (filePath.endsWith('.js')) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node)
+    ? (ts.getModifiers(node) ?? []).some((m) => m.kind === kind)
+    : false;
+}
+
+function propertyNameText(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  if (ts.isComputedPropertyName(name) && ts.isStringLiteralLike(name.expression)) {
+    return name.expression.text;
+  }
+  return null;
+}
+
+/**
+ * Collect the expressions returned from a function body, without descending into nested functions.
+ */
+function collectReturns(body: ts.Node): ts.Expression[] {
+  const returns: ts.Expression[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionLike(node)) return;
+    if (ts.isReturnStatement(node) && node.expression) {
+      returns.push(node.expression);
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  ts.forEachChild(body, visit);
+  return returns;
+}
+
+function toFunctionExpr(
+  node: ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration | ts.MethodDeclaration
+): ValueExpr {
+  const params = node.parameters.map((p) => (ts.isIdentifier(p.name) ? p.name.text : null));
+
+  if (!node.body) {
+    return { kind: 'function', params, body: UNKNOWN };
+  }
+
+  if (!ts.isBlock(node.body)) {
+    return { kind: 'function', params, body: toValueExpr(node.body) };
+  }
+
+  const returns = collectReturns(node.body).map(toValueExpr);
+  const body: ValueExpr =
+    returns.length === 0 ? UNKNOWN : returns.length === 1 ? returns[0] : { kind: 'conditional', options: returns };
+
+  return { kind: 'function', params, body };
+}
+
+/**
+ * Convert an expression node to its ValueExpr shape.
+ */
+export function toValueExpr(node: ts.Expression): ValueExpr {
+  if (ts.isStringLiteralLike(node) || ts.isNumericLiteral(node)) {
+    return { kind: 'string', value: node.text };
+  }
+
+  if (ts.isTemplateExpression(node)) {
+    const parts: ValueExpr[] = [{ kind: 'string', value: node.head.text }];
+    for (const span of node.templateSpans) {
+      parts.push(toValueExpr(span.expression));
+      parts.push({ kind: 'string', value: span.literal.text });
+    }
+    return { kind: 'concat', parts };
+  }
+
+  if (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isTypeAssertionExpression(node)
+  ) {
+    return toValueExpr(node.expression);
+  }
+
+  if (ts.isIdentifier(node)) {
+    return { kind: 'identifier', name: node.text };
+  }
+
+  if (ts.isPropertyAccessExpression(node)) {
+    return { kind: 'member', object: toValueExpr(node.expression), property: node.name.text };
+  }
+
+  if (ts.isElementAccessExpression(node) && ts.isStringLiteralLike(node.argumentExpression)) {
+    return { kind: 'member', object: toValueExpr(node.expression), property: node.argumentExpression.text };
+  }
+
+  if (ts.isCallExpression(node)) {
+    return { kind: 'call', callee: toValueExpr(node.expression), args: node.arguments.map(toValueExpr) };
+  }
+
+  if (ts.isConditionalExpression(node)) {
+    return { kind: 'conditional', options: [toValueExpr(node.whenTrue), toValueExpr(node.whenFalse)] };
+  }
+
+  if (ts.isBinaryExpression(node)) {
+    switch (node.operatorToken.kind) {
+      case ts.SyntaxKind.PlusToken:
+        return { kind: 'concat', parts: [toValueExpr(node.left), toValueExpr(node.right)] };
+      case ts.SyntaxKind.AmpersandAmpersandToken:
+        return { kind: 'conditional', options: [toValueExpr(node.right)] };
+      case ts.SyntaxKind.BarBarToken:
+      case ts.SyntaxKind.QuestionQuestionToken:
+        return { kind: 'conditional', options: [toValueExpr(node.left), toValueExpr(node.right)] };
+      default:
+        return UNKNOWN;
+    }
+  }
+
+  if (ts.isObjectLiteralExpression(node)) {
+    const properties: Record<string, ValueExpr> = {};
+    const spreads: ValueExpr[] = [];
+
+    for (const prop of node.properties) {
+      if (ts.isPropertyAssignment(prop)) {
+        const name = propertyNameText(prop.name);
+        if (name !== null) properties[name] = toValueExpr(prop.initializer);
+      } else if (ts.isShorthandPropertyAssignment(prop)) {
+        properties[prop.name.text] = { kind: 'identifier', name: prop.name.text };
+      } else if (ts.isMethodDeclaration(prop)) {
+        const name = propertyNameText(prop.name);
+        if (name !== null) properties[name] = toFunctionExpr(prop);
+      } else if (ts.isSpreadAssignment(prop)) {
+        spreads.push(toValueExpr(prop.expression));
+      }
+    }
+
+    return { kind: 'object', properties, spreads };
+  }
+
+  if (ts.isArrayLiteralExpression(node)) {
+    return { kind: 'array', elements: node.elements.filter((e) => !ts.isSpreadElement(e)).map(toValueExpr) };
+  }
+
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+    return toFunctionExpr(node);
+  }
+
+  return UNKNOWN;
+}
+
+/**
+ * Text a JSX text node renders, following React's whitespace rules:
+ * lines are trimmed where they meet a line break and blank lines are dropped.
+ */
+function jsxTextValue(raw: string): string {
+  const lines = raw.replace(/\t/g, ' ').split(/\r\n|\n|\r/);
+
+  return lines
+    .map((line, index) => {
+      let value = line;
+      if (index > 0) value = value.replace(/^ +/, '');
+      if (index < lines.length - 1) value = value.replace(/ +$/, '');
+      return value;
+    })
+    .filter((line) => line.length > 0)
+    .join(' ');
+}
+
+/**
+ * Calls that wrap a component without changing what it renders.
+ */
+const COMPONENT_WRAPPERS = ['memo', 'forwardRef', 'React.memo', 'React.forwardRef'];
+
+function calleeText(expression: ts.Expression): string {
+  if (ts.isIdentifier(expression)) return expression.text;
+  if (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.expression)) {
+    return `${expression.expression.text}.${expression.name.text}`;
+  }
+  return '';
+}
+
+/**
+ * Name of the function component a node is declared in, if it looks like one (PascalCase).
+ */
+function componentNameFor(node: ts.Node): string | undefined {
+  if (ts.isFunctionDeclaration(node) && node.name) {
+    return node.name.text;
+  }
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+    // Wrapped components: const Button = memo(forwardRef((props, ref) => ...))
+    let parent = node.parent;
+    while (ts.isCallExpression(parent) && COMPONENT_WRAPPERS.includes(calleeText(parent.expression))) {
+      parent = parent.parent;
+    }
+    if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+      return parent.name.text;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse a source file and extract declarations, imports/exports and JSX elements.
+ *
+ * @param filePath - Path relative to project root
+ * @param content - File contents
+ */
+export function parseSourceFile(filePath: string, content: string): ParsedSourceFile {
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKindFor(filePath)
+  );
+
+  const parsed: ParsedSourceFile = {
+    filePath,
+    lines: content.split('\n'),
+    declarations: new Map(),
+    localDeclarations: new Map(),
+    exports: new Map(),
+    reExports: [],
+    imports: new Map(),
+    jsxElements: [],
+    stringLiterals: [],
+  };
+
+  const positionOf = (node: ts.Node) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    return { lineNumber: line + 1, columnNumber: character + 1 };
+  };
+
+  const declare = (name: string, value: ValueExpr, node: ts.Node, topLevel: boolean) => {
+    const declaration = { value, lineNumber: positionOf(node).lineNumber };
+    if (topLevel) {
+      parsed.declarations.set(name, declaration);
+    } else if (!parsed.localDeclarations.has(name)) {
+      parsed.localDeclarations.set(name, declaration);
+    }
+  };
+
+  // Top-level statements: declarations, imports and exports
+  for (const statement of sourceFile.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isVariableStatement(statement)) {
+      for (const decl of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(decl.name)) continue;
+        declare(decl.name.text, decl.initializer ? toValueExpr(decl.initializer) : UNKNOWN, decl, true);
+        if (exported) parsed.exports.set(decl.name.text, decl.name.text);
+      }
+    } else if (ts.isFunctionDeclaration(statement)) {
+      const name = statement.name?.text ?? DEFAULT_EXPORT_LOCAL;
+      declare(name, toFunctionExpr(statement), statement, true);
+      if (exported) parsed.exports.set(isDefault ? 'default' : name, name);
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      if (ts.isIdentifier(statement.expression)) {
+        parsed.exports.set('default', statement.expression.text);
+      } else {
+        declare(DEFAULT_EXPORT_LOCAL, toValueExpr(statement.expression), statement, true);
+        parsed.exports.set('default', DEFAULT_EXPORT_LOCAL);
+      }
+    } else if (ts.isExportDeclaration(statement) && !statement.isTypeOnly) {
+      const source =
+        statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : null;
+      const clause = statement.exportClause;
+
+      if (!clause) {
+        if (source) parsed.reExports.push({ exported: '*', imported: '*', source });
+      } else if (ts.isNamespaceExport(clause)) {
+        if (source) parsed.reExports.push({ exported: clause.name.text, imported: '*', source });
+      } else {
+        for (const element of clause.elements) {
+          const local = (element.propertyName ?? element.name).text;
+          if (source) {
+            parsed.reExports.push({ exported: element.name.text, imported: local, source });
+          } else {
+            parsed.exports.set(element.name.text, local);
+          }
+        }
+      }
+    } else if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      const source = statement.moduleSpecifier.text;
+      if (!clause || clause.isTypeOnly) continue;
+
+      if (clause.name) {
+        parsed.imports.set(clause.name.text, { imported: 'default', source });
+      }
+      if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+        parsed.imports.set(clause.namedBindings.name.text, { imported: '*', source });
+      } else if (clause.namedBindings) {
+        for (const element of clause.namedBindings.elements) {
+          if (element.isTypeOnly) continue;
+          parsed.imports.set(element.name.text, {
+            imported: (element.propertyName ?? element.name).text,
+            source,
+          });
+        }
+      }
+    }
+  }
+
+  // Full walk: nested declarations and JSX elements
+  const visit = (
+    node: ts.Node,
+    componentName: string | undefined,
+    depth: number,
+    parentElement: JsxElementFact | undefined
+  ) => {
+    let currentComponent = componentName;
+    let currentParent = parentElement;
+
+    if (ts.isFunctionLike(node)) {
+      const name = componentNameFor(node);
+      if (name && /^[A-Z]/.test(name)) currentComponent = name;
+      depth++;
+    }
+
+    if (depth > 0 && ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      declare(node.name.text, toValueExpr(node.initializer), node, false);
+    }
+
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+      const opening = ts.isJsxElement(node) ? node.openingElement : node;
+      const element: JsxElementFact = {
+        tagName: opening.tagName.getText(sourceFile),
+        ...positionOf(opening),
+        attributes: [],
+        spreads: [],
+        texts: [],
+        textContent: { kind: 'string', value: '' },
+        componentName: currentComponent,
+        parent: parentElement,
+      };
+
+      for (const prop of opening.attributes.properties) {
+        if (ts.isJsxAttribute(prop)) {
+          let value: ValueExpr = UNKNOWN;
+          if (prop.initializer && ts.isStringLiteral(prop.initializer)) {
+            value = { kind: 'string', value: prop.initializer.text };
+          } else if (prop.initializer && ts.isJsxExpression(prop.initializer) && prop.initializer.expression) {
+            value = toValueExpr(prop.initializer.expression);
+          }
+          element.attributes.push({ name: prop.name.getText(sourceFile), value, ...positionOf(prop) });
+        } else if (ts.isJsxSpreadAttribute(prop)) {
+          element.spreads.push({ value: toValueExpr(prop.expression), ...positionOf(prop) });
+        }
+      }
+
+      if (ts.isJsxElement(node)) {
+        const parts: ValueExpr[] = [];
+
+        for (const child of node.children) {
+          if (ts.isJsxText(child)) {
+            if (child.containsOnlyTriviaWhiteSpaces) continue;
+            const value = jsxTextValue(child.text);
+            parts.push({ kind: 'string', value });
+            element.texts.push({ value: { kind: 'string', value: value.trim() }, ...positionOf(child) });
+          } else if (ts.isJsxExpression(child)) {
+            if (!child.expression) continue;
+            if (ts.isJsxElement(child.expression) || ts.isJsxSelfClosingElement(child.expression)) {
+              parts.push(UNKNOWN);
+              continue;
+            }
+            const value = toValueExpr(child.expression);
+            parts.push(value);
+            element.texts.push({ value, ...positionOf(child) });
+          } else {
+            // Nested element or fragment
+            parts.push(UNKNOWN);
+          }
+        }
+
+        element.textContent = { kind: 'concat', parts };
+      }
+
+      parsed.jsxElements.push(element);
+      currentParent = element;
+    }
+
+    if (
+      (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) &&
+      !ts.isImportDeclaration(node.parent) &&
+      !ts.isExportDeclaration(node.parent) &&
+      !ts.isExternalModuleReference(node.parent)
+    ) {
+      parsed.stringLiterals.push({ value: node.text, ...positionOf(node) });
+    }
+
+    ts.forEachChild(node, (child) => visit(child, currentComponent, depth, currentParent));
+  };
+
+  visit(sourceFile, undefined, 0, undefined);
+
+  return parsed;
+}
@@ -0,0 +1,150 @@
+import { readFile } from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import fg from 'fast-glob';
+import type { UiAgentConfig } from '../config';
+import { parseSourceFile, type ParsedSourceFile } from './sourceParser';
+
+/**
+ * Parsed view of every source file in the project, keyed by relative path.
+ */
+export interface SourceProject {
+  files: Map<string, ParsedSourceFile>;
+}
+
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+
+const SOURCE_PATTERNS = ['**/*.tsx', '**/*.jsx', '**/*.ts', '**/*.js'];
+
+/**
+ * Top-level directories that never contain indexed sources.
+ */
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'coverage', 'build'];
+
+/**
+ * Never indexed, whatever the config says. Project-specific ignores come from the config.
+ */
+const SOURCE_IGNORE = [
+  ...IGNORED_DIRECTORIES.map((directory) => `${directory}/**`),
+  '**/*.test.*',
+  '**/*.spec.*',
+  '**/e2e/**',
+  'ui-agent.config.*',
+];
+
+/**
+ * Which files to index (see UiAgentConfig).
+ */
+export type SourceFileOptions = Pick<UiAgentConfig, 'sourceRoots' | 'ignore'>;
+
+function isInSourceRoots(filePath: string, options: SourceFileOptions): boolean {
+  return (
+    options.sourceRoots.length === 0 ||
+    options.sourceRoots.some((root) => filePath === root || filePath.startsWith(`${root}/`))
+  );
+}
+
+/**
+ * Get all source files in cwd (excludes tests, node_modules, etc.).
+ *
+ * @param cwd - Project root
+ * @param options - Source roots and ignore patterns
+ * @param directory - Optional sub-directory (relative to cwd) to limit the search to
+ */
+export async function getSourceFiles(
+  cwd: string,
+  options: SourceFileOptions,
+  directory?: string
+): Promise<string[]> {
+  const roots = directory ? [directory] : options.sourceRoots;
+  const prefixes = roots.length > 0 ? roots.map((root) => `${fg.escapePath(root)}/`) : [''];
+  const files = await fg(
+    prefixes.flatMap((prefix) => SOURCE_PATTERNS.map((pattern) => `${prefix}${pattern}`)),
+    {
+      cwd,
+      ignore: [...SOURCE_IGNORE, ...options.ignore],
+      absolute: false,
+    }
+  );
+  return files.filter((file) => isInSourceRoots(file, options));
+}
+
+/**
+ * Check whether a relative path is an existing source file that getSourceFiles would return.
+ */
+export async function isSourceFile(filePath: string, cwd: string, options: SourceFileOptions): Promise<boolean> {
+  if (!/\.(t|j)sx?$/.test(filePath) || !isInSourceRoots(filePath, options)) {
+    return false;
+  }
+  const matches = await fg(fg.escapePath(filePath), { cwd, ignore: [...SOURCE_IGNORE, ...options.ignore] });
+  return matches.length > 0;
+}
+
+/**
+ * Check whether a directory (relative to cwd) may hold files that getSourceFiles would return,
+ * judging by the source roots and the built-in ignores only.
+ */
+export function mayContainSources(directory: string, options: SourceFileOptions): boolean {
+  const top = directory.split('/')[0];
+  if (top.startsWith('.') || IGNORED_DIRECTORIES.includes(top)) {
+    return false;
+  }
+  return (
+    options.sourceRoots.length === 0 ||
+    options.sourceRoots.some(
+      (root) => root === directory || root.startsWith(`${directory}/`) || directory.startsWith(`${root}/`)
+    )
+  );
+}
+
+/**
+ * Read and parse every source file in cwd.
+ */
+export async function loadSourceProject(cwd: string, options: SourceFileOptions): Promise<SourceProject> {
+  const files = new Map<string, ParsedSourceFile>();
+
+  for (const file of await getSourceFiles(cwd, options)) {
+    try {
+      const content = await readFile(join(cwd, file), 'utf-8');
+      files.set(file, parseSourceFile(file, content));
+    } catch {
+      // Skip files that can't be read or parsed
+    }
+  }
+
+  return { files };
+}
+
+/**
+ * The files a relative import specifier may refer to, in resolution order.
+ * Empty for bare and aliased specifiers (packages, '@components', ...), which are not followed.
+ */
+export function moduleCandidates(fromFile: string, specifier: string): string[] {
+  if (!specifier.startsWith('.')) {
+    return [];
+  }
+
+  const base = posix.normalize(posix.join(posix.dirname(fromFile), specifier));
+  const withoutExt = base.replace(/\.(t|j)sx?$/, '');
+  return [
+    base,
+    ...MODULE_EXTENSIONS.map((ext) => `${withoutExt}${ext}`),
+    ...MODULE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+  ];
+}
+
+/**
+ * Resolve a relative import specifier to a parsed file in the project.
+ * Bare and aliased specifiers (packages, '@components', ...) are not followed.
+ */
+export function resolveModule(
+  project: SourceProject,
+  fromFile: string,
+  specifier: string
+): ParsedSourceFile | undefined {
+  for (const candidate of moduleCandidates(fromFile, specifier)) {
+    const file = project.files.get(candidate);
+    if (file) return file;
+  }
+
+  return undefined;
+}
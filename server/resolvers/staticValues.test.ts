@@ -0,0 +1,168 @@
+/** @jest-environment node */
+import { parseSourceFile } from './sourceParser';
+import type { SourceProject } from './sourceProject';
+import { evaluateObjectProperty, evaluateStringPatterns, patternMatches, type StringPattern } from './staticValues';
+
+function projectOf(files: Record<string, string>): SourceProject {
+  return {
+    files: new Map(Object.entries(files).map(([filePath, code]) => [filePath, parseSourceFile(filePath, code)])),
+  };
+}
+
+/**
+ * Patterns of every data-testid in a file, written as an attribute or through a spread.
+ */
+function testIds(project: SourceProject, filePath: string): StringPattern[][] {
+  const file = project.files.get(filePath);
+  if (!file) throw new Error(`${filePath} is not in the project`);
+
+  return file.jsxElements.flatMap((element) => [
+    ...element.attributes
+      .filter((attribute) => attribute.name === 'data-testid')
+      .map((attribute) => evaluateStringPatterns(project, attribute.value, file)),
+    ...element.spreads
+      .map((spread) => evaluateObjectProperty(project, spread.value, file, 'data-testid'))
+      .filter((patterns): patterns is StringPattern[] => patterns !== null),
+  ]);
+}
+
+const exact = (value: string): StringPattern[] => [{ segments: [value] }];
+
+test('evaluates literal and local constant test IDs', () => {
+  const project = projectOf({
+    'src/Panel.tsx': `
+      const PANEL = 'users-panel';
+      export const Panel = () => (
+        <section data-testid="users-section">
+          <div data-testid={PANEL} />
+        </section>
+      );
+    `,
+  });
+
+  expect(testIds(project, 'src/Panel.tsx')).toEqual([exact('users-section'), exact('users-panel')]);
+});
+
+test('follows imported constants through renames and re-exports', () => {
+  const project = projectOf({
+    'src/ids.ts': `export const SAVE = 'save-button';`,
+    'src/constants/index.ts': `export { SAVE as SUBMIT } from '../ids'; export * from '../ids';`,
+    'src/Form.tsx': `
+      import { SAVE as S } from './ids';
+      import { SUBMIT, SAVE } from './constants';
+      export const Form = () => (
+        <form>
+          <button data-testid={S} />
+          <button data-testid={SUBMIT} />
+          <button data-testid={SAVE} />
+        </form>
+      );
+    `,
+  });
+
+  expect(testIds(project, 'src/Form.tsx')).toEqual([exact('save-button'), exact('save-button'), exact('save-button')]);
+});
+
+test('evaluates namespaced constants and namespace imports', () => {
+  const project = projectOf({
+    'src/testIds.ts': `
+      export const TestIds = { header: 'page-header', footer: 'page-footer' };
+      export const MENU = 'main-menu';
+    `,
+    'src/Layout.tsx': `
+      import { TestIds } from './testIds';
+      import * as ids from './testIds';
+      export const Layout = () => (
+        <main>
+          <header data-testid={TestIds.header} />
+          <nav data-testid={ids.MENU} />
+          <footer data-testid={ids.TestIds.footer} />
+        </main>
+      );
+    `,
+  });
+
+  expect(testIds(project, 'src/Layout.tsx')).toEqual([exact('page-header'), exact('main-menu'), exact('page-footer')]);
+});
+
+test('evaluates test ID factories with known and unknown arguments', () => {
+  const project = projectOf({
+    'src/testIds.ts': `
+      export const TestIds = { row: (id: string) => \`row-\${id}\` };
+      export function cell(column: string) { return 'cell-' + column; }
+    `,
+    'src/Table.tsx': `
+      import { TestIds, cell } from './testIds';
+      export const Table = ({ id }: { id: string }) => (
+        <table>
+          <tr data-testid={TestIds.row('header')} />
+          <tr data-testid={TestIds.row(id)} />
+          <td data-testid={cell('name')} />
+        </table>
+      );
+    `,
+  });
+
+  const [header, row, nameCell] = testIds(project, 'src/Table.tsx');
+  expect(header).toEqual(exact('row-header'));
+  expect(row).toEqual([{ segments: ['row-', ''] }]);
+  expect(patternMatches(row[0], 'row-42')).toBe(true);
+  expect(patternMatches(row[0], 'column-42')).toBe(false);
+  expect(nameCell).toEqual(exact('cell-name'));
+});
+
+test('evaluates template literals around constants and unknown values', () => {
+  const project = projectOf({
+    'src/Cards.tsx': `
+      const PREFIX = 'card';
+      export const Cards = ({ id, open }: { id: string; open: boolean }) => (
+        <ul>
+          <li data-testid={\`\${PREFIX}-\${id}\`} />
+          <li data-testid={open ? 'card-open' : 'card-closed'} />
+        </ul>
+      );
+    `,
+  });
+
+  const [card, state] = testIds(project, 'src/Cards.tsx');
+  expect(card).toEqual([{ segments: ['card-', ''] }]);
+  expect(state).toEqual([...exact('card-open'), ...exact('card-closed')]);
+});
+
+test('evaluates test IDs passed through object spreads', () => {
+  const project = projectOf({
+    'src/ids.ts': `export const SPREAD = 'spread-props';`,
+    'src/Spreads.tsx': `
+      import { SPREAD } from './ids';
+      const testIdProps = { 'data-testid': SPREAD };
+      const otherProps = { role: 'note' };
+      export const Spreads = () => (
+        <div>
+          <span {...testIdProps} />
+          <span {...{ 'data-testid': 'inline-spread' }} />
+          <span {...otherProps} />
+        </div>
+      );
+    `,
+  });
+
+  expect(testIds(project, 'src/Spreads.tsx')).toEqual([exact('spread-props'), exact('inline-spread')]);
+});
+
+test('leaves values it cannot follow unknown', () => {
+  const project = projectOf({
+    'src/Unknown.tsx': `
+      import { PACKAGE_ID } from 'some-package';
+      export const Unknown = ({ testId }: { testId: string }) => (
+        <div>
+          <span data-testid={testId} />
+          <span data-testid={PACKAGE_ID} />
+        </div>
+      );
+    `,
+  });
+
+  for (const patterns of testIds(project, 'src/Unknown.tsx')) {
+    expect(patterns.every((pattern) => pattern.segments.every((segment) => segment === ''))).toBe(true);
+  }
+});
@@ -0,0 +1,283 @@
+import type { ParsedSourceFile, ValueExpr } from './sourceParser';
+import { resolveModule, type SourceProject } from './sourceProject';
+
+/**
+ * A string whose value is only partially known at build time.
+ * An unknown, non-empty hole sits between every two consecutive segments:
+ * `card-${id}` becomes { segments: ['card-', ''] }.
+ */
+export interface StringPattern {
+  segments: string[];
+}
+
+/**
+ * Evaluation scope: the file an expression lives in, plus bound function parameters.
+ */
+interface Scope {
+  file: ParsedSourceFile;
+  bindings?: Map<string, StringPattern[]>;
+}
+
+type Resolved =
+  | { kind: 'value'; expr: ValueExpr; scope: Scope }
+  | { kind: 'module'; file: ParsedSourceFile };
+
+const MAX_DEPTH = 12;
+const MAX_PATTERNS = 32;
+const WILDCARD: StringPattern = { segments: ['', ''] };
+
+/**
+ * Escape special regex characters.
+ */
+export function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * True if the pattern has no unknown holes.
+ */
+export function isExactPattern(pattern: StringPattern): boolean {
+  return pattern.segments.length === 1;
+}
+
+/**
+ * True if the pattern contains at least one known character.
+ * A pattern made only of holes matches anything and carries no information.
+ */
+export function hasLiteralContent(pattern: StringPattern): boolean {
+  return pattern.segments.some((segment) => segment.length > 0);
+}
+
+/**
+ * Check whether a runtime string could have been produced by the pattern.
+ */
+export function patternMatches(pattern: StringPattern, value: string): boolean {
+  if (isExactPattern(pattern)) {
+    return pattern.segments[0] === value;
+  }
+  const source = pattern.segments.map(escapeRegex).join('(.+)');
+  return new RegExp(`^${source}$`).test(value);
+}
+
+/**
+ * Check whether rendered text (e.g., an element's textContent) could come from the pattern.
+ * Whitespace is flexible (block elements join without spaces in textContent)
+ * and unknown parts may be empty (`{count}` can render nothing).
+ *
+ * @param isPrefix - True if the text was truncated and only has to match the start
+ */
+export function textPatternMatches(pattern: StringPattern, text: string, isPrefix = false): boolean {
+  const source = pattern.segments
+    .map((segment) => segment.replace(/\s+/g, ' ').trim().split(' ').map(escapeRegex).join('\\s*'))
+    .join('.*?');
+  return new RegExp(`^\\s*${source}\\s*${isPrefix ? '' : '$'}`, 's').test(text);
+}
+
+function concatPatterns(left: StringPattern[], right: StringPattern[]): StringPattern[] {
+  const result: StringPattern[] = [];
+
+  for (const a of left) {
+    for (const b of right) {
+      if (result.length >= MAX_PATTERNS) return result;
+      result.push({
+        segments: [
+          ...a.segments.slice(0, -1),
+          a.segments[a.segments.length - 1] + b.segments[0],
+          ...b.segments.slice(1),
+        ],
+      });
+    }
+  }
+
+  return result;
+}
+
+function lookupExport(
+  project: SourceProject,
+  file: ParsedSourceFile,
+  name: string,
+  depth: number
+): Resolved | null {
+  if (depth > MAX_DEPTH) return null;
+
+  const local = file.exports.get(name);
+  if (local) {
+    return lookupName(project, { file }, local, depth + 1);
+  }
+
+  for (const reExport of file.reExports) {
+    const isStar = reExport.exported === '*';
+    if (!isStar && reExport.exported !== name) continue;
+    if (isStar && name === 'default') continue;
+
+    const target = resolveModule(project, file.filePath, reExport.source);
+    if (!target) continue;
+
+    if (!isStar && reExport.imported === '*') {
+      return { kind: 'module', file: target };
+    }
+
+    const found = lookupExport(project, target, isStar ? name : reExport.imported, depth + 1);
+    if (found) return found;
+  }
+
+  return null;
+}
+
+function lookupName(
+  project: SourceProject,
+  scope: Scope,
+  name: string,
+  depth: number
+): Resolved | null {
+  if (depth > MAX_DEPTH) return null;
+
+  const { file } = scope;
+  const declaration = file.declarations.get(name) ?? file.localDeclarations.get(name);
+  if (declaration) {
+    return { kind: 'value', expr: declaration.value, scope: { file } };
+  }
+
+  const binding = file.imports.get(name);
+  if (binding) {
+    const target = resolveModule(project, file.filePath, binding.source);
+    if (!target) return null;
+    if (binding.imported === '*') {
+      return { kind: 'module', file: target };
+    }
+    return lookupExport(project, target, binding.imported, depth + 1);
+  }
+
+  return null;
+}
+
+/**
+ * Follow identifiers and member accesses to the expression that defines them.
+ */
+function deref(
+  project: SourceProject,
+  expr: ValueExpr,
+  scope: Scope,
+  depth: number
+): Resolved | null {
+  if (depth > MAX_DEPTH) return null;
+
+  if (expr.kind === 'identifier') {
+    if (scope.bindings?.has(expr.name)) return null;
+    const resolved = lookupName(project, scope, expr.name, depth + 1);
+    if (resolved?.kind === 'value') {
+      return deref(project, resolved.expr, resolved.scope, depth + 1);
+    }
+    return resolved;
+  }
+
+  if (expr.kind === 'member') {
+    const object = deref(project, expr.object, scope, depth + 1);
+    if (!object) return null;
+
+    if (object.kind === 'module') {
+      const exported = lookupExport(project, object.file, expr.property, depth + 1);
+      if (exported?.kind === 'value') {
+        return deref(project, exported.expr, exported.scope, depth + 1);
+      }
+      return exported;
+    }
+
+    if (object.expr.kind === 'object') {
+      const property = object.expr.properties[expr.property];
+      if (property) {
+        return deref(project, property, object.scope, depth + 1);
+      }
+      for (const spread of object.expr.spreads) {
+        const found = deref(project, { kind: 'member', object: spread, property: expr.property }, object.scope, depth + 1);
+        if (found) return found;
+      }
+    }
+
+    return null;
+  }
+
+  return { kind: 'value', expr, scope };
+}
+
+function evaluate(
+  project: SourceProject,
+  expr: ValueExpr,
+  scope: Scope,
+  depth: number
+): StringPattern[] {
+  if (depth > MAX_DEPTH) return [WILDCARD];
+
+  switch (expr.kind) {
+    case 'string':
+      return [{ segments: [expr.value] }];
+
+    case 'concat':
+      return expr.parts.reduce<StringPattern[]>(
+        (acc, part) => concatPatterns(acc, evaluate(project, part, scope, depth + 1)),
+        [{ segments: [''] }]
+      );
+
+    case 'conditional':
+      return expr.options.flatMap((option) => evaluate(project, option, scope, depth + 1)).slice(0, MAX_PATTERNS);
+
+    case 'identifier':
+    case 'member': {
+      if (expr.kind === 'identifier' && scope.bindings?.has(expr.name)) {
+        return scope.bindings.get(expr.name) ?? [WILDCARD];
+      }
+      const resolved = deref(project, expr, scope, depth + 1);
+      if (resolved?.kind !== 'value' || resolved.expr === expr) return [WILDCARD];
+      return evaluate(project, resolved.expr, resolved.scope, depth + 1);
+    }
+
+    case 'call': {
+      const callee = deref(project, expr.callee, scope, depth + 1);
+      if (callee?.kind !== 'value' || callee.expr.kind !== 'function') return [WILDCARD];
+
+      const bindings = new Map<string, StringPattern[]>();
+      callee.expr.params.forEach((param, index) => {
+        if (!param) return;
+        const arg = expr.args[index];
+        bindings.set(param, arg ? evaluate(project, arg, scope, depth + 1) : [WILDCARD]);
+      });
+
+      return evaluate(project, callee.expr.body, { file: callee.scope.file, bindings }, depth + 1);
+    }
+
+    default:
+      return [WILDCARD];
+  }
+}
+
+/**
+ * Evaluate an expression to the set of strings it may produce.
+ * Constants are followed across files through imports and re-exports;
+ * function calls are evaluated with their arguments bound.
+ *
+ * @param project - Parsed project used to follow imports
+ * @param expr - Expression to evaluate
+ * @param file - File the expression appears in
+ */
+export function evaluateStringPatterns(
+  project: SourceProject,
+  expr: ValueExpr,
+  file: ParsedSourceFile
+): StringPattern[] {
+  return evaluate(project, expr, { file }, 0);
+}
+
+/**
+ * Evaluate a named property of an object expression (e.g., a JSX `{...spread}`).
+ * Returns null if the expression is not a statically known object with that property.
+ */
+export function evaluateObjectProperty(
+  project: SourceProject,
+  expr: ValueExpr,
+  file: ParsedSourceFile,
+  property: string
+): StringPattern[] | null {
+  const resolved = deref(project, { kind: 'member', object: expr, property }, { file }, 0);
+  if (resolved?.kind !== 'value') return null;
+  return evaluate(project, resolved.expr, resolved.scope, 0);
+}
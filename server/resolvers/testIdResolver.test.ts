@@ -0,0 +1,132 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ElementInfo, SelectionPayload, TestIdInfo } from '../../src/shared/types';
+import { DEFAULT_CONFIG } from '../config';
+import { createSourceIndex, type SourceIndex } from './sourceIndex';
+import { testIdResolver, withConfiguredTestId } from './testIdResolver';
+import type { ResolverOptions } from './types';
+
+const CARD = `import { Price } from './Price';
+
+export const Card = () => (
+  <article data-testid="product-card">
+    <h3>Lamp</h3>
+    <button className="buy">Buy</button>
+    <Price />
+  </article>
+);
+
+export const Row = () => <tr data-testid="row" />;
+export const OtherRow = () => <tr data-testid="row" />;
+`;
+
+const PRICE = `export const Price = () => <span className="price">$20</span>;
+`;
+
+let cwd: string;
+let index: SourceIndex;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-testid-'));
+  await mkdir(join(cwd, 'src'));
+  await writeFile(join(cwd, 'src/Card.tsx'), CARD);
+  await writeFile(join(cwd, 'src/Price.tsx'), PRICE);
+  index = await createSourceIndex(cwd, DEFAULT_CONFIG);
+});
+
+afterAll(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+const element = (tagName: string, attributes: Record<string, string>, textSummary = ''): ElementInfo => ({
+  tagName,
+  attributes,
+  selector: tagName,
+  textSummary,
+});
+
+function resolve(testId: TestIdInfo, ancestors: ElementInfo[] = []) {
+  const payload: SelectionPayload = {
+    pageUrl: '/',
+    selector: '',
+    testId,
+    domOuterHtml: '',
+    textSnippet: '',
+    classes: [],
+    ancestors,
+  };
+  const options: ResolverOptions = { cwd, index, config: DEFAULT_CONFIG };
+  return testIdResolver(payload, options);
+}
+
+const card = element('article', { 'data-testid': 'product-card' });
+
+test('verifies the element carrying a unique test ID', async () => {
+  expect(await resolve({ value: 'product-card', onSelf: true, depth: 0, ancestorTagName: 'article' })).toMatchObject({
+    filePath: 'src/Card.tsx',
+    lineNumber: 4,
+    confidence: 'high',
+    verified: true,
+  });
+});
+
+test('does not verify the clicked element it picked inside an ancestor with the test ID', async () => {
+  const result = await resolve({ value: 'product-card', onSelf: false, depth: 1, ancestorTagName: 'article' }, [
+    element('button', { class: 'buy' }, 'Buy'),
+    card,
+  ]);
+
+  expect(result).toMatchObject({ filePath: 'src/Card.tsx', lineNumber: 6, verified: false });
+  expect(result?.candidates?.[0]).toMatchObject({ lineNumber: 6 });
+});
+
+test('does not verify the clicked element it followed into a child component', async () => {
+  const result = await resolve({ value: 'product-card', onSelf: false, depth: 2, ancestorTagName: 'article' }, [
+    element('span', { class: 'price' }, '$20'),
+    element('div', {}),
+    card,
+  ]);
+
+  expect(result).toMatchObject({
+    filePath: 'src/Price.tsx',
+    lineNumber: 1,
+    confidence: 'medium',
+    verified: false,
+    parentLocation: { filePath: 'src/Card.tsx', lineNumber: 4 },
+  });
+});
+
+test('does not verify a test ID used by several elements', async () => {
+  const result = await resolve({ value: 'row', onSelf: true, depth: 0, ancestorTagName: 'tr' });
+
+  expect(result).toMatchObject({ confidence: 'medium', verified: false });
+  expect(result?.candidates).toHaveLength(2);
+});
+
+test('returns null when no element has the test ID', async () => {
+  expect(await resolve({ value: 'nowhere', onSelf: true, depth: 0, ancestorTagName: 'div' })).toBeNull();
+});
+
+test('picks the closest test ID in any configured attribute', () => {
+  const payload: SelectionPayload = {
+    pageUrl: '/',
+    selector: '',
+    testId: { value: 'product-card', onSelf: false, depth: 2, ancestorTagName: 'article' },
+    domOuterHtml: '',
+    textSnippet: '',
+    classes: [],
+    ancestors: [element('span', {}), element('div', { 'data-qa': 'price-box' }), card],
+  };
+
+  expect(withConfiguredTestId(payload, ['data-testid', 'data-qa']).testId).toEqual({
+    value: 'price-box',
+    onSelf: false,
+    depth: 1,
+    ancestorTagName: 'div',
+  });
+  expect(withConfiguredTestId(payload, ['data-testid'])).toBe(payload);
+});
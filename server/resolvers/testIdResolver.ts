@@ -1,400 +1,231 @@
-import { readFile } from 'node:fs/promises';
-import { join } from 'node:path';
-import fg from 'fast-glob';
-import type { TestIdInfo, CodeSnippet, CodeLine } from '../../src/shared/types';
-import type { ResolutionResult, ResolverFn } from './types';
+import type { ConfidenceSignal, SelectionPayload, TestIdInfo } from '../../src/shared/types';
+import type { ResolutionResult, ResolverFn, ResolverOptions } from './types';
+import type { JsxElementFact, ValueExpr } from './sourceParser';
+import type { IndexedTestId, SourceIndex } from './sourceIndex';
+import { hasLiteralContent, isExactPattern, patternMatches } from './staticValues';
+import { ANCESTOR_CLOSE_DEPTH, findClickedElement } from './ancestors';
+import { findInChildComponents, withChildLocation } from './childComponents';
+import { buildCandidates } from './candidates';
+import { extractCodeSnippet } from './codeSnippet';
+import { scored } from './scoring';
+
+/**
+ * How the test ID value was written in source.
+ * - literal: data-testid="value"
+ * - constant: data-testid={CONSTANT}
+ * - namespaced: data-testid={Namespace.CONSTANT}
+ * - function: data-testid={Namespace.fn(...)}
+ * - template: data-testid={`card-${id}`}
+ * - spread: {...{ 'data-testid': value }}
+ */
+type TestIdMatchType = 'literal' | 'constant' | 'namespaced' | 'function' | 'template' | 'spread';
 
 interface FileMatch {
   filePath: string;
   lineNumber: number;
+  columnNumber: number;
   lineContent: string;
+  tagName: string;
+  element: JsxElementFact;
+  attributeName: string;
+  matchType: TestIdMatchType;
+  /** True if the source value is fully static and equals the test ID */
+  exact: boolean;
 }
 
-/**
- * Escape special regex characters.
- */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
-/**
- * Get all source files in cwd (excludes tests, node_modules, etc.).
- */
-async function getSourceFiles(cwd: string): Promise<string[]> {
-  return fg(['**/*.tsx', '**/*.jsx', '**/*.ts', '**/*.js'], {
-    cwd,
-    ignore: [
-      'node_modules/**',
-      'dist/**',
-      'coverage/**',
-      'build/**',
-      '**/*.test.*',
-      '**/*.spec.*',
-      '**/e2e/**',
-      '**/TestCaseRegistry.ts',
-    ],
-    absolute: false,
-  });
-}
-
-/**
- * Search files for a pattern and return matches.
- */
-async function searchFiles(
-  files: string[],
-  pattern: RegExp,
-  cwd: string
-): Promise<FileMatch[]> {
-  const matches: FileMatch[] = [];
-
-  for (const file of files) {
-    try {
-      const content = await readFile(join(cwd, file), 'utf-8');
-      const lines = content.split('\n');
-
-      for (let i = 0; i < lines.length; i++) {
-        if (pattern.test(lines[i])) {
-          matches.push({
-            filePath: file,
-            lineNumber: i + 1,
-            lineContent: lines[i].trim(),
-          });
-        }
-      }
-    } catch {
-      // Skip files that can't be read
-    }
-  }
-
-  return matches;
-}
-
-/**
- * Phase 1: Search for literal data-testid="value" or data-testid='value'
- */
-async function searchDirectTestId(testId: string, cwd: string): Promise<FileMatch[]> {
-  const escaped = escapeRegex(testId);
-  const pattern = new RegExp(`data-testid=["']${escaped}["']`);
-
-  const files = await getSourceFiles(cwd);
-  return searchFiles(files, pattern, cwd);
-}
-
-/**
- * Find the constant name that holds a given string value.
- * Looks for patterns like: 
- * - const SOME_ID = 'value' or export const SOME_ID = "value"
- * - PROPERTY: "value" (inside object literals like const TestIds = { PROPERTY: "value" })
- */
-async function findConstantName(testId: string, cwd: string): Promise<string | null> {
-  const escaped = escapeRegex(testId);
-  // Pattern 1: Standalone constant: const NAME = "value"
-  const standalonePattern = new RegExp(`(\\w+)\\s*=\\s*['"]${escaped}['"]`);
-  // Pattern 2: Object property: NAME: "value" or NAME: 'value'
-  const objectPropertyPattern = new RegExp(`(\\w+)\\s*:\\s*['"]${escaped}['"]`);
-
-  const files = await getSourceFiles(cwd);
-
-  for (const file of files) {
-    try {
-      const content = await readFile(join(cwd, file), 'utf-8');
-      // Try standalone constant first
-      const standaloneMatch = content.match(standalonePattern);
-      if (standaloneMatch && standaloneMatch[1]) {
-        return standaloneMatch[1];
-      }
-      // Try object property pattern
-      const objectMatch = content.match(objectPropertyPattern);
-      if (objectMatch && objectMatch[1]) {
-        return objectMatch[1];
-      }
-    } catch {
-      // Skip files that can't be read
-    }
-  }
-
-  return null;
-}
-
-/**
- * Phase 2: Search for testId props with constants.
- * Matches: data-testid={CONSTANT} or testId={CONSTANT}
- */
-async function searchConstantTestId(constantName: string, cwd: string): Promise<FileMatch[]> {
-  const escaped = escapeRegex(constantName);
-  
-  // Search for both data-testid and testId prop patterns
-  const patterns = [
-    new RegExp(`data-testid=\\{\\s*${escaped}\\s*\\}`),
-    new RegExp(`testId=\\{\\s*${escaped}\\s*\\}`),
-  ];
-
-  const files = await getSourceFiles(cwd);
-  const allMatches: FileMatch[] = [];
-
-  for (const pattern of patterns) {
-    const matches = await searchFiles(files, pattern, cwd);
-    allMatches.push(...matches);
-  }
-
-  return allMatches;
-}
-
-/**
- * Phase 3: Search for testId props with namespaced constants.
- * Matches any namespace prefix before the constant name.
- * Examples: data-testid={ThemePreviewTestIds.ROOT} or testId={TestIds.BUTTON}
- */
-async function searchNamespacedTestId(constantName: string, cwd: string): Promise<FileMatch[]> {
-  const escaped = escapeRegex(constantName);
-  
-  // Search for both data-testid and testId prop patterns
-  const patterns = [
-    new RegExp(`data-testid=\\{\\s*\\w+\\.${escaped}\\s*\\}`),
-    new RegExp(`testId=\\{\\s*\\w+\\.${escaped}\\s*\\}`),
-  ];
-
-  const files = await getSourceFiles(cwd);
-  const allMatches: FileMatch[] = [];
-
-  for (const pattern of patterns) {
-    const matches = await searchFiles(files, pattern, cwd);
-    allMatches.push(...matches);
-  }
-
-  return allMatches;
-}
-
-/**
- * Helper function to check if testId matches the pattern.
- */
-function matchesPattern(testId: string, prefix: string, suffix: string): boolean {
-  const suffixToCheck = suffix || '';
-  if (testId.startsWith(prefix) && testId.endsWith(suffixToCheck)) {
-    const capturedValue = testId.slice(prefix.length, suffixToCheck ? -suffixToCheck.length : undefined);
-    return !!capturedValue;
+function matchTypeFor(value: ValueExpr): TestIdMatchType {
+  switch (value.kind) {
+    case 'identifier':
+      return 'constant';
+    case 'member':
+      return 'namespaced';
+    case 'call':
+      return 'function';
+    case 'concat':
+      return 'template';
+    default:
+      return 'literal';
   }
-  return false;
 }
 
-/**
- * Find function definitions that generate test IDs matching a pattern.
- * Handles both single-line and multi-line arrow functions:
- * - export const funcName = (param) => `prefix-${param}suffix`
- * - export const funcName = (param) =>
- *     `prefix-${param}suffix`
- * Returns: functionName if the testId matches the function's pattern
- */
-async function findTestIdFunction(testId: string, cwd: string): Promise<string | null> {
-  const files = await getSourceFiles(cwd);
-
-  for (const file of files) {
-    try {
-      const content = await readFile(join(cwd, file), 'utf-8');
-      const lines = content.split('\n');
-
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        
-        // Match function declaration: export const funcName = (param) =>
-        const funcMatch = line.match(
-          /export\s+const\s+(\w+)\s*=\s*\([^)]+\)\s*=>\s*/
-        );
-
-        if (funcMatch) {
-          const functionName = funcMatch[1];
-          
-          // Check if template literal is on same line
-          const sameLine = line.match(/[`'"]([^`'"]*)\$\{[^}]+\}([^`'"]*)[`'"]/);
-          if (sameLine) {
-            const [, prefix, suffix] = sameLine;
-            if (matchesPattern(testId, prefix, suffix)) {
-              return functionName;
-            }
-          } 
-          // Check if template literal is on next line
-          else if (i + 1 < lines.length) {
-            const nextLine = lines[i + 1].trim();
-            const nextMatch = nextLine.match(/[`'"]([^`'"]*)\$\{[^}]+\}([^`'"]*)[`'"]/);
-            if (nextMatch) {
-              const [, prefix, suffix] = nextMatch;
-              if (matchesPattern(testId, prefix, suffix)) {
-                return functionName;
-              }
-            }
-          }
-        }
-      }
-    } catch {
-      // Skip files that can't be read
-    }
-  }
-
-  return null;
+function toFileMatch(entry: IndexedTestId, exact: boolean): FileMatch {
+  return {
+    filePath: entry.file.filePath,
+    lineNumber: entry.lineNumber,
+    columnNumber: entry.columnNumber,
+    lineContent: (entry.file.lines[entry.lineNumber - 1] ?? '').trim(),
+    tagName: entry.element.tagName,
+    element: entry.element,
+    attributeName: entry.attributeName,
+    matchType: entry.viaSpread ? 'spread' : matchTypeFor(entry.value),
+    exact,
+  };
 }
 
 /**
- * Phase 4: Search for testId props with function calls.
- * Matches: data-testid={Namespace.functionName(...)} or testId={Namespace.functionName(...)}
+ * Every match type, in the order the trace lists them.
  */
-async function searchFunctionCallTestId(functionName: string, cwd: string): Promise<FileMatch[]> {
-  const escaped = escapeRegex(functionName);
-  
-  // Search for both data-testid and testId prop patterns
-  const patterns = [
-    new RegExp(`data-testid=\\{\\s*\\w+\\.${escaped}\\([^)]*\\)\\s*\\}`),
-    new RegExp(`testId=\\{\\s*\\w+\\.${escaped}\\([^)]*\\)\\s*\\}`),
-  ];
-
-  const files = await getSourceFiles(cwd);
-  const allMatches: FileMatch[] = [];
-
-  for (const pattern of patterns) {
-    const matches = await searchFiles(files, pattern, cwd);
-    allMatches.push(...matches);
-  }
-
-  return allMatches;
-}
+const MATCH_TYPES: TestIdMatchType[] = ['literal', 'constant', 'namespaced', 'function', 'template', 'spread'];
 
 /**
- * Search for data-testid in source files.
+ * Search for data-testid in the source index.
  *
- * Four-phase approach:
- * 1. Search for literal: data-testid="value"
- * 2. If not found, search for constant pattern:
- *    - Find constant definition (const X = 'value')
- *    - Search for data-testid={X}
- * 3. If not found, search for namespaced constant:
- *    - Search for data-testid={Namespace.X}
- * 4. If not found, search for function-generated test IDs:
- *    - Find function definition that generates the test ID
- *    - Search for data-testid={Namespace.functionName(...)}
- */
-async function searchDataTestId(testId: string, cwd: string): Promise<FileMatch[]> {
-  // Phase 1: Direct literal search
-  const directMatches = await searchDirectTestId(testId, cwd);
-  if (directMatches.length > 0) {
-    return directMatches;
-  }
-
-  // Phase 2 & 3: Try constant pattern
-  const constantName = await findConstantName(testId, cwd);
-  if (constantName) {
-    // Phase 2: Direct constant reference
-    const constantMatches = await searchConstantTestId(constantName, cwd);
-    if (constantMatches.length > 0) {
-      return constantMatches;
-    }
-
-    // Phase 3: Namespaced constant reference
-    const namespacedMatches = await searchNamespacedTestId(constantName, cwd);
-    if (namespacedMatches.length > 0) {
-      return namespacedMatches;
-    }
-  }
-
-  // Phase 4: Try function pattern
-  const functionName = await findTestIdFunction(testId, cwd);
-  if (functionName) {
-    return searchFunctionCallTestId(functionName, cwd);
-  }
-
-  return [];
-}
-
-/**
- * Extract code snippet around a specific line.
+ * Every data-testid/testId attribute is evaluated statically when the index is built:
+ * literals, constants (including ones imported from other modules), namespaced constants,
+ * test ID factory functions, template literals and object spreads.
+ *
+ * Exact matches win; matches through unknown template holes are only returned
+ * when there is no exact match. The trace gets one step per way the test ID was written.
  */
-export async function extractCodeSnippet(
-  filePath: string,
-  matchLine: number,
-  cwd: string,
-  contextLines = 10
-): Promise<CodeSnippet | undefined> {
-  try {
-    const content = await readFile(join(cwd, filePath), 'utf-8');
-    const allLines = content.split('\n');
-
-    const startLine = Math.max(1, matchLine - contextLines);
-    const endLine = Math.min(allLines.length, matchLine + contextLines);
-
-    const lines: CodeLine[] = [];
-    for (let i = startLine; i <= endLine; i++) {
-      lines.push({
-        lineNumber: i,
-        content: allLines[i - 1], // 0-indexed
-        isMatch: i === matchLine,
-      });
-    }
-
-    return { lines, startLine, endLine, matchLine };
-  } catch {
-    return undefined;
-  }
+function searchDataTestId(testId: string, index: SourceIndex, trace: ResolverOptions['trace']): FileMatch[] {
+  const { exactTestIds, testIds } = index.lookups();
+
+  const exactMatches = (exactTestIds.get(testId) ?? []).map((entry) => toFileMatch(entry, true));
+  for (const matchType of MATCH_TYPES) {
+    trace?.step(matchType, `"${testId}"`, exactMatches.filter((match) => match.matchType === matchType));
+  }
+  if (exactMatches.length > 0) {
+    return exactMatches;
+  }
+
+  const partialMatches = testIds
+    .filter((entry) =>
+      entry.patterns.some(
+        (pattern) => !isExactPattern(pattern) && hasLiteralContent(pattern) && patternMatches(pattern, testId)
+      )
+    )
+    .map((entry) => toFileMatch(entry, false));
+  trace?.step('partial', `"${testId}" through unknown parts of template values`, partialMatches);
+  return partialMatches;
 }
 
 /**
- * Determine confidence based on matches and testId relationship.
+ * Score the (non-empty) matches and the test ID's distance from the clicked element.
+ * High needs all of: a single match, a value known statically, and the test ID on the
+ * clicked element or an ancestor at most ANCESTOR_CLOSE_DEPTH levels up.
  */
 function resolveFromMatches(matches: FileMatch[], testIdInfo: TestIdInfo): ResolutionResult {
-  if (matches.length === 0) {
-    return { confidence: 'low', verified: false, filePath: '', source: 'heuristic' };
-  }
-
-  if (matches.length === 1) {
-    const isDirectOrClose = testIdInfo.onSelf || testIdInfo.depth <= 2;
-    return {
-      confidence: isDirectOrClose ? 'high' : 'medium',
-      verified: isDirectOrClose,
-      filePath: matches[0].filePath,
-      lineNumber: matches[0].lineNumber,
-      source: 'heuristic',
-    };
-  }
-
+  const signals: ConfidenceSignal[] = [];
   const uniqueFiles = [...new Set(matches.map((m) => m.filePath))];
 
-  if (uniqueFiles.length === 1) {
-    return {
-      confidence: 'medium',
-      verified: false,
-      filePath: matches[0].filePath,
-      lineNumber: matches[0].lineNumber,
-      source: 'heuristic',
-    };
+  if (matches.length === 1) {
+    const [match] = matches;
+    // Template literals and values matched through unknown parts don't prove the runtime value
+    const isStatic = match.exact && match.matchType !== 'template';
+    const isClose = testIdInfo.onSelf || testIdInfo.depth <= ANCESTOR_CLOSE_DEPTH;
+    signals.push(
+      { label: `unique ${match.matchType} test ID`, weight: 0.55 },
+      isStatic
+        ? { label: 'value known statically', weight: 0.15 }
+        : { label: 'value matched through unknown parts', weight: 0 },
+      {
+        label: testIdInfo.onSelf ? 'test ID on the clicked element' : `test ID on ancestor depth ${testIdInfo.depth}`,
+        weight: isClose ? 0.15 : 0,
+      }
+    );
+  } else if (uniqueFiles.length === 1) {
+    signals.push({ label: `${matches.length} elements with this test ID in one file`, weight: 0.5 });
+  } else {
+    signals.push({ label: `${matches.length} elements with this test ID in ${uniqueFiles.length} files`, weight: 0.3 });
   }
 
+  const score = scored(signals);
   return {
-    confidence: 'low',
-    verified: false,
+    ...score,
+    verified: score.confidence === 'high',
     filePath: matches[0].filePath,
     lineNumber: matches[0].lineNumber,
+    columnNumber: matches[0].columnNumber,
     source: 'heuristic',
   };
 }
 
+/**
+ * Find the closest test ID in any of the configured attributes (e.g. `data-qa`) on the
+ * clicked element or its ancestors. The overlay only reports `data-testid` as
+ * payload.testId, but the ancestor chain carries every attribute.
+ * Returns the payload unchanged if the chain has no closer test ID.
+ */
+export function withConfiguredTestId(payload: SelectionPayload, attributes: string[]): SelectionPayload {
+  const ancestors = Array.isArray(payload.ancestors) ? payload.ancestors : [];
+  const maxDepth = payload.testId ? payload.testId.depth : ancestors.length;
+
+  for (let depth = 0; depth < Math.min(maxDepth, ancestors.length); depth++) {
+    const elementAttributes = ancestors[depth]?.attributes ?? {};
+    const name = attributes.find((attribute) => elementAttributes[attribute.toLowerCase()]);
+    if (name) {
+      return {
+        ...payload,
+        testId: {
+          value: elementAttributes[name.toLowerCase()],
+          onSelf: depth === 0,
+          depth,
+          ancestorTagName: ancestors[depth].tagName,
+        },
+      };
+    }
+  }
+
+  return payload;
+}
+
 /**
  * TestId resolver - resolves data-testid to source files.
- * Returns null if payload has no testId (cannot handle).
+ * Returns null if payload has no testId (cannot handle) or no element has it in source.
  */
 export const testIdResolver: ResolverFn = async (payload, options) => {
   if (!payload.testId) {
     return null; // Cannot handle - no testId
   }
 
-  const matches = await searchDataTestId(payload.testId.value, options.cwd);
-  const result = resolveFromMatches(matches, payload.testId);
+  const matches = searchDataTestId(payload.testId.value, options.index, options.trace);
+  if (matches.length === 0) {
+    return null;
+  }
+
+  let result = resolveFromMatches(matches, payload.testId);
+
+  // The test ID is on an ancestor: point at the clicked element inside its JSX if we can tell
+  // which one it is, otherwise inside the child components it renders
+  const clicked = payload.ancestors?.[0];
+  const file = options.index.getFile(result.filePath);
+  if (clicked && file && payload.testId.depth > 0) {
+    const target = findClickedElement(options.index, file, matches[0].element, clicked, payload.testId.depth);
+    const child = target ? null : findInChildComponents(options.index, file, matches[0].element, clicked);
+    options.trace?.step(
+      'clicked element',
+      `<${clicked.tagName}> inside <${matches[0].tagName}>, in its JSX or the components it renders`,
+      target ? [{ ...target, filePath: file.filePath }] : child ? [{ ...child.element, filePath: child.file.filePath }] : []
+    );
+    if (target) {
+      // Picked by similarity, not proven: only the test ID's own element is verified
+      result = { ...result, verified: false, lineNumber: target.lineNumber, columnNumber: target.columnNumber };
+    } else if (child) {
+      result = withChildLocation(result, child);
+    }
+  }
 
   // Extract code snippet if we have a valid match
-  if (result.filePath && result.lineNumber) {
+  if (result.lineNumber) {
     result.codeSnippet = await extractCodeSnippet(
       result.filePath,
       result.lineNumber,
-      options.cwd
+      options.index
     );
   }
 
+  result.candidates = await buildCandidates(
+    'testId',
+    matches.map((match, i) => ({
+      filePath: i === 0 ? result.filePath : match.filePath,
+      lineNumber: i === 0 ? result.lineNumber : match.lineNumber,
+      columnNumber: i === 0 ? result.columnNumber : match.columnNumber,
+      // Every match is equally likely; partial (template) matches are weaker
+      score: (match.exact && match.matchType !== 'template' ? 1 : 0.5) / matches.length,
+    })),
+    options.index
+  );
+
   return result;
 };
 
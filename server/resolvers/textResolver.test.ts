@@ -0,0 +1,93 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { SelectionPayload } from '../../src/shared/types';
+import { DEFAULT_CONFIG } from '../config';
+import { createSourceIndex, type SourceIndex } from './sourceIndex';
+import { textResolver } from './textResolver';
+import type { ResolverOptions } from './types';
+
+const PROFILE = `const TITLE = 'Account settings';
+
+export function Profile({ name, onSave }: { name: string; onSave: () => void }) {
+  return (
+    <section>
+      <h2>{TITLE}</h2>
+      <p>
+        Hello,   {name}!
+      </p>
+      <button onClick={onSave}>Save</button>
+      <button>OK</button>
+      <Field label="Change name:" />
+    </section>
+  );
+}
+`;
+
+const DIALOG = `export const Dialog = () => <footer><button>OK</button></footer>;
+`;
+
+let cwd: string;
+let index: SourceIndex;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  cwd = await mkdtemp(join(tmpdir(), 'ui-agent-text-'));
+  await mkdir(join(cwd, 'src'));
+  await writeFile(join(cwd, 'src/Profile.tsx'), PROFILE);
+  await writeFile(join(cwd, 'src/Dialog.tsx'), DIALOG);
+  index = await createSourceIndex(cwd, DEFAULT_CONFIG);
+});
+
+afterAll(async () => {
+  await rm(cwd, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+function resolve(textSnippet: string, domOuterHtml: string) {
+  const payload: SelectionPayload = { pageUrl: '/', selector: '', testId: null, domOuterHtml, textSnippet, classes: [] };
+  const options: ResolverOptions = { cwd, index, config: DEFAULT_CONFIG };
+  return textResolver(payload, options);
+}
+
+test('resolves unique static text, including text from constants, to medium confidence', async () => {
+  expect(await resolve('Save', '<button>Save</button>')).toMatchObject({
+    filePath: 'src/Profile.tsx',
+    lineNumber: 10,
+    confidence: 'medium',
+    score: 0.6,
+    verified: false,
+  });
+  expect(await resolve('Account settings', '<h2>Account settings</h2>')).toMatchObject({ lineNumber: 6 });
+});
+
+test('matches interpolated text with collapsed whitespace', async () => {
+  const result = await resolve('Hello, Ada!', '<p>Hello, Ada!</p>');
+
+  expect(result).toMatchObject({ lineNumber: 7, confidence: 'medium' });
+  expect(result?.signals?.[0].label).toBe('interpolated text match');
+});
+
+test('scores short text rendered by several elements as low', async () => {
+  const result = await resolve('OK', '<button>OK</button>');
+
+  expect(result?.confidence).toBe('low');
+  expect(result?.candidates?.map((candidate) => candidate.filePath).sort()).toEqual([
+    'src/Dialog.tsx',
+    'src/Profile.tsx',
+  ]);
+});
+
+test('falls back to string literals with low confidence', async () => {
+  expect(await resolve('Change name:', '<label>Change name:</label>')).toMatchObject({
+    lineNumber: 12,
+    confidence: 'low',
+    score: 0.2,
+  });
+});
+
+test('returns null without text or a match', async () => {
+  expect(await resolve('   ', '<div></div>')).toBeNull();
+  expect(await resolve('Nowhere in the source', '<div></div>')).toBeNull();
+});
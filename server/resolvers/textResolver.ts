@@ -0,0 +1,175 @@
+import type { ResolutionResult, ResolverFn } from './types';
+import type { IndexedElementText } from './sourceIndex';
+import { isExactPattern, textPatternMatches, type StringPattern } from './staticValues';
+import { tagNameFromHtml } from './cssResolver';
+import { buildCandidates, type CandidateLocation } from './candidates';
+import { extractCodeSnippet } from './codeSnippet';
+import { scored } from './scoring';
+
+/**
+ * The frontend sends at most this many characters of text (see PickerLayer).
+ * A snippet this long was probably cut off, so it only has to match a prefix.
+ */
+const SNIPPET_MAX_LENGTH = 100;
+
+/**
+ * Texts shorter than this ("OK", "x", "1") are too common to tell elements apart.
+ */
+const MIN_DISTINCTIVE_LENGTH = 4;
+
+interface Candidate {
+  entry: IndexedElementText;
+  /** True if the text is fully static (no interpolations or child elements) */
+  exact: boolean;
+  /** Number of static characters in the matching pattern */
+  literalLength: number;
+  /** True if the JSX tag is the clicked element's tag (not a component) */
+  sameTag: boolean;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function literalLength(pattern: StringPattern): number {
+  return pattern.segments.reduce((sum, segment) => sum + collapseWhitespace(segment).length, 0);
+}
+
+function compareCandidates(a: Candidate, b: Candidate): number {
+  return (
+    Number(b.exact) - Number(a.exact) ||
+    Number(b.sameTag) - Number(a.sameTag) ||
+    b.literalLength - a.literalLength
+  );
+}
+
+/**
+ * Find elements whose rendered text could be the snippet.
+ */
+function findCandidates(
+  elementTexts: IndexedElementText[],
+  snippet: string,
+  isPrefix: boolean,
+  tagName: string | null
+): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const entry of elementTexts) {
+    const matching = entry.patterns.filter(
+      (pattern) => literalLength(pattern) > 0 && textPatternMatches(pattern, snippet, isPrefix)
+    );
+    if (matching.length === 0) continue;
+
+    const best = matching.find(isExactPattern) ?? matching[0];
+    candidates.push({
+      entry,
+      exact: isExactPattern(best),
+      literalLength: literalLength(best),
+      sameTag: tagName === null || entry.element.tagName === tagName,
+    });
+  }
+
+  return candidates.sort(compareCandidates);
+}
+
+/**
+ * How much of the snippet the candidate's static text accounts for,
+ * halved when the JSX tag isn't the clicked one.
+ */
+function scoreCandidate(candidate: Candidate, snippet: string): number {
+  const coverage = candidate.exact ? 1 : Math.min(1, candidate.literalLength / snippet.length);
+  return coverage * (candidate.sameTag ? 1 : 0.5);
+}
+
+/**
+ * Score the ranked candidates.
+ * Text is never proof, so the best we report is medium: a single element with
+ * the clicked tag must render it, and it must be long enough to mean something.
+ */
+function resolveFromCandidates(ranked: Candidate[]): ResolutionResult {
+  const [best] = ranked;
+  const sameTag = ranked.filter((c) => c.sameTag);
+  const isUnique = ranked.length === 1 || (best.sameTag && sameTag.length === 1);
+  const isDistinctive = best.literalLength >= MIN_DISTINCTIVE_LENGTH;
+
+  return {
+    ...scored([
+      { label: best.exact ? 'static text match' : 'interpolated text match', weight: 0.3 },
+      isUnique
+        ? { label: 'only element rendering this text', weight: 0.3 }
+        : { label: `${ranked.length} elements render this text`, weight: 0 },
+      ...(isDistinctive ? [] : [{ label: `text shorter than ${MIN_DISTINCTIVE_LENGTH} characters`, weight: -0.3 }]),
+    ]),
+    verified: false,
+    filePath: best.entry.file.filePath,
+    lineNumber: best.entry.element.lineNumber,
+    columnNumber: best.entry.element.columnNumber,
+    source: 'heuristic',
+  };
+}
+
+/**
+ * Text resolver - resolves the clicked element's visible text to JSX text children.
+ * Handles whitespace collapsing, constants and interpolated text (`Hello, {name}`).
+ * Falls back to string literals anywhere in the source (e.g. a label passed as a prop)
+ * with low confidence. Returns null if the element has no text or nothing matches.
+ */
+export const textResolver: ResolverFn = async (payload, options) => {
+  const snippet = collapseWhitespace(payload.textSnippet ?? '');
+  if (!snippet) {
+    return null; // Cannot handle - no text
+  }
+
+  const { elementTexts, stringLiterals } = options.index.lookups();
+  const isPrefix = (payload.textSnippet ?? '').trim().length >= SNIPPET_MAX_LENGTH;
+  const tagName = tagNameFromHtml(payload.domOuterHtml ?? '');
+  const ranked = findCandidates(elementTexts, snippet, isPrefix, tagName);
+  options.trace?.step(
+    'element text',
+    `"${snippet}"${isPrefix ? ' (prefix)' : ''}`,
+    ranked.map((candidate) => ({ ...candidate.entry.element, filePath: candidate.entry.file.filePath }))
+  );
+
+  let result: ResolutionResult | null = null;
+  let locations: CandidateLocation[] = [];
+
+  if (ranked.length > 0) {
+    result = resolveFromCandidates(ranked);
+    locations = ranked.map((candidate) => ({
+      filePath: candidate.entry.file.filePath,
+      lineNumber: candidate.entry.element.lineNumber,
+      columnNumber: candidate.entry.element.columnNumber,
+      score: scoreCandidate(candidate, snippet),
+    }));
+  } else {
+    const literals = stringLiterals.get(snippet) ?? [];
+    options.trace?.step(
+      'string literal',
+      `"${snippet}"`,
+      literals.map((literal) => ({ ...literal, filePath: literal.file.filePath }))
+    );
+    if (literals.length > 0) {
+      result = {
+        ...scored([{ label: `text found in ${literals.length} string ${literals.length === 1 ? 'literal' : 'literals'}`, weight: 0.2 }]),
+        verified: false,
+        filePath: literals[0].file.filePath,
+        lineNumber: literals[0].lineNumber,
+        columnNumber: literals[0].columnNumber,
+        source: 'heuristic',
+      };
+      locations = literals.map((literal) => ({
+        filePath: literal.file.filePath,
+        lineNumber: literal.lineNumber,
+        columnNumber: literal.columnNumber,
+        score: 1 / literals.length,
+      }));
+    }
+  }
+
+  if (result?.filePath && result.lineNumber) {
+    result.codeSnippet = await extractCodeSnippet(result.filePath, result.lineNumber, options.index);
+    result.candidates = await buildCandidates('text', locations, options.index);
+  }
+
+  return result;
+};
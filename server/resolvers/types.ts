@@ -1,15 +1,40 @@
-import type { SelectionPayload, CodeSnippet } from '../../src/shared/types';
+import type {
+  SelectionPayload,
+  CodeSnippet,
+  ConfidenceSignal,
+  ResolutionCandidate,
+  SourceLocation,
+} from '../../src/shared/types';
+import type { UiAgentConfig } from '../config';
+import type { SourceIndex } from './sourceIndex';
+import type { TraceRecorder } from './resolutionTrace';
 
 /**
  * Result of a resolution attempt.
  */
 export interface ResolutionResult {
+  /** Level for score (see confidenceForScore) */
   confidence: 'high' | 'medium' | 'low';
+  /**
+   * Between 0 and 1, the sum of the signals' weights. Built-in resolvers always set it;
+   * for custom resolvers that don't, the chain derives it from confidence.
+   */
+  score?: number;
+  /** Evidence behind the score */
+  signals?: ConfidenceSignal[];
   verified: boolean;
   filePath: string;
+  componentName?: string;
   lineNumber?: number;
+  columnNumber?: number;
   codeSnippet?: CodeSnippet;
+  /** Ranked alternatives, best first (the first one is this result's location) */
+  candidates?: ResolutionCandidate[];
+  /** Where the parent matched, when the location was followed into a child component */
+  parentLocation?: SourceLocation;
   source?: 'heuristic' | 'agent';
+  /** Trace of the resolution that produced it; set by the server, kept by the cache */
+  traceId?: string;
 }
 
 /**
@@ -18,8 +43,19 @@ export interface ResolutionResult {
 export interface ResolverOptions {
   /** Working directory to search in */
   cwd: string;
+  /** In-memory index of the source files in cwd */
+  index: SourceIndex;
+  /** Validated project configuration (ui-agent.config.*) */
+  config: UiAgentConfig;
+  /** Agent provider requested for this selection; defaults to config.agent.provider */
+  agentProvider?: string;
   /** Whether to use agent fallback when heuristics fail. Default: false */
   useAgentFallback?: boolean;
+  /**
+   * Records what the chain and the resolvers try. Resolvers report their lookups with
+   * `options.trace?.step(...)`; custom resolvers may ignore it.
+   */
+  trace?: TraceRecorder;
 }
 
 /**
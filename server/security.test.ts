@@ -0,0 +1,134 @@
+/** @jest-environment node */
+import { mkdir, mkdtemp, realpath, rm, symlink } from 'node:fs/promises';
+import type { IncomingHttpHeaders } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type express from 'express';
+import {
+  isAllowedOrigin,
+  originGuard,
+  rejectedSource,
+  resolveProjectPath,
+  SESSION_TOKEN_HEADER,
+  sessionTokenGuard,
+} from './security';
+
+const ALLOWED = ['http://localhost:*', 'https://app.example.com'];
+
+function request(path: string, headers: IncomingHttpHeaders): express.Request {
+  return {
+    method: 'POST',
+    path,
+    headers,
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as express.Request;
+}
+
+/**
+ * Run a middleware and report whether it let the request through, or what it answered.
+ */
+function run(handler: express.RequestHandler, req: express.Request) {
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+  const next = jest.fn();
+  void handler(req, res as unknown as express.Response, next);
+  return {
+    passed: next.mock.calls.length > 0,
+    status: res.status.mock.calls[0]?.[0] as number | undefined,
+    code: res.json.mock.calls[0]?.[0]?.error?.code as string | undefined,
+  };
+}
+
+describe('resolveProjectPath', () => {
+  let cwd: string;
+  let outside: string;
+
+  beforeAll(async () => {
+    cwd = await realpath(await mkdtemp(join(tmpdir(), 'ui-agent-security-')));
+    outside = await realpath(await mkdtemp(join(tmpdir(), 'ui-agent-outside-')));
+    await mkdir(join(cwd, 'src'));
+    await symlink(outside, join(cwd, 'src/linked'));
+  });
+
+  afterAll(async () => {
+    await rm(cwd, { recursive: true, force: true });
+    await rm(outside, { recursive: true, force: true });
+  });
+
+  test('resolves paths inside the project, including ones that do not exist yet', () => {
+    expect(resolveProjectPath(cwd, 'src/App.tsx')).toBe(join(cwd, 'src/App.tsx'));
+    expect(resolveProjectPath(cwd, './src/../src/new/Page.tsx')).toBe(join(cwd, 'src/new/Page.tsx'));
+  });
+
+  test('refuses paths that climb out of the project', () => {
+    expect(resolveProjectPath(cwd, '../secrets.txt')).toBeNull();
+    expect(resolveProjectPath(cwd, 'src/../../secrets.txt')).toBeNull();
+    expect(resolveProjectPath(cwd, '..')).toBeNull();
+    expect(resolveProjectPath(cwd, '.')).toBeNull();
+  });
+
+  test('refuses absolute, empty and NUL-containing paths', () => {
+    expect(resolveProjectPath(cwd, join(cwd, 'src/App.tsx'))).toBeNull();
+    expect(resolveProjectPath(cwd, '/etc/passwd')).toBeNull();
+    expect(resolveProjectPath(cwd, '')).toBeNull();
+    expect(resolveProjectPath(cwd, 'src/App.tsx\0.png')).toBeNull();
+  });
+
+  test('refuses paths through a symlink that leads out of the project', () => {
+    expect(resolveProjectPath(cwd, 'src/linked/file.ts')).toBeNull();
+  });
+});
+
+test('matches origins exactly, or on any port for a :* entry', () => {
+  expect(isAllowedOrigin('http://localhost:5173', ALLOWED)).toBe(true);
+  expect(isAllowedOrigin('http://localhost', ALLOWED)).toBe(true);
+  expect(isAllowedOrigin('https://localhost:5173', ALLOWED)).toBe(false);
+  expect(isAllowedOrigin('https://app.example.com', ALLOWED)).toBe(true);
+  expect(isAllowedOrigin('https://app.example.com:8443', ALLOWED)).toBe(false);
+  expect(isAllowedOrigin('https://evil.example.com', ALLOWED)).toBe(false);
+  expect(isAllowedOrigin('null', ALLOWED)).toBe(false);
+});
+
+test('rejects foreign origins and host names', () => {
+  expect(rejectedSource({ host: 'localhost:3001', origin: 'http://localhost:5173' }, ALLOWED)).toBeNull();
+  expect(rejectedSource({ host: '127.0.0.1:3001' }, ALLOWED)).toBeNull();
+  expect(rejectedSource({ host: 'app.example.com' }, ALLOWED)).toBeNull();
+
+  expect(rejectedSource({ host: 'localhost:3001', origin: 'https://evil.example.com' }, ALLOWED)).toMatch(
+    /^Origin https:\/\/evil.example.com is not allowed/
+  );
+  expect(rejectedSource({ host: 'rebound.example.com:3001' }, ALLOWED)).toBe(
+    'Host rebound.example.com:3001 is not allowed'
+  );
+  expect(rejectedSource({}, ALLOWED)).toBe('Host (none) is not allowed');
+});
+
+test('the origin guard answers 403 to rejected requests', () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  const guard = originGuard(ALLOWED);
+
+  expect(run(guard, request('/health', { host: 'localhost:3001', origin: 'http://localhost:5173' }))).toEqual({
+    passed: true,
+    status: undefined,
+    code: undefined,
+  });
+  expect(run(guard, request('/health', { host: 'localhost:3001', origin: 'https://evil.example.com' }))).toEqual({
+    passed: false,
+    status: 403,
+    code: 'forbidden',
+  });
+  jest.restoreAllMocks();
+});
+
+test('the session token guard requires the token except on public paths', () => {
+  const guard = sessionTokenGuard('secret-token', ['/session']);
+  const header = SESSION_TOKEN_HEADER.toLowerCase();
+
+  expect(run(guard, request('/session', {})).passed).toBe(true);
+  expect(run(guard, request('/resolve-selection', { [header]: 'secret-token' })).passed).toBe(true);
+  expect(run(guard, request('/resolve-selection', {}))).toEqual({ passed: false, status: 401, code: 'unauthorized' });
+  expect(run(guard, request('/resolve-selection', { [header]: 'wrong-token' }))).toEqual({
+    passed: false,
+    status: 401,
+    code: 'unauthorized',
+  });
+});
@@ -0,0 +1,159 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { realpathSync } from 'node:fs';
+import type { IncomingHttpHeaders } from 'node:http';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import type express from 'express';
+import { sendError } from './errors';
+
+/**
+ * Header carrying the session token on every request but the public ones.
+ */
+export const SESSION_TOKEN_HEADER = 'X-UI-Agent-Token';
+
+/**
+ * Host names the backend answers to besides those of the allowed origins. Anything else
+ * in the Host header means the request was routed here by a foreign name (DNS rebinding).
+ */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * A fresh random token for this server run. Clients get it from GET /session (or have it
+ * injected) and send it in the SESSION_TOKEN_HEADER.
+ */
+export function createSessionToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+function tokensMatch(received: string, expected: string): boolean {
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Whether an Origin header matches one of the allowed origins (see UiAgentConfig.allowedOrigins).
+ */
+export function isAllowedOrigin(origin: string, allowedOrigins: string[]): boolean {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+
+  return allowedOrigins.some((allowed) => {
+    if (allowed.endsWith(':*')) {
+      const base = new URL(allowed.slice(0, -2));
+      return url.protocol === base.protocol && url.hostname === base.hostname;
+    }
+    return url.origin === new URL(allowed).origin;
+  });
+}
+
+function hostName(host: string | undefined): string | null {
+  if (!host) return null;
+  try {
+    return new URL(`http://${host}`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why a request must be refused, or null if it may pass: it comes from a page outside the
+ * allowlist, or is addressed to a host name that is neither loopback nor one of the allowed
+ * origins' hosts. Requests without an Origin header (curl, same-origin GETs) pass.
+ */
+export function rejectedSource(headers: IncomingHttpHeaders, allowedOrigins: string[]): string | null {
+  const allowedHosts = [
+    ...LOOPBACK_HOSTS,
+    ...allowedOrigins.map((origin) => new URL(origin.replace(/:\*$/, '')).hostname),
+  ];
+
+  const host = hostName(headers.host);
+  if (!host || !allowedHosts.includes(host)) {
+    return `Host ${headers.host ?? '(none)'} is not allowed`;
+  }
+  if (headers.origin !== undefined && !isAllowedOrigin(headers.origin, allowedOrigins)) {
+    return `Origin ${headers.origin} is not allowed; add it to allowedOrigins in the ui-agent config`;
+  }
+  return null;
+}
+
+/**
+ * Refuse requests rejectedSource() objects to. The session token still applies to the rest.
+ */
+export function originGuard(allowedOrigins: string[]): express.RequestHandler {
+  return (req, res, next) => {
+    const rejection = rejectedSource(req.headers, allowedOrigins);
+    if (rejection) {
+      console.warn(`[ui-agent] Rejected ${req.method} ${req.path}: ${rejection}`);
+      sendError(res, 'forbidden', rejection);
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Require the session token on every request except the given paths.
+ * Preflight requests never carry it; cors() answers them before this runs.
+ */
+export function sessionTokenGuard(token: string, publicPaths: string[]): express.RequestHandler {
+  return (req, res, next) => {
+    if (publicPaths.includes(req.path)) {
+      next();
+      return;
+    }
+
+    const received = req.get(SESSION_TOKEN_HEADER);
+    if (!received || !tokensMatch(received, token)) {
+      sendError(
+        res,
+        'unauthorized',
+        received ? 'Session token is not valid for this server run' : `Missing ${SESSION_TOKEN_HEADER} header`
+      );
+      return;
+    }
+    next();
+  };
+}
+
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel !== '' && rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/**
+ * A path with its symlinks resolved. Parts that don't exist yet are kept as they are,
+ * below the real path of their nearest existing ancestor.
+ */
+function realPath(path: string): string {
+  let existing = path;
+  for (;;) {
+    try {
+      return join(realpathSync(existing), relative(existing, path));
+    } catch {
+      const parent = dirname(existing);
+      if (parent === existing) return path;
+      existing = parent;
+    }
+  }
+}
+
+/**
+ * Absolute path of a project-relative path, or null if it points outside the project root:
+ * absolute paths, `..` segments that climb out, and symlinks that lead out are all refused.
+ *
+ * @param cwd - Project root
+ * @param filePath - Path relative to the project root, as sent by a client or an agent
+ */
+export function resolveProjectPath(cwd: string, filePath: string): string | null {
+  if (!filePath || filePath.includes('\0') || isAbsolute(filePath)) return null;
+
+  const fullPath = resolve(cwd, filePath);
+  if (!isInside(resolve(cwd), fullPath) || !isInside(realPath(resolve(cwd)), realPath(fullPath))) {
+    return null;
+  }
+  return fullPath;
+}
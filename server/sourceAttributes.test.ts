@@ -0,0 +1,96 @@
+/** @jest-environment node */
+import ts from 'typescript';
+import { parseSourceAttribute } from '../src/shared/sourceAttribute';
+import { addSourceAttributes } from './sourceAttributes';
+
+const CARD = `export function Card({ title }: { title: string }) {
+  return (
+    <section className="card">
+      <h2>{title}</h2>
+      <Button variant="primary" />
+      <motion.div />
+      <img src="x.png" alt="" />
+    </section>
+  );
+}
+`;
+
+test('stamps host elements with their location, right after the tag name', () => {
+  expect(addSourceAttributes(CARD, 'src/Card.tsx')?.toString()).toBe(`export function Card({ title }: { title: string }) {
+  return (
+    <section data-ui-agent-src={"src/Card.tsx:3:5"} className="card">
+      <h2 data-ui-agent-src={"src/Card.tsx:4:7"}>{title}</h2>
+      <Button variant="primary" />
+      <motion.div />
+      <img data-ui-agent-src={"src/Card.tsx:7:7"} src="x.png" alt="" />
+    </section>
+  );
+}
+`);
+});
+
+test('keeps lines and the columns of stamped tags as written', () => {
+  const stamped = addSourceAttributes(CARD, 'src/Card.tsx')?.toString() ?? '';
+  const lines = stamped.split('\n');
+
+  expect(lines).toHaveLength(CARD.split('\n').length);
+  for (const match of stamped.matchAll(/data-ui-agent-src=\{"([^"]+)"\}/g)) {
+    const location = parseSourceAttribute(match[1]);
+    const line = lines[(location?.lineNumber ?? 0) - 1];
+    expect(line.charAt((location?.columnNumber ?? 0) - 1)).toBe('<');
+  }
+});
+
+test('generates a source map for the edited file', () => {
+  const map = addSourceAttributes(CARD, 'src/Card.tsx')?.generateMap({ hires: true, source: 'src/Card.tsx' });
+
+  expect(map?.sources).toEqual(['src/Card.tsx']);
+  expect(map?.mappings.split(';')).toHaveLength(CARD.split('\n').length);
+});
+
+test('leaves elements that already carry the attribute alone', () => {
+  const code = `export const Link = () => <a data-ui-agent-src="lib/Link.tsx:1:1" href="/">Home</a>;\n`;
+
+  expect(addSourceAttributes(code, 'src/Link.tsx')).toBeNull();
+});
+
+test('returns null when there is nothing to stamp', () => {
+  expect(addSourceAttributes(`export const App = () => <Layout><Page /></Layout>;\n`, 'src/App.tsx')).toBeNull();
+  expect(addSourceAttributes(`export const sum = (a: number, b: number) => a + b;\n`, 'src/sum.ts')).toBeNull();
+});
+
+/**
+ * The string each stamp evaluates to, as TypeScript parses the stamped file.
+ */
+function stampedValues(code: string): string[] {
+  const source = ts.createSourceFile('stamped.tsx', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+  const values: string[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxAttribute(node) && node.initializer && ts.isJsxExpression(node.initializer)) {
+      const { expression } = node.initializer;
+      if (expression && ts.isStringLiteral(expression)) values.push(expression.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return values;
+}
+
+test('keeps paths with quotes, ampersands, braces and backslashes intact', () => {
+  const code = `export const App = () => <div />;\n`;
+
+  for (const filePath of ['src/"quoted".tsx', 'src/R&D/App.tsx', 'src/{id}/App.tsx', 'src\\pages\\App.tsx']) {
+    const values = stampedValues(addSourceAttributes(code, filePath)?.toString() ?? '');
+
+    expect(values).toEqual([`${filePath}:1:26`]);
+    expect(parseSourceAttribute(values[0])).toEqual({ filePath, lineNumber: 1, columnNumber: 26 });
+  }
+});
+
+test('parses .jsx files as JSX', () => {
+  const code = `export const Hint = (props) => <p {...props}>Hint</p>;\n`;
+
+  expect(addSourceAttributes(code, 'src/Hint.jsx')?.toString()).toBe(
+    `export const Hint = (props) => <p data-ui-agent-src={"src/Hint.jsx:1:32"} {...props}>Hint</p>;\n`
+  );
+});
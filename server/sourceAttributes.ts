@@ -0,0 +1,50 @@
+import MagicString from 'magic-string';
+import ts from 'typescript';
+import { SOURCE_ATTRIBUTE } from '../src/shared/sourceAttribute';
+
+/**
+ * Host elements are written in lowercase (`div`, `my-element`); components, member
+ * expressions (`motion.div`) and namespaced names (`svg:rect`) are left alone.
+ */
+function isHostTag(tagName: ts.JsxTagNameExpression): boolean {
+  return ts.isIdentifier(tagName) && /^[a-z]/.test(tagName.text);
+}
+
+/**
+ * Stamp every host JSX element in a file with SOURCE_ATTRIBUTE.
+ * The attribute goes right after the tag name, so lines and the columns of the stamped
+ * tags stay as written; only what follows on the same line moves.
+ * The value is written as a string expression, so paths with `"`, `&`, braces or
+ * backslashes come through as they are.
+ * Returns the edited file (for its code and source map), or null if there is nothing to stamp.
+ *
+ * @param code - File contents
+ * @param filePath - Path relative to the project root, using forward slashes
+ */
+export function addSourceAttributes(code: string, filePath: string): MagicString | null {
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    filePath.endsWith('.jsx') ? ts.ScriptKind.JSX : ts.ScriptKind.TSX
+  );
+
+  const stamped = new MagicString(code);
+  const visit = (node: ts.Node) => {
+    if ((ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) && isHostTag(node.tagName)) {
+      const hasAttribute = node.attributes.properties.some(
+        (prop) => ts.isJsxAttribute(prop) && prop.name.getText(sourceFile) === SOURCE_ATTRIBUTE
+      );
+      if (!hasAttribute) {
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        const value = JSON.stringify(`${filePath}:${line + 1}:${character + 1}`);
+        stamped.appendLeft(node.tagName.end, ` ${SOURCE_ATTRIBUTE}={${value}}`);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return stamped.hasChanged() ? stamped : null;
+}
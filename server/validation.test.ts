@@ -0,0 +1,115 @@
+/** @jest-environment node */
+import { tmpdir } from 'node:os';
+import type { ComponentContext, SelectionPayload } from '../src/shared/types';
+import { validateResolveSelectionRequest, validateRetryRequest, validateSubmissionRequest } from './validation';
+
+const cwd = tmpdir();
+
+const selection: SelectionPayload = {
+  pageUrl: '/users',
+  selector: 'button.save',
+  testId: { value: 'save-button', onSelf: true, depth: 0, ancestorTagName: 'button' },
+  domOuterHtml: '<button class="save">Save</button>',
+  textSnippet: 'Save',
+  classes: ['save'],
+};
+
+const context: ComponentContext = {
+  id: 'ctx-1',
+  source: 'heuristic',
+  filePath: 'src/Users.tsx',
+  lineNumber: 12,
+  confidence: 'high',
+  selectorSummary: 'button.save',
+  domSummary: '<button>',
+  needsVerification: false,
+  verified: true,
+};
+
+test('accepts a valid selection and ignores unknown keys', () => {
+  const body = { ...selection, useAgentFallback: true, agentProvider: 'stub', extra: 1 };
+
+  expect(validateResolveSelectionRequest(body)).toEqual({ value: body });
+  expect(validateResolveSelectionRequest({ ...selection, testId: null })).toHaveProperty('value');
+});
+
+test('reports every problem in a selection with its path', () => {
+  const result = validateResolveSelectionRequest({
+    ...selection,
+    selector: undefined,
+    testId: { value: 'save-button', onSelf: 'yes', depth: -1, ancestorTagName: 'button' },
+    classes: ['save', 3],
+    ancestors: [{ tagName: '', attributes: { id: 1 }, selector: 'div', textSummary: '' }],
+    agentProvider: 'other',
+  });
+
+  expect(result).toEqual({
+    details: [
+      { path: 'selector', message: 'is required' },
+      { path: 'testId.onSelf', message: 'must be true or false' },
+      { path: 'testId.depth', message: 'must be an integer of at least 0' },
+      { path: 'classes[1]', message: 'must be a string' },
+      { path: 'ancestors[0].tagName', message: 'must not be empty' },
+      { path: 'ancestors[0].attributes.id', message: 'must be a string' },
+      { path: 'agentProvider', message: 'must be one of cursor, command, stub' },
+    ],
+  });
+  expect(validateResolveSelectionRequest(null)).toEqual({ details: [{ path: '', message: 'must be an object' }] });
+  expect(validateResolveSelectionRequest(undefined)).toEqual({ details: [{ path: '', message: 'is required' }] });
+});
+
+test('collects the contexts of a submission in selection order', () => {
+  const single = validateSubmissionRequest({ componentContext: context, userMessage: 'Make it blue' }, cwd);
+  expect(single).toMatchObject({ value: { contexts: [context] } });
+
+  const second = { ...context, id: 'ctx-2', filePath: 'src/Header.tsx' };
+  const multiple = validateSubmissionRequest({ componentContexts: [context, second], userMessage: 'Align them' }, cwd);
+  expect(multiple).toMatchObject({ value: { contexts: [context, second] } });
+});
+
+test('requires exactly one of componentContext and componentContexts', () => {
+  expect(validateSubmissionRequest({ userMessage: 'Fix it' }, cwd)).toEqual({
+    details: [{ path: 'componentContext', message: 'is required' }],
+  });
+  expect(
+    validateSubmissionRequest({ componentContext: context, componentContexts: [context], userMessage: 'Fix it' }, cwd)
+  ).toEqual({ details: [{ path: 'componentContexts', message: 'must not be sent together with componentContext' }] });
+  expect(validateSubmissionRequest({ componentContexts: [], userMessage: 'Fix it' }, cwd)).toEqual({
+    details: [{ path: 'componentContexts', message: 'must not be empty' }],
+  });
+});
+
+test('refuses unverified contexts and files outside the project root', () => {
+  const result = validateSubmissionRequest(
+    {
+      componentContexts: [
+        { ...context, verified: false },
+        {
+          ...context,
+          filePath: '../outside.tsx',
+          candidates: [{ filePath: '/etc/passwd', score: 0.5, resolver: 'text' }],
+          parentLocation: { filePath: 'src/../../parent.tsx' },
+        },
+      ],
+      userMessage: 'Fix it',
+    },
+    cwd
+  );
+
+  expect(result).toEqual({
+    details: [
+      { path: 'componentContexts[0].verified', message: 'must be verified before submission' },
+      { path: 'componentContexts[1].filePath', message: 'must be a path inside the project root' },
+      { path: 'componentContexts[1].candidates[0].filePath', message: 'must be a path inside the project root' },
+      { path: 'componentContexts[1].parentLocation.filePath', message: 'must be a path inside the project root' },
+    ],
+  });
+});
+
+test('requires a non-empty message to retry', () => {
+  expect(validateRetryRequest({ userMessage: 'Try again' })).toEqual({ value: { userMessage: 'Try again' } });
+  expect(validateRetryRequest({ userMessage: '  ' })).toEqual({
+    details: [{ path: 'userMessage', message: 'must not be empty' }],
+  });
+  expect(validateRetryRequest({})).toEqual({ details: [{ path: 'userMessage', message: 'is required' }] });
+});
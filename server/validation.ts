@@ -0,0 +1,254 @@
+import type {
+  ComponentContext,
+  ResolveSelectionRequest,
+  SubmissionRequest,
+  UiAgentErrorDetail,
+} from '../src/shared/types';
+import { AGENT_PROVIDERS } from './config';
+import { resolveProjectPath } from './security';
+
+/**
+ * Checks a value against one of the shared types, adding a detail for every problem.
+ * Unknown object keys are ignored.
+ */
+type Check = (value: unknown, path: string, details: UiAgentErrorDetail[]) => void;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Missing values are reported as such rather than as having the wrong type.
+ */
+function problem(value: unknown, message: string): string {
+  return value === undefined ? 'is required' : message;
+}
+
+function string({ nonEmpty = false } = {}): Check {
+  return (value, path, details) => {
+    if (typeof value !== 'string') {
+      details.push({ path, message: problem(value, 'must be a string') });
+    } else if (nonEmpty && !value.trim()) {
+      details.push({ path, message: 'must not be empty' });
+    }
+  };
+}
+
+const boolean: Check = (value, path, details) => {
+  if (typeof value !== 'boolean') details.push({ path, message: problem(value, 'must be true or false') });
+};
+
+const number: Check = (value, path, details) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    details.push({ path, message: problem(value, 'must be a number') });
+  }
+};
+
+function integer({ min = 0 } = {}): Check {
+  return (value, path, details) => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+      details.push({ path, message: problem(value, `must be an integer of at least ${min}`) });
+    }
+  };
+}
+
+function oneOf(values: readonly string[]): Check {
+  return (value, path, details) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      details.push({ path, message: problem(value, `must be one of ${values.join(', ')}`) });
+    }
+  };
+}
+
+function optional(check: Check): Check {
+  return (value, path, details) => {
+    if (value !== undefined) check(value, path, details);
+  };
+}
+
+function nullable(check: Check): Check {
+  return (value, path, details) => {
+    if (value !== null) check(value, path, details);
+  };
+}
+
+function array(item: Check, { nonEmpty = false } = {}): Check {
+  return (value, path, details) => {
+    if (!Array.isArray(value)) {
+      details.push({ path, message: problem(value, 'must be an array') });
+      return;
+    }
+    if (nonEmpty && value.length === 0) {
+      details.push({ path, message: 'must not be empty' });
+    }
+    value.forEach((entry, i) => item(entry, `${path}[${i}]`, details));
+  };
+}
+
+/**
+ * An object with string keys and values of one type (e.g. HTML attributes).
+ */
+function record(item: Check): Check {
+  return (value, path, details) => {
+    if (!isRecord(value)) {
+      details.push({ path, message: problem(value, 'must be an object') });
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) item(entry, path ? `${path}.${key}` : key, details);
+  };
+}
+
+function object(shape: Record<string, Check>): Check {
+  return (value, path, details) => {
+    if (!isRecord(value)) {
+      details.push({ path, message: problem(value, 'must be an object') });
+      return;
+    }
+    for (const [key, check] of Object.entries(shape)) check(value[key], path ? `${path}.${key}` : key, details);
+  };
+}
+
+const testIdInfo = object({
+  value: string(),
+  onSelf: boolean,
+  depth: integer(),
+  ancestorTagName: string(),
+});
+
+const elementInfo = object({
+  tagName: string({ nonEmpty: true }),
+  attributes: record(string()),
+  selector: string(),
+  textSummary: string(),
+});
+
+const componentStackFrame = object({
+  componentName: string(),
+  fileName: optional(string()),
+  lineNumber: optional(integer()),
+  columnNumber: optional(integer()),
+});
+
+const sourceLocation = {
+  filePath: string({ nonEmpty: true }),
+  lineNumber: optional(integer({ min: 1 })),
+  columnNumber: optional(integer()),
+};
+
+const selectionPayload = {
+  pageUrl: string(),
+  selector: string(),
+  testId: nullable(testIdInfo),
+  domOuterHtml: string(),
+  textSnippet: string(),
+  classes: array(string()),
+  ancestors: optional(array(elementInfo)),
+  componentStack: optional(array(componentStackFrame)),
+  sourceLocation: optional(object({ ...sourceLocation, componentName: optional(string()) })),
+};
+
+const resolveSelectionRequest = object({
+  ...selectionPayload,
+  useAgentFallback: optional(boolean),
+  agentProvider: optional(oneOf(AGENT_PROVIDERS)),
+});
+
+const codeSnippet = object({
+  lines: array(object({ lineNumber: integer({ min: 1 }), content: string(), isMatch: boolean })),
+  startLine: integer({ min: 1 }),
+  endLine: integer({ min: 1 }),
+  matchLine: integer({ min: 1 }),
+});
+
+const componentContext = object({
+  ...sourceLocation,
+  id: string(),
+  source: oneOf(['heuristic', 'agent']),
+  confidence: oneOf(['high', 'medium', 'low']),
+  score: optional(number),
+  signals: optional(array(object({ resolver: optional(string()), label: string(), weight: number }))),
+  componentName: optional(string()),
+  selectorSummary: string(),
+  domSummary: string(),
+  needsVerification: boolean,
+  probeId: optional(string()),
+  verified: boolean,
+  codeSnippet: optional(codeSnippet),
+  candidates: optional(
+    array(object({ ...sourceLocation, codeSnippet: optional(codeSnippet), score: number, resolver: string() }))
+  ),
+  parentLocation: optional(object({ ...sourceLocation, componentName: optional(string()) })),
+  traceId: optional(string()),
+});
+
+const submissionRequest = object({
+  componentContext: optional(componentContext),
+  componentContexts: optional(array(componentContext, { nonEmpty: true })),
+  userMessage: string({ nonEmpty: true }),
+  agentProvider: optional(oneOf(AGENT_PROVIDERS)),
+  sandbox: optional(boolean),
+});
+
+const retryRequest = object({ userMessage: string({ nonEmpty: true }) });
+
+type Validated<T> = { value: T } | { details: UiAgentErrorDetail[] };
+
+function validate<T>(check: Check, value: unknown): Validated<T> {
+  const details: UiAgentErrorDetail[] = [];
+  check(value, '', details);
+  return details.length > 0 ? { details } : { value: value as T };
+}
+
+export function validateResolveSelectionRequest(body: unknown): Validated<ResolveSelectionRequest> {
+  return validate(resolveSelectionRequest, body);
+}
+
+/**
+ * Check a submission's shape and collect its contexts, in selection order.
+ * Exactly one of componentContext and componentContexts must be set, every context must be
+ * verified, and every file it names must be inside the project root.
+ *
+ * @param cwd - Project root
+ */
+export function validateSubmissionRequest(
+  body: unknown,
+  cwd: string
+): Validated<SubmissionRequest & { contexts: ComponentContext[] }> {
+  const validated = validate<SubmissionRequest>(submissionRequest, body);
+  if ('details' in validated) return validated;
+
+  const request = validated.value;
+  if (request.componentContext && request.componentContexts) {
+    return { details: [{ path: 'componentContexts', message: 'must not be sent together with componentContext' }] };
+  }
+  if (!request.componentContext && !request.componentContexts) {
+    return { details: [{ path: 'componentContext', message: 'is required' }] };
+  }
+
+  const contexts = request.componentContexts ?? [request.componentContext as ComponentContext];
+  const details = contexts.flatMap((context, i) => {
+    const path = request.componentContexts ? `componentContexts[${i}]` : 'componentContext';
+    const locations = [
+      { path: `${path}.filePath`, filePath: context.filePath },
+      ...(context.candidates ?? []).map((candidate, j) => ({
+        path: `${path}.candidates[${j}].filePath`,
+        filePath: candidate.filePath,
+      })),
+      ...(context.parentLocation
+        ? [{ path: `${path}.parentLocation.filePath`, filePath: context.parentLocation.filePath }]
+        : []),
+    ];
+
+    return [
+      ...(context.verified ? [] : [{ path: `${path}.verified`, message: 'must be verified before submission' }]),
+      ...locations
+        .filter((location) => !resolveProjectPath(cwd, location.filePath))
+        .map((location) => ({ path: location.path, message: 'must be a path inside the project root' })),
+    ];
+  });
+  return details.length > 0 ? { details } : { value: { ...request, contexts } };
+}
+
+export function validateRetryRequest(body: unknown): Validated<{ userMessage: string }> {
+  return validate(retryRequest, body);
+}
@@ -0,0 +1,132 @@
+/** @jest-environment node */
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin, ResolvedConfig, ViteDevServer } from 'vite';
+import type { UiAgentApp } from './app';
+import { DEFAULT_CONFIG } from './config';
+import * as security from './security';
+import * as sourceAttributes from './sourceAttributes';
+import { uiAgent, uiAgentSourceAttributes } from './vitePlugin';
+
+const ROOT = '/project';
+
+type Middleware = (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void) => void;
+
+/**
+ * Call a plugin hook the way Vite does (they are plain functions in these plugins).
+ */
+function hook<K extends keyof Plugin>(plugin: Plugin, name: K, ...args: unknown[]): unknown {
+  return (plugin[name] as (...args: unknown[]) => unknown)(...args);
+}
+
+const backend = {
+  app: jest.fn((_req: IncomingMessage, res: ServerResponse) => res.end('from backend')),
+  config: DEFAULT_CONFIG,
+  sessionToken: 'token-1',
+  close: jest.fn(),
+};
+
+/**
+ * A dev server that loads the stand-in backend, and the middlewares plugins add to it.
+ */
+function devServer() {
+  const middlewares: { path?: string; handle: Middleware }[] = [];
+  const server = {
+    config: { root: ROOT, logger: { info: jest.fn(), error: jest.fn() } },
+    httpServer: null,
+    middlewares: {
+      use: (...args: [Middleware] | [string, Middleware]) =>
+        middlewares.push(args.length === 1 ? { handle: args[0] } : { path: args[0], handle: args[1] }),
+    },
+    ssrLoadModule: async (filePath: string) => {
+      if (filePath.endsWith('app.ts')) return { createUiAgentApp: async () => backend as unknown as UiAgentApp };
+      if (filePath.endsWith('security.ts')) return security;
+      return sourceAttributes;
+    },
+  };
+  return { server: server as unknown as ViteDevServer, middlewares };
+}
+
+/**
+ * Run a middleware until it answers or passes the request on.
+ */
+function request(handle: Middleware, url: string, headers: Record<string, string>) {
+  return new Promise<{ passed: boolean; status?: number; body?: string }>((resolve) => {
+    const res = {
+      statusCode: 200,
+      end(body: string) {
+        resolve({ passed: false, status: this.statusCode, body });
+      },
+    };
+    handle({ url, headers } as IncomingMessage, res as unknown as ServerResponse, () => resolve({ passed: true }));
+  });
+}
+
+test('serves the overlay module with the backend URL and session token', async () => {
+  const plugin = uiAgent({ prefix: '/__agent' });
+  expect(plugin.apply).toBe('serve');
+  await expect(async () => hook(plugin, 'load', '\0virtual:ui-agent-overlay')).rejects.toThrow(
+    'The backend only runs in the Vite dev server'
+  );
+
+  hook(plugin, 'configureServer', devServer().server);
+  const id = hook(plugin, 'resolveId', 'virtual:ui-agent-overlay');
+  const code = await hook(plugin, 'load', id);
+
+  expect(id).toBe('\0virtual:ui-agent-overlay');
+  expect(code).toContain('initUiAgentOverlay({"baseUrl":"/__agent","sessionToken":"token-1"});');
+  expect(code).toMatch(/import \{ initUiAgentOverlay \} from ".*src\/dev-tools-agent\/index\.ts";/);
+  expect(hook(plugin, 'resolveId', './App.tsx')).toBeUndefined();
+});
+
+test('adds the overlay script to index.html unless turned off', () => {
+  const plugin = uiAgent();
+  hook(plugin, 'configResolved', { base: '/app/' } as ResolvedConfig);
+
+  expect(hook(plugin, 'transformIndexHtml')).toEqual([
+    {
+      tag: 'script',
+      attrs: { type: 'module', src: '/app/@id/__x00__virtual:ui-agent-overlay' },
+      injectTo: 'body',
+    },
+  ]);
+  expect(hook(uiAgent({ overlay: false }), 'transformIndexHtml')).toEqual([]);
+});
+
+test('hands the overlay module only to allowed pages and mounts the backend under the prefix', async () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  const { server, middlewares } = devServer();
+  hook(uiAgent(), 'configureServer', server);
+  const [overlayGuard, mounted] = middlewares;
+  const overlayUrl = '/@id/__x00__virtual:ui-agent-overlay';
+
+  expect(await request(overlayGuard.handle, overlayUrl, { host: 'localhost:5173' })).toEqual({ passed: true });
+  expect(
+    await request(overlayGuard.handle, overlayUrl, { host: 'localhost:5173', origin: 'https://evil.example' })
+  ).toMatchObject({ passed: false, status: 403 });
+  expect(await request(overlayGuard.handle, '/src/main.tsx', { host: 'evil.example' })).toEqual({ passed: true });
+
+  expect(mounted.path).toBe('/__ui-agent');
+  expect(await request(mounted.handle, '/health', { host: 'localhost:5173' })).toMatchObject({
+    body: 'from backend',
+  });
+  jest.restoreAllMocks();
+});
+
+test('stamps the project JSX files in the dev server only', async () => {
+  const plugin = uiAgentSourceAttributes();
+  expect(plugin.enforce).toBe('pre');
+  hook(plugin, 'configResolved', { root: ROOT, command: 'serve', isProduction: false } as ResolvedConfig);
+  hook(plugin, 'configureServer', devServer().server);
+  const code = 'export const App = () => <main />;\n';
+
+  const stamped = (await hook(plugin, 'transform', code, `${ROOT}/src/App.tsx?v=123`)) as { code: string };
+  expect(stamped.code).toBe('export const App = () => <main data-ui-agent-src={"src/App.tsx:1:26"} />;\n');
+  expect(await hook(plugin, 'transform', code, `${ROOT}/src/constants.ts`)).toBeNull();
+  expect(await hook(plugin, 'transform', code, `${ROOT}/node_modules/lib/Button.jsx`)).toBeNull();
+  expect(await hook(plugin, 'transform', code, '/elsewhere/App.tsx')).toBeNull();
+
+  const production = uiAgentSourceAttributes();
+  hook(production, 'configResolved', { root: ROOT, command: 'serve', isProduction: true } as ResolvedConfig);
+  hook(production, 'configureServer', devServer().server);
+  expect(await hook(production, 'transform', code, `${ROOT}/src/App.tsx`)).toBeNull();
+});
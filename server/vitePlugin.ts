@@ -0,0 +1,166 @@
+import { relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Plugin } from 'vite';
+import type { UiAgentApp } from './app';
+
+export interface UiAgentPluginOptions {
+  /** Path the backend routes are mounted under on the dev server. Default: /__ui-agent */
+  prefix?: string;
+  /** Add the overlay to every page served from index.html. Default: true */
+  overlay?: boolean;
+}
+
+const OVERLAY_MODULE_ID = 'virtual:ui-agent-overlay';
+const RESOLVED_OVERLAY_MODULE_ID = `\0${OVERLAY_MODULE_ID}`;
+
+/**
+ * The overlay's entry point, imported by the generated overlay module.
+ */
+const OVERLAY_ENTRY = fileURLToPath(new URL('../src/dev-tools-agent/index.ts', import.meta.url));
+
+/**
+ * Server modules the plugins load through the dev server (ssrLoadModule) once it starts.
+ * Vite bundles the config file and hoists whatever it imports, even dynamically, so
+ * importing them from here would load express and the TypeScript parser on `vite build` too.
+ */
+const APP_MODULE = fileURLToPath(new URL('./app.ts', import.meta.url));
+const SECURITY_MODULE = fileURLToPath(new URL('./security.ts', import.meta.url));
+const SOURCE_ATTRIBUTES_MODULE = fileURLToPath(new URL('./sourceAttributes.ts', import.meta.url));
+
+/**
+ * Runs the UI-Agent backend inside the Vite dev server and adds the overlay to the app,
+ * configured with the backend's URL and session token. Dev server only: nothing of it
+ * reaches a build.
+ *
+ * The backend starts in the background, so the dev server doesn't wait for the source
+ * index; requests to it wait instead. Config and custom resolvers are loaded through Vite,
+ * so TypeScript works without tsx. So is the backend itself, once the dev server starts.
+ */
+export function uiAgent({ prefix = '/__ui-agent', overlay = true }: UiAgentPluginOptions = {}): Plugin {
+  let backend: Promise<UiAgentApp> | null = null;
+  let base = '/';
+
+  const started = (): Promise<UiAgentApp> => {
+    if (!backend) throw new Error('[ui-agent] The backend only runs in the Vite dev server');
+    return backend;
+  };
+
+  return {
+    name: 'ui-agent',
+    apply: 'serve',
+
+    configResolved(config) {
+      base = config.base;
+    },
+
+    configureServer(server) {
+      const importModule = (filePath: string) => server.ssrLoadModule(filePath);
+      backend = (importModule(APP_MODULE) as Promise<typeof import('./app')>).then(({ createUiAgentApp }) =>
+        createUiAgentApp(server.config.root, { importModule })
+      );
+      backend.then(
+        () => server.config.logger.info(`[ui-agent] backend mounted at ${prefix}`),
+        (error) => server.config.logger.error(`[ui-agent] backend failed to start: ${String(error)}`)
+      );
+      server.httpServer?.once('close', () => {
+        backend?.then((app) => app.close()).catch(() => undefined);
+      });
+
+      // The overlay module carries the session token: only hand it to allowed pages
+      server.middlewares.use((req, res, next) => {
+        if (!req.url?.includes(OVERLAY_MODULE_ID)) {
+          next();
+          return;
+        }
+        const security = importModule(SECURITY_MODULE) as Promise<typeof import('./security')>;
+        Promise.all([started(), security]).then(([{ config }, { rejectedSource }]) => {
+          const rejection = rejectedSource(req.headers, config.allowedOrigins);
+          if (!rejection) {
+            next();
+            return;
+          }
+          res.statusCode = 403;
+          res.end(rejection);
+        }, next);
+      });
+
+      // The backend answers everything under the prefix itself, unknown routes with a 404
+      server.middlewares.use(prefix, (req, res, next) => {
+        started().then(({ app }) => app(req, res), next);
+      });
+    },
+
+    resolveId(id) {
+      return id === OVERLAY_MODULE_ID ? RESOLVED_OVERLAY_MODULE_ID : undefined;
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_OVERLAY_MODULE_ID) return undefined;
+
+      const { sessionToken } = await started();
+      return [
+        `import { initUiAgentOverlay } from ${JSON.stringify(OVERLAY_ENTRY)};`,
+        `initUiAgentOverlay(${JSON.stringify({ baseUrl: prefix, sessionToken })});`,
+      ].join('\n');
+    },
+
+    transformIndexHtml() {
+      if (!overlay) return [];
+      return [
+        {
+          tag: 'script',
+          attrs: { type: 'module', src: `${base}@id/__x00__${OVERLAY_MODULE_ID}` },
+          injectTo: 'body',
+        },
+      ];
+    },
+  };
+}
+
+/**
+ * Stamps host JSX elements with their source location (`data-ui-agent-src="path:line:col"`),
+ * which the overlay sends along and the sourceAttribute resolver trusts over any heuristic.
+ * Register it next to the React plugin. Dev server only: production builds never see the
+ * attribute.
+ *
+ * Runs before the React plugin, on the project's own .jsx/.tsx files, and returns a source
+ * map: lines don't move, but columns after a stamped tag on the same line do.
+ */
+export function uiAgentSourceAttributes(): Plugin {
+  let root = '';
+  let enabled = false;
+  let stamper: Promise<typeof import('./sourceAttributes')> | null = null;
+
+  return {
+    name: 'ui-agent-source-attributes',
+    apply: 'serve',
+    enforce: 'pre',
+
+    configResolved(config) {
+      root = config.root;
+      enabled = config.command === 'serve' && !config.isProduction;
+    },
+
+    configureServer(server) {
+      if (enabled) {
+        stamper = server.ssrLoadModule(SOURCE_ATTRIBUTES_MODULE) as Promise<typeof import('./sourceAttributes')>;
+        stamper.catch((error) =>
+          server.config.logger.error(`[ui-agent] source attributes unavailable: ${String(error)}`)
+        );
+      }
+    },
+
+    async transform(code, id) {
+      if (!stamper) return null;
+
+      const file = id.split('?')[0];
+      const filePath = relative(root, file).replace(/\\/g, '/');
+      if (!/\.[jt]sx$/.test(file) || filePath.startsWith('..') || filePath.includes('node_modules/')) {
+        return null;
+      }
+
+      const stamped = (await stamper).addSourceAttributes(code, filePath);
+      return stamped === null ? null : { code: stamped.toString(), map: stamped.generateMap({ hires: true }) };
+    },
+  };
+}
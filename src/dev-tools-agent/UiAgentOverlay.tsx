@@ -1,11 +1,13 @@
-import { useState, useCallback } from 'react';
-import type { SelectionPayload, HighlightRect, ComponentContext } from './types';
+import { useState, useCallback, useRef } from 'react';
+import type { SelectionPayload, HighlightRect, SelectedElement } from './types';
 import { FloatingButton } from './components/FloatingButton';
 import { Panel } from './components/Panel';
 import { HighlightBox } from './components/HighlightBox';
 import { PickerLayer } from './components/PickerLayer';
+import { SelectionHighlights } from './components/SelectionHighlights';
 import { resolveSelection } from './api';
 import { useAgentFallbackFromStorage } from './test-cases/AgentFallbackContext';
+import { getActiveJobId } from './utils/activeJob';
 
 const EXCLUDE_IDS = [
   'ui-agent-root',
@@ -20,11 +22,12 @@ const EXCLUDE_IDS = [
  * Manages the state and rendering of all overlay components.
  */
 export function UiAgentOverlay() {
-  const [isPanelOpen, setIsPanelOpen] = useState(false);
-  const [isInSelectState, setIsInSelectState] = useState(false);
-  const [payload, setPayload] = useState<SelectionPayload | null>(null);
+  // Reopen after a reload while a submission is running, so the panel can reattach to it
+  const [isPanelOpen, setIsPanelOpen] = useState(() => getActiveJobId() !== null);
+  const [isInSelectState, setIsInSelectState] = useState(() => getActiveJobId() !== null);
+  const [selections, setSelections] = useState<SelectedElement[]>([]);
   const [highlightRect, setHighlightRect] = useState<HighlightRect | null>(null);
-  const [componentContext, setComponentContext] = useState<ComponentContext | null>(null);
+  const nextSelectionIdRef = useRef(1);
   
   // Read agent fallback state from localStorage
   const useAgentFallback = useAgentFallbackFromStorage();
@@ -34,7 +37,7 @@ export function UiAgentOverlay() {
       // Closing panel - disable selection mode
       setIsPanelOpen(false);
       setIsInSelectState(false);
-      setPayload(null);
+      setSelections([]);
       setHighlightRect(null);
     } else {
       // Opening panel - enable selection mode automatically
@@ -46,36 +49,55 @@ export function UiAgentOverlay() {
   const handleClosePanel = useCallback(() => {
     setIsPanelOpen(false);
     setIsInSelectState(false);
-    setPayload(null);
+    setSelections([]);
     setHighlightRect(null);
-    setComponentContext(null);
   }, []);
 
   const handleHover = useCallback((rect: HighlightRect | null) => {
     setHighlightRect(rect);
   }, []);
 
-  const handleSelect = useCallback((selectedPayload: SelectionPayload) => {
-    setPayload(selectedPayload);
-    setComponentContext(null); // Clear previous context
+  const updateSelection = useCallback((id: number, changes: Partial<SelectedElement>) => {
+    setSelections((prev) => prev.map((selection) => (selection.id === id ? { ...selection, ...changes } : selection)));
+  }, []);
+
+  const handleRemoveSelection = useCallback((id: number) => {
+    setSelections((prev) => prev.filter((selection) => selection.id !== id));
+  }, []);
+
+  /**
+   * A plain click replaces the selection; shift-click adds the element to it, or removes
+   * it if it is already selected.
+   */
+  const handleSelect = useCallback((selectedPayload: SelectionPayload, element: Element, additive: boolean) => {
+    if (additive && selections.some((selection) => selection.element === element)) {
+      setSelections((prev) => prev.filter((selection) => selection.element !== element));
+      return;
+    }
+
+    const id = nextSelectionIdRef.current++;
+    const selection: SelectedElement = { id, element, payload: selectedPayload, context: null };
+    setSelections((prev) => (additive ? [...prev, selection] : [selection]));
     console.log('[UI-Agent] Element selected:', selectedPayload);
 
     // Request component context from backend
     // Pass useAgentFallback as third parameter
     resolveSelection(selectedPayload, undefined, useAgentFallback)
       .then((ctx) => {
-        setComponentContext(ctx);
+        updateSelection(id, { context: ctx });
         console.log('[UI-Agent] Component context resolved:', ctx);
       })
       .catch((err) => {
+        updateSelection(id, { error: err instanceof Error ? err : new Error('Failed to resolve selection') });
         console.error('[UI-Agent] Failed to resolve selection:', err);
       });
-  }, [useAgentFallback]);
+  }, [selections, useAgentFallback, updateSelection]);
 
   return (
     <div id="ui-agent-root">
       {/* Highlight box - always rendered when there's a rect */}
       <HighlightBox rect={highlightRect} />
+      <SelectionHighlights selections={selections} />
 
       {/* Picker layer - controlled by isInSelectState */}
       {isInSelectState && (
@@ -89,8 +111,8 @@ export function UiAgentOverlay() {
       {/* Floating panel - controlled by isPanelOpen */}
       {isPanelOpen && (
         <Panel
-          payload={payload}
-          componentContext={componentContext}
+          selections={selections}
+          onRemoveSelection={handleRemoveSelection}
           onClose={handleClosePanel}
         />
       )}
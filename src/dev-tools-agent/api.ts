@@ -1,46 +1,333 @@
-import type { SelectionPayload, ComponentContext, SubmissionResponse } from './types';
+import type {
+  AgentEvent,
+  SelectionPayload,
+  ComponentContext,
+  ResolutionTrace,
+  RevertConflict,
+  SubmissionJob,
+  SubmissionResponse,
+  UiAgentError,
+  UiAgentErrorCode,
+  UiAgentErrorDetail,
+} from './types';
 
-const BACKEND_URL = 'http://localhost:4000';
+/**
+ * Where the standalone backend (server/index.ts) listens by default.
+ */
+const DEFAULT_BACKEND_URL = 'http://localhost:4000';
+
+let backendUrl = DEFAULT_BACKEND_URL;
+
+/**
+ * A failed backend call. `code` is the server's error code, or `network_error` if the
+ * backend couldn't be reached; `details` lists the problems found in an invalid request.
+ */
+export class UiAgentApiError extends Error {
+  readonly code: UiAgentErrorCode | 'network_error';
+  readonly status?: number;
+  readonly details: UiAgentErrorDetail[];
+
+  constructor(error: UiAgentError | { code: 'network_error'; message: string }, status?: number) {
+    super(error.message);
+    this.name = 'UiAgentApiError';
+    this.code = error.code;
+    this.status = status;
+    this.details = 'details' in error ? error.details ?? [] : [];
+  }
+}
+
+/**
+ * Header the backend expects the session token in.
+ */
+const SESSION_TOKEN_HEADER = 'X-UI-Agent-Token';
+
+let injectedToken: string | null = null;
+const fetchedTokens = new Map<string, Promise<string>>();
+
+/**
+ * Point the API at a backend. `baseUrl` becomes the default for every call; a session
+ * token handed over by whoever started the backend is used instead of asking for one.
+ */
+export function configureApi({ baseUrl, sessionToken }: { baseUrl?: string; sessionToken?: string }): void {
+  backendUrl = baseUrl ?? DEFAULT_BACKEND_URL;
+  injectedToken = sessionToken ?? null;
+}
+
+async function send(baseUrl: string, path: string, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(`${baseUrl}${path}`, init);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new UiAgentApiError({
+      code: 'network_error',
+      message: `Could not reach the UI agent backend at ${baseUrl}`,
+    });
+  }
+}
+
+/**
+ * The backend's session token: the injected one, or the one GET /session hands to this
+ * page's origin (fetched once per backend).
+ */
+function sessionToken(baseUrl: string): Promise<string> {
+  if (injectedToken) return Promise.resolve(injectedToken);
+
+  let token = fetchedTokens.get(baseUrl);
+  if (!token) {
+    token = send(baseUrl, '/session').then(async (res) => {
+      if (!res.ok) throw await responseError(res, 'session');
+      return ((await res.json()) as { token: string }).token;
+    });
+    token.catch(() => fetchedTokens.delete(baseUrl));
+    fetchedTokens.set(baseUrl, token);
+  }
+  return token;
+}
+
+/**
+ * fetch with the session token. An unreachable backend throws a UiAgentApiError; aborts are
+ * rethrown as they are. A fetched token that stopped working (the backend restarted) is
+ * fetched again once.
+ */
+async function request(baseUrl: string, path: string, init: RequestInit = {}): Promise<Response> {
+  const attempt = async () => {
+    const headers = new Headers(init.headers);
+    headers.set(SESSION_TOKEN_HEADER, await sessionToken(baseUrl));
+    return send(baseUrl, path, { ...init, headers });
+  };
+
+  const res = await attempt();
+  if (res.status === 401 && !injectedToken) {
+    fetchedTokens.delete(baseUrl);
+    return attempt();
+  }
+  return res;
+}
+
+/**
+ * The error a failed response describes. Responses without an error body (e.g. from a
+ * proxy) become an `internal` error named after the failed action.
+ */
+async function responseError(res: Response, action: string, json?: unknown): Promise<UiAgentApiError> {
+  const body = json === undefined ? await res.json().catch(() => null) : json;
+  const error = (body as { error?: UiAgentError } | null)?.error;
+  if (error && typeof error === 'object' && typeof error.code === 'string') {
+    return new UiAgentApiError(error, res.status);
+  }
+  return new UiAgentApiError({ code: 'internal', message: `${action} failed: ${res.status}` }, res.status);
+}
 
 export async function resolveSelection(
   payload: SelectionPayload,
-  baseUrl = BACKEND_URL,
-  useAgentFallback = false
+  baseUrl = backendUrl,
+  useAgentFallback = false,
+  agentProvider?: string
 ): Promise<ComponentContext> {
-  const res = await fetch(`${baseUrl}/resolve-selection`, {
+  const res = await request(baseUrl, '/resolve-selection', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       ...payload,
       useAgentFallback,
+      agentProvider,
     }),
   });
   if (!res.ok) {
-    throw new Error(`resolve-selection failed: ${res.status}`);
+    throw await responseError(res, 'resolve-selection');
   }
   const json = await res.json();
   return json.componentContext as ComponentContext;
 }
 
-export async function submitToAgent(
-  componentContext: ComponentContext,
-  userMessage: string,
-  baseUrl = BACKEND_URL
+/**
+ * What the resolver chain did for a selection (ComponentContext.traceId).
+ * Returns null once the server no longer keeps the trace.
+ */
+export async function getResolutionTrace(traceId: string, baseUrl = backendUrl): Promise<ResolutionTrace | null> {
+  const res = await request(baseUrl, `/debug/resolutions/${encodeURIComponent(traceId)}`);
+  if (res.status === 404) {
+    return null;
+  }
+  if (!res.ok) {
+    throw await responseError(res, 'get resolution trace');
+  }
+  const json = await res.json();
+  return json.trace as ResolutionTrace;
+}
+
+/**
+ * Read a Server-Sent Events response of AgentEvents.
+ * Calls onEvent for every event and resolves with the result of the final
+ * `done` / `failed` event.
+ */
+async function readAgentEvents(
+  res: Response,
+  onEvent: (event: AgentEvent) => void
 ): Promise<SubmissionResponse> {
-  const res = await fetch(`${baseUrl}/submit-to-agent`, {
+  if (!res.body) {
+    throw new Error('Agent stream has no body');
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let result: SubmissionResponse | null = null;
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line; only the data line is needed
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() ?? '';
+    for (const message of messages) {
+      const data = message
+        .split('\n')
+        .filter((line) => line.startsWith('data: '))
+        .map((line) => line.slice('data: '.length))
+        .join('\n');
+      if (!data) continue;
+
+      const event = JSON.parse(data) as AgentEvent;
+      onEvent(event);
+      if (event.type === 'done' || event.type === 'failed') {
+        result = event.result;
+      }
+    }
+  }
+
+  if (!result) {
+    throw new Error('Agent stream ended without a result');
+  }
+  return result;
+}
+
+/**
+ * Queue a submission as a job. Returns as soon as the job exists; follow it with
+ * streamJobEvents or getJob. With `sandbox`, the agent's changes are only proposed
+ * (see applyJob / discardJob / retryJob). An array of contexts submits several selected
+ * elements as one request.
+ */
+export async function createJob(
+  componentContext: ComponentContext | ComponentContext[],
+  userMessage: string,
+  baseUrl = backendUrl,
+  agentProvider?: string,
+  sandbox?: boolean
+): Promise<SubmissionJob> {
+  const res = await request(baseUrl, '/jobs', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
-      componentContext,
+      ...(Array.isArray(componentContext) ? { componentContexts: componentContext } : { componentContext }),
       userMessage,
+      agentProvider,
+      sandbox,
     }),
   });
-  
+  const json = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw await responseError(res, 'create job', json);
+  }
+  return json.job as SubmissionJob;
+}
+
+/**
+ * Fetch a job, or null if the server doesn't know it (e.g. after a server restart).
+ */
+export async function getJob(jobId: string, baseUrl = backendUrl): Promise<SubmissionJob | null> {
+  const res = await request(baseUrl, `/jobs/${encodeURIComponent(jobId)}`);
+  if (res.status === 404) {
+    return null;
+  }
   if (!res.ok) {
-    throw new Error(`submit-to-agent failed: ${res.status}`);
+    throw await responseError(res, 'get job');
   }
-  
   const json = await res.json();
-  return json as SubmissionResponse;
+  return json.job as SubmissionJob;
+}
+
+/**
+ * Ask the server to cancel a job. Throws if the job is unknown or already finished.
+ */
+export function cancelJob(jobId: string, baseUrl = backendUrl): Promise<SubmissionJob> {
+  return postJobAction(jobId, 'cancel', baseUrl);
 }
 
+/**
+ * POST to a job action endpoint and return the updated (or new) job.
+ */
+async function postJobAction(jobId: string, action: string, baseUrl: string, body?: object): Promise<SubmissionJob> {
+  const res = await request(baseUrl, `/jobs/${encodeURIComponent(jobId)}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw await responseError(res, `${action} job`, json);
+  }
+  return json.job as SubmissionJob;
+}
+
+/**
+ * Apply a sandboxed job's proposed changes to the working tree.
+ * Throws if they conflict with edits made since the job started.
+ */
+export function applyJob(jobId: string, baseUrl = backendUrl): Promise<SubmissionJob> {
+  return postJobAction(jobId, 'apply', baseUrl);
+}
+
+/**
+ * Throw away a sandboxed job's proposed changes.
+ */
+export function discardJob(jobId: string, baseUrl = backendUrl): Promise<SubmissionJob> {
+  return postJobAction(jobId, 'discard', baseUrl);
+}
+
+/**
+ * Run a sandboxed job again with amended instructions. Returns the new job.
+ */
+export function retryJob(jobId: string, userMessage: string, baseUrl = backendUrl): Promise<SubmissionJob> {
+  return postJobAction(jobId, 'retry', baseUrl, { userMessage });
+}
+
+/**
+ * Undo a submission's changes to the working tree.
+ * If files were edited since, nothing is reverted and the conflicts are returned.
+ */
+export async function revertSubmission(
+  submissionId: string,
+  baseUrl = backendUrl
+): Promise<{ job: SubmissionJob; conflicts: RevertConflict[] }> {
+  const res = await request(baseUrl, `/submissions/${encodeURIComponent(submissionId)}/revert`, { method: 'POST' });
+  const json = await res.json().catch(() => null);
+  if (res.status === 409 && json?.conflicts) {
+    return { job: json.job as SubmissionJob, conflicts: json.conflicts as RevertConflict[] };
+  }
+  if (!res.ok) {
+    throw await responseError(res, 'revert', json);
+  }
+  return { job: json.job as SubmissionJob, conflicts: [] };
+}
+
+/**
+ * Follow a job's progress: replays its events so far, then new ones as they happen.
+ * Works for jobs started before a page reload. Resolves with the job's result;
+ * aborting `signal` stops following without cancelling the job.
+ */
+export async function streamJobEvents(
+  jobId: string,
+  onEvent: (event: AgentEvent) => void,
+  baseUrl = backendUrl,
+  signal?: AbortSignal
+): Promise<SubmissionResponse> {
+  const res = await request(baseUrl, `/jobs/${encodeURIComponent(jobId)}/events`, {
+    headers: { Accept: 'text/event-stream' },
+    signal,
+  });
+  if (!res.ok) {
+    throw await responseError(res, 'job events');
+  }
+  return readAgentEvents(res, onEvent);
+}
@@ -0,0 +1,40 @@
+import type { ConfidenceSignal } from '../types';
+
+interface ConfidenceSignalsProps {
+  score: number;
+  signals: ConfidenceSignal[];
+}
+
+function formatWeight(weight: number): string {
+  if (weight === 0) return '±0';
+  return `${weight > 0 ? '+' : '−'}${Math.abs(weight).toFixed(2)}`;
+}
+
+/**
+ * The evidence behind a resolution's score, one row per signal with its weight.
+ */
+export function ConfidenceSignals({ score, signals }: ConfidenceSignalsProps) {
+  return (
+    <details className="group mt-2">
+      <summary className="text-xs text-gray-400 cursor-pointer hover:text-gray-300 list-none flex items-center gap-1">
+        <span className="text-[10px] group-open:rotate-90 transition-transform">▶</span>
+        Why this confidence? Score {score.toFixed(2)}
+      </summary>
+      <ul className="mt-1 space-y-0.5 text-xs">
+        {signals.map((signal, index) => (
+          <li key={index} className="flex items-baseline gap-2">
+            <span
+              className={`font-mono w-10 text-right flex-shrink-0 ${
+                signal.weight > 0 ? 'text-green-400' : signal.weight < 0 ? 'text-red-400' : 'text-gray-500'
+              }`}
+            >
+              {formatWeight(signal.weight)}
+            </span>
+            <span className="text-gray-300">{signal.label}</span>
+            {signal.resolver && <span className="text-gray-500 ml-auto flex-shrink-0">{signal.resolver}</span>}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,71 @@
+import type { FileDiff } from '../types';
+
+interface DiffViewProps {
+  diffs: FileDiff[];
+}
+
+const STATUS_LABELS: Record<FileDiff['status'], string> = {
+  added: 'A',
+  modified: 'M',
+  deleted: 'D',
+  renamed: 'R',
+};
+
+/**
+ * Tailwind classes for one line of a unified diff.
+ */
+function lineClassName(line: string): string {
+  if (line.startsWith('@@')) return 'text-blue-300 bg-blue-900/20';
+  if (line.startsWith('+')) return 'text-green-200 bg-green-900/40';
+  if (line.startsWith('-')) return 'text-red-200 bg-red-900/40';
+  return 'text-gray-300';
+}
+
+/**
+ * Files an agent changed, each with its unified diff.
+ * File headers (diff --git, index, ---/+++) are left out; the summary row shows the path.
+ */
+export function DiffView({ diffs }: DiffViewProps) {
+  if (diffs.length === 0) {
+    return <div className="text-xs text-gray-400">No files changed.</div>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {diffs.map((diff) => {
+        const firstHunk = diff.patch.indexOf('\n@@');
+        const hunks = firstHunk === -1 ? [] : diff.patch.slice(firstHunk + 1).split('\n');
+
+        return (
+          <details key={diff.filePath} className="group bg-gray-900 rounded border border-gray-700" open={diffs.length <= 3}>
+            <summary className="px-2 py-1 text-xs cursor-pointer hover:bg-gray-700/30 list-none flex items-center gap-2">
+              <span className="text-[10px] text-gray-400 group-open:rotate-90 transition-transform">▶</span>
+              <span className="font-mono text-gray-400" title={diff.status}>
+                {STATUS_LABELS[diff.status]}
+              </span>
+              <span className="font-mono text-blue-300 break-all flex-1">
+                {diff.oldPath ? `${diff.oldPath} → ` : ''}
+                {diff.filePath}
+              </span>
+              <span className="text-green-400 flex-shrink-0">+{diff.additions}</span>
+              <span className="text-red-400 flex-shrink-0">−{diff.deletions}</span>
+            </summary>
+            {hunks.length > 0 ? (
+              <pre className="text-xs font-mono m-0 overflow-auto max-h-64 border-t border-gray-700">
+                {hunks.map((line, index) => (
+                  <div key={index} className={`px-2 whitespace-pre ${lineClassName(line)}`}>
+                    {line || ' '}
+                  </div>
+                ))}
+              </pre>
+            ) : (
+              <div className="px-2 py-1 text-xs text-gray-400 border-t border-gray-700">
+                No text changes (binary file or mode change)
+              </div>
+            )}
+          </details>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { UiAgentApiError } from '../api';
+
+interface ErrorNoticeProps {
+  error: Error;
+  /** Shown before the message, e.g. "Not resolved" */
+  title?: string;
+}
+
+/**
+ * A failed backend call: its error code, message and, for invalid requests, each problem
+ * the server found.
+ */
+export function ErrorNotice({ error, title }: ErrorNoticeProps) {
+  const apiError = error instanceof UiAgentApiError ? error : null;
+
+  return (
+    <div className="text-xs text-red-300">
+      <div className="flex items-baseline gap-2">
+        {apiError && (
+          <span className="px-1.5 py-0.5 rounded bg-red-900/60 text-red-200 font-mono text-[10px] flex-shrink-0">
+            {apiError.code}
+          </span>
+        )}
+        <span className="break-words min-w-0">
+          {title ? `${title}: ` : ''}
+          {error.message}
+        </span>
+      </div>
+      {apiError && apiError.details.length > 1 && (
+        <ul className="mt-1 ml-3 list-disc">
+          {apiError.details.map((detail, index) => (
+            <li key={index}>
+              <span className="font-mono">{detail.path || '(body)'}</span> {detail.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,34 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import type { SelectionPayload, ComponentContext, SubmissionResponse } from '../types';
-import { submitToAgent } from '../api';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type {
+  AgentEvent,
+  ComponentContext,
+  RevertConflict,
+  SelectedElement,
+  SubmissionJob,
+  SubmissionResponse,
+} from '../types';
+import { applyJob, cancelJob, createJob, discardJob, getJob, retryJob, revertSubmission, streamJobEvents } from '../api';
+import { getActiveJobId, setActiveJobId } from '../utils/activeJob';
+import { ConfidenceSignals } from './ConfidenceSignals';
+import { DiffView } from './DiffView';
+import { ErrorNotice } from './ErrorNotice';
+import { ResolutionTraceView } from './ResolutionTraceView';
+import { VerificationBadges } from './VerificationBadges';
 
 interface PanelProps {
-  payload: SelectionPayload | null;
-  componentContext: ComponentContext | null;
+  selections: SelectedElement[];
+  onRemoveSelection: (id: number) => void;
   onClose: () => void;
 }
 
+/**
+ * What the user chose for one selected element: which candidate, and whether it's verified.
+ */
+interface SelectionChoice {
+  candidateIndex: number;
+  verified: boolean;
+}
+
 interface Position {
   x: number;
   y: number;
@@ -20,11 +41,37 @@ const DEFAULT_POSITION: Position = {
   x: window.innerWidth - DEFAULT_PANEL_WIDTH - 20,
   y: 60,
 };
+const SANDBOX_STORAGE_KEY = 'ui-agent-use-sandbox';
 
 /**
- * Draggable floating panel that displays the SelectionPayload JSON.
+ * The component context pointed at the candidate the user picked.
+ * Other candidates come from the same resolver, so only the location changes; the score
+ * and its signals describe the first candidate and are dropped.
  */
-export function Panel({ payload, componentContext, onClose }: PanelProps) {
+function contextForCandidate(context: ComponentContext, candidateIndex: number): ComponentContext {
+  const candidate = context.candidates?.[candidateIndex];
+  if (!candidate || candidateIndex === 0) {
+    return context;
+  }
+  return {
+    ...context,
+    filePath: candidate.filePath,
+    componentName: undefined,
+    parentLocation: undefined,
+    lineNumber: candidate.lineNumber,
+    columnNumber: candidate.columnNumber,
+    codeSnippet: candidate.codeSnippet,
+    score: undefined,
+    signals: undefined,
+    verified: false,
+  };
+}
+
+/**
+ * Draggable floating panel that lists the selected elements, shows the details of one
+ * of them and submits change requests for all of them together.
+ */
+export function Panel({ selections, onRemoveSelection, onClose }: PanelProps) {
   const [position, setPosition] = useState<Position>(DEFAULT_POSITION);
   const [width, setWidth] = useState<number>(DEFAULT_PANEL_WIDTH);
   const [isDragging, setIsDragging] = useState(false);
@@ -32,10 +79,41 @@ export function Panel({ payload, componentContext, onClose }: PanelProps) {
   const dragOffsetRef = useRef<Position>({ x: 0, y: 0 });
   const resizeStartRef = useRef<{ x: number; width: number; positionX: number }>({ x: 0, width: 0, positionX: 0 });
   const panelRef = useRef<HTMLDivElement>(null);
-  const [isVerified, setIsVerified] = useState(false);
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const [choices, setChoices] = useState<Record<number, SelectionChoice>>({});
   const [userMessage, setUserMessage] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submissionResult, setSubmissionResult] = useState<SubmissionResponse | null>(null);
+  const [agentEvents, setAgentEvents] = useState<AgentEvent[]>([]);
+  const agentLogRef = useRef<HTMLPreElement>(null);
+  const [activeJob, setActiveJob] = useState<SubmissionJob | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  // Stops following the job (not the job itself) when the panel closes
+  const jobStreamRef = useRef<AbortController | null>(null);
+  const [useSandbox, setUseSandbox] = useState(() => localStorage.getItem(SANDBOX_STORAGE_KEY) === 'true');
+  const [amendMessage, setAmendMessage] = useState('');
+  const [isJobActionBusy, setIsJobActionBusy] = useState(false);
+  const [jobActionError, setJobActionError] = useState<Error | null>(null);
+  const [submitError, setSubmitError] = useState<Error | null>(null);
+  const [revertConflicts, setRevertConflicts] = useState<RevertConflict[]>([]);
+
+  const choiceFor = useCallback((selection: SelectedElement): SelectionChoice => {
+    return choices[selection.id] ?? { candidateIndex: 0, verified: selection.context?.verified ?? false };
+  }, [choices]);
+
+  // Details are shown for one selection at a time, the newest unless the user picked another
+  const focusedIndex = Math.max(0, selections.findIndex((selection) => selection.id === focusedId));
+  const focused: SelectedElement | undefined = selections[focusedIndex];
+  const componentContext = focused?.context ?? null;
+  const { candidateIndex, verified: isVerified } = focused ? choiceFor(focused) : { candidateIndex: 0, verified: false };
+
+  const activeContext = useMemo(
+    () => (componentContext ? contextForCandidate(componentContext, candidateIndex) : null),
+    [componentContext, candidateIndex]
+  );
+
+  const verifiedCount = selections.filter((selection) => selection.context && choiceFor(selection).verified).length;
+  const allVerified = selections.length > 0 && verifiedCount === selections.length;
 
   /**
    * Constrain position to viewport bounds.
@@ -144,46 +222,224 @@ export function Panel({ payload, componentContext, onClose }: PanelProps) {
     return () => window.removeEventListener('resize', handleResize);
   }, [constrainToViewport, constrainWidth]);
 
-  // Sync verification state with componentContext
+  // Focus each newly added selection
+  const newestSelectionId = selections[selections.length - 1]?.id;
+  useEffect(() => {
+    if (newestSelectionId !== undefined) setFocusedId(newestSelectionId);
+  }, [newestSelectionId]);
+
+  // A plain click starts a new selection: start the request over too
+  const firstSelectionId = selections[0]?.id;
   useEffect(() => {
-    if (componentContext) {
-      setIsVerified(componentContext.verified);
-      setUserMessage('');
+    if (firstSelectionId === undefined) return;
+    setUserMessage('');
+    setChoices({});
+    // Keep showing a job that is still running
+    if (!jobStreamRef.current) {
       setSubmissionResult(null);
+      setAgentEvents([]);
+      setActiveJob(null);
+    }
+  }, [firstSelectionId]);
+
+  /**
+   * Show a job's progress until it finishes, then its result.
+   * Events are replayed from the start, so this also reattaches to an earlier job.
+   */
+  const followJob = useCallback(async (job: SubmissionJob) => {
+    jobStreamRef.current?.abort();
+    const controller = new AbortController();
+    jobStreamRef.current = controller;
+
+    setActiveJob(job);
+    setIsSubmitting(true);
+    setIsCancelling(false);
+    setSubmissionResult(null);
+    setAgentEvents([]);
+    setJobActionError(null);
+    setRevertConflicts([]);
+
+    try {
+      const result = await streamJobEvents(
+        job.id,
+        (event) => setAgentEvents((events) => [...events, event]),
+        undefined,
+        controller.signal
+      );
+      setSubmissionResult(result);
+      console.log('[UI-Agent] Submission result:', result);
+
+      // The finished job says whether sandboxed changes wait to be applied
+      const finishedJob = await getJob(job.id).catch(() => null);
+      setActiveJob(finishedJob);
+      if (finishedJob?.proposalStatus === 'pending') {
+        setAmendMessage(finishedJob.userMessage);
+      } else {
+        setActiveJobId(null);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('[UI-Agent] Lost track of job:', error);
+      setSubmissionResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Lost track of the submission',
+      });
+    } finally {
+      if (jobStreamRef.current === controller) {
+        jobStreamRef.current = null;
+        setIsSubmitting(false);
+        setIsCancelling(false);
+      }
+    }
+  }, []);
+
+  // Reattach to a job started before the page was reloaded or the panel closed
+  useEffect(() => {
+    const jobId = getActiveJobId();
+    if (jobId) {
+      getJob(jobId)
+        .then((job) => {
+          if (job) {
+            void followJob(job);
+          } else {
+            setActiveJobId(null); // The server restarted and forgot it
+          }
+        })
+        .catch((error) => console.error('[UI-Agent] Failed to reattach to job:', error));
     }
-  }, [componentContext]);
+    return () => jobStreamRef.current?.abort();
+  }, [followJob]);
+
+  // Keep the newest agent output in view
+  useEffect(() => {
+    const log = agentLogRef.current;
+    if (log) log.scrollTop = log.scrollHeight;
+  }, [agentEvents]);
+
+  const updateChoice = useCallback((selection: SelectedElement, changes: Partial<SelectionChoice>) => {
+    setChoices((prev) => ({ ...prev, [selection.id]: { ...choiceFor(selection), ...changes } }));
+  }, [choiceFor]);
+
+  // Handle candidate switch: the new location has to be verified again
+  const handleSelectCandidate = useCallback((index: number) => {
+    if (!focused) return;
+    updateChoice(focused, { candidateIndex: index, verified: index === 0 && !!focused.context?.verified });
+    setSubmissionResult(null);
+  }, [focused, updateChoice]);
 
   // Handle verify button click
   const handleVerify = useCallback(() => {
-    setIsVerified(true);
-  }, []);
+    if (focused) updateChoice(focused, { verified: true });
+  }, [focused, updateChoice]);
 
-  // Handle submit button click
+  // Handle submit button click: every selection goes into one request, in selection order
   const handleSubmit = useCallback(async () => {
-    if (!componentContext || !isVerified || !userMessage.trim()) {
+    if (!allVerified || !userMessage.trim()) {
       return;
     }
+    // allVerified means every selection is resolved
+    const contexts = selections.flatMap((selection) =>
+      selection.context
+        ? [{ ...contextForCandidate(selection.context, choiceFor(selection).candidateIndex), verified: true }]
+        : []
+    );
 
     setIsSubmitting(true);
     setSubmissionResult(null);
+    setSubmitError(null);
+    setAgentEvents([]);
 
+    let job: SubmissionJob;
     try {
-      const result = await submitToAgent(
-        { ...componentContext, verified: isVerified },
-        userMessage.trim()
+      job = await createJob(
+        contexts.length === 1 ? contexts[0] : contexts,
+        userMessage.trim(),
+        undefined,
+        undefined,
+        useSandbox
       );
-      setSubmissionResult(result);
-      console.log('[UI-Agent] Submission result:', result);
     } catch (error) {
       console.error('[UI-Agent] Submission failed:', error);
-      setSubmissionResult({
-        success: false,
-        message: error instanceof Error ? error.message : 'Submission failed',
-      });
-    } finally {
+      setSubmitError(error instanceof Error ? error : new Error('Submission failed'));
       setIsSubmitting(false);
+      return;
+    }
+
+    setActiveJobId(job.id);
+    await followJob(job);
+  }, [allVerified, selections, choiceFor, userMessage, useSandbox, followJob]);
+
+  const handleToggleSandbox = useCallback((enabled: boolean) => {
+    setUseSandbox(enabled);
+    localStorage.setItem(SANDBOX_STORAGE_KEY, String(enabled));
+  }, []);
+
+  // Handle Apply / Discard of sandboxed changes
+  const handleProposal = useCallback(async (action: 'apply' | 'discard') => {
+    if (!activeJob) return;
+
+    setIsJobActionBusy(true);
+    setJobActionError(null);
+    try {
+      const job = action === 'apply' ? await applyJob(activeJob.id) : await discardJob(activeJob.id);
+      setActiveJob(job);
+      setActiveJobId(null);
+    } catch (error) {
+      console.error(`[UI-Agent] ${action} failed:`, error);
+      setJobActionError(error instanceof Error ? error : new Error(`Could not ${action} changes`));
+    } finally {
+      setIsJobActionBusy(false);
     }
-  }, [componentContext, isVerified, userMessage]);
+  }, [activeJob]);
+
+  // Handle undo: restores the files the submission changed, unless they were edited since
+  const handleRevert = useCallback(async () => {
+    if (!activeJob) return;
+
+    setIsJobActionBusy(true);
+    setJobActionError(null);
+    try {
+      const { job, conflicts } = await revertSubmission(activeJob.id);
+      setActiveJob(job);
+      setRevertConflicts(conflicts);
+    } catch (error) {
+      console.error('[UI-Agent] Revert failed:', error);
+      setJobActionError(error instanceof Error ? error : new Error('Could not revert'));
+    } finally {
+      setIsJobActionBusy(false);
+    }
+  }, [activeJob]);
+
+  // Handle retry with amended instructions: runs as a new sandboxed job
+  const handleRetry = useCallback(async () => {
+    if (!activeJob || !amendMessage.trim()) return;
+
+    setIsJobActionBusy(true);
+    setJobActionError(null);
+    try {
+      const job = await retryJob(activeJob.id, amendMessage.trim());
+      setActiveJobId(job.id);
+      setIsJobActionBusy(false);
+      await followJob(job);
+    } catch (error) {
+      console.error('[UI-Agent] Retry failed:', error);
+      setJobActionError(error instanceof Error ? error : new Error('Could not retry'));
+      setIsJobActionBusy(false);
+    }
+  }, [activeJob, amendMessage, followJob]);
+
+  // Handle cancel button click: the result arrives through the job's events
+  const handleCancel = useCallback(async () => {
+    if (!activeJob) return;
+
+    setIsCancelling(true);
+    try {
+      await cancelJob(activeJob.id);
+    } catch (error) {
+      console.error('[UI-Agent] Cancel failed:', error);
+      setIsCancelling(false);
+    }
+  }, [activeJob]);
 
   return (
     <div
@@ -233,55 +489,175 @@ export function Panel({ payload, componentContext, onClose }: PanelProps) {
       {/* Scrollable Content */}
       <div className="flex-1 overflow-y-auto p-4 min-h-0">
         <p className="text-gray-50/70 mt-0 mb-3 text-sm">
-          Click on any element to capture its details.
+          Click on any element to capture its details. Shift-click to select more elements.
         </p>
 
+        {/* Selected Elements */}
+        {selections.length > 1 && (
+          <div className="mb-3">
+            <div className="text-xs text-gray-400 mb-1 font-medium">
+              Selected Elements ({selections.length}):
+            </div>
+            <div className="space-y-1">
+              {selections.map((selection, index) => {
+                const context = selection.context && contextForCandidate(selection.context, choiceFor(selection).candidateIndex);
+                return (
+                  <div
+                    key={selection.id}
+                    className={`flex items-center gap-2 px-2 py-1 rounded text-xs transition-colors ${
+                      selection === focused
+                        ? 'bg-blue-600/40 border border-blue-500'
+                        : 'bg-gray-700 border border-transparent hover:bg-gray-600'
+                    }`}
+                  >
+                    <span className="min-w-[20px] h-5 px-1 rounded-sm bg-green-500 text-white font-semibold flex items-center justify-center flex-shrink-0">
+                      {index + 1}
+                    </span>
+                    <button
+                      onClick={() => setFocusedId(selection.id)}
+                      className="flex-1 min-w-0 text-left bg-transparent border-none p-0 cursor-pointer"
+                    >
+                      {context ? (
+                        <span className="font-mono text-blue-300 break-all">
+                          {context.filePath}
+                          {context.lineNumber ? `:${context.lineNumber}` : ''}
+                        </span>
+                      ) : selection.error ? (
+                        <ErrorNotice error={selection.error} title="Not resolved" />
+                      ) : (
+                        <span className="text-gray-400">Resolving…</span>
+                      )}
+                    </button>
+                    {context && (
+                      <span className={`flex-shrink-0 ${choiceFor(selection).verified ? 'text-green-400' : 'text-yellow-400'}`}>
+                        {choiceFor(selection).verified ? '✓' : 'unverified'}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => onRemoveSelection(selection.id)}
+                      disabled={isSubmitting}
+                      title="Remove from selection"
+                      className="bg-transparent border-none text-gray-400 hover:text-gray-100 disabled:cursor-not-allowed cursor-pointer px-1 flex-shrink-0"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Resolution failure of the focused element (several selections also list it above) */}
+        {selections.length === 1 && focused?.error && (
+          <div className="mb-3 p-3 bg-gray-700 rounded-md">
+            <ErrorNotice error={focused.error} title="Could not resolve this element" />
+          </div>
+        )}
+
         {/* Component Context Summary */}
-        {componentContext && (
+        {activeContext && (
           <div className="mb-3 p-3 bg-gray-700 rounded-md text-sm">
             <div className="flex items-center gap-2 mb-2">
-              <span className="font-semibold text-gray-200">Component Context</span>
+              <span className="font-semibold text-gray-200">
+                Component Context{selections.length > 1 ? ` #${focusedIndex + 1}` : ''}
+              </span>
               <span
                 className={`px-2 py-0.5 rounded text-xs font-medium ${
-                  componentContext.confidence === 'high'
+                  activeContext.confidence === 'high'
                     ? 'bg-green-600 text-green-100'
-                    : componentContext.confidence === 'medium'
+                    : activeContext.confidence === 'medium'
                     ? 'bg-yellow-600 text-yellow-100'
                     : 'bg-red-600 text-red-100'
                 }`}
               >
-                {componentContext.confidence}
+                {activeContext.confidence}
               </span>
+              {activeContext.score !== undefined && (
+                <span className="text-xs text-gray-400">{Math.round(activeContext.score * 100)}%</span>
+              )}
             </div>
             <div className="text-gray-300 space-y-1">
               <div>
                 <span className="text-gray-400">filePath:</span>{' '}
-                <span className="font-mono text-blue-300 text-xs break-all">{componentContext.filePath}</span>
+                <span className="font-mono text-blue-300 text-xs break-all">{activeContext.filePath}</span>
               </div>
-              {componentContext.lineNumber && (
+              {activeContext.componentName && (
+                <div>
+                  <span className="text-gray-400">component:</span>{' '}
+                  <span className="font-mono">{activeContext.componentName}</span>
+                </div>
+              )}
+              {activeContext.parentLocation && (
+                <div>
+                  <span className="text-gray-400">rendered by:</span>{' '}
+                  <span className="font-mono text-blue-300 break-all">
+                    {activeContext.parentLocation.filePath}
+                    {activeContext.parentLocation.lineNumber ? `:${activeContext.parentLocation.lineNumber}` : ''}
+                  </span>
+                </div>
+              )}
+              {activeContext.lineNumber && (
                 <div>
                   <span className="text-gray-400">line:</span>{' '}
-                  <span className="font-mono">{componentContext.lineNumber}</span>
+                  <span className="font-mono">
+                    {activeContext.lineNumber}
+                    {activeContext.columnNumber ? `:${activeContext.columnNumber}` : ''}
+                  </span>
                 </div>
               )}
               <div>
                 <span className="text-gray-400">verified:</span>{' '}
-                <span className={componentContext.verified ? 'text-green-400' : 'text-yellow-400'}>
-                  {componentContext.verified ? 'yes' : 'no'}
+                <span className={activeContext.verified ? 'text-green-400' : 'text-yellow-400'}>
+                  {activeContext.verified ? 'yes' : 'no'}
                 </span>
               </div>
             </div>
+            {activeContext.score !== undefined && activeContext.signals && (
+              <ConfidenceSignals score={activeContext.score} signals={activeContext.signals} />
+            )}
+            {activeContext.traceId && <ResolutionTraceView key={activeContext.traceId} traceId={activeContext.traceId} />}
+          </div>
+        )}
+
+        {/* Candidate Switcher */}
+        {activeContext?.candidates && activeContext.candidates.length > 1 && (
+          <div className="mb-3">
+            <div className="text-xs text-gray-400 mb-1 font-medium">
+              Candidates ({activeContext.candidates.length}):
+            </div>
+            <div className="space-y-1">
+              {activeContext.candidates.map((candidate, index) => (
+                <button
+                  key={`${candidate.filePath}:${candidate.lineNumber}:${candidate.columnNumber}`}
+                  onClick={() => handleSelectCandidate(index)}
+                  className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-xs text-left transition-colors ${
+                    index === candidateIndex
+                      ? 'bg-blue-600/40 border border-blue-500'
+                      : 'bg-gray-700 border border-transparent hover:bg-gray-600'
+                  }`}
+                >
+                  <span className="font-mono text-blue-300 break-all">
+                    {candidate.filePath}
+                    {candidate.lineNumber ? `:${candidate.lineNumber}` : ''}
+                  </span>
+                  <span className="text-gray-400 flex-shrink-0">
+                    {candidate.resolver} · {Math.round(candidate.score * 100)}%
+                  </span>
+                </button>
+              ))}
+            </div>
           </div>
         )}
 
         {/* Code Snippet */}
-        {componentContext?.codeSnippet && (
+        {activeContext?.codeSnippet && (
           <div className="mb-3">
             <div className="text-xs text-gray-400 mb-1 font-medium">Source Code:</div>
             <div className="bg-gray-900 rounded-md overflow-hidden border border-gray-700">
               <div className="overflow-x-auto">
                 <pre className="text-xs font-mono m-0 p-0">
-                  {componentContext.codeSnippet.lines.map((line) => (
+                  {activeContext.codeSnippet.lines.map((line) => (
                     <div
                       key={line.lineNumber}
                       className={`flex hover:bg-gray-700/30 ${
@@ -318,11 +694,19 @@ export function Panel({ payload, componentContext, onClose }: PanelProps) {
               </div>
             )}
 
+            {isVerified && !allVerified && (
+              <div className="text-xs text-yellow-200">
+                {verifiedCount} of {selections.length} selected elements verified. Verify the others to submit.
+              </div>
+            )}
+
             {/* Message Input */}
-            {isVerified && (
+            {allVerified && (
               <div className="space-y-2">
                 <label className="text-xs text-gray-400 font-medium block">
-                  What would you like to change?
+                  {selections.length > 1
+                    ? `What would you like to change about these ${selections.length} elements?`
+                    : 'What would you like to change?'}
                 </label>
                 <textarea
                   value={userMessage}
@@ -332,6 +716,16 @@ export function Panel({ payload, componentContext, onClose }: PanelProps) {
                   disabled={isSubmitting}
                 />
                 
+                <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={useSandbox}
+                    onChange={(e) => handleToggleSandbox(e.target.checked)}
+                    disabled={isSubmitting}
+                  />
+                  Sandbox: propose changes, apply them after review
+                </label>
+
                 {/* Submit Button */}
                 <button
                   onClick={handleSubmit}
@@ -341,12 +735,89 @@ export function Panel({ payload, componentContext, onClose }: PanelProps) {
                   {isSubmitting ? (
                     <>
                       <span className="inline-block animate-spin">⏳</span>
-                      Submitting to Cursor Agent...
+                      Submitting to Agent...
                     </>
                   ) : (
-                    <>🚀 Submit to Cursor Agent</>
+                    <>🚀 Submit to Agent</>
                   )}
                 </button>
+                {submitError && <ErrorNotice error={submitError} title="Submission rejected" />}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Agent Job */}
+        {(agentEvents.length > 0 || submissionResult) && (
+          <div className="mb-3 space-y-3">
+            {/* Agent Progress */}
+            {agentEvents.length > 0 && (
+              <div className="p-3 bg-gray-900/60 border border-gray-700 rounded-md">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs text-gray-400 font-medium">Agent Progress:</span>
+                  {isSubmitting && activeJob && (
+                    <button
+                      onClick={handleCancel}
+                      disabled={isCancelling}
+                      title="Stop the agent process"
+                      className="px-2 py-0.5 bg-red-700 hover:bg-red-800 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded text-xs transition-colors"
+                    >
+                      {isCancelling ? 'Cancelling...' : '■ Cancel'}
+                    </button>
+                  )}
+                </div>
+                <ul className="text-xs space-y-0.5 mb-2">
+                  {agentEvents.map((event, index) => {
+                    switch (event.type) {
+                      case 'queued':
+                        return event.position > 0 ? (
+                          <li key={index} className="text-gray-300">
+                            ▸ Queued (#{event.position}), waiting for another agent job to finish
+                          </li>
+                        ) : null;
+                      case 'spawned':
+                        return <li key={index} className="text-gray-300">▸ Started {event.provider} agent</li>;
+                      case 'thinking':
+                        return (
+                          <li key={index} className="text-gray-300">
+                            ▸ Thinking{isSubmitting && <span className="animate-pulse">…</span>}
+                          </li>
+                        );
+                      case 'editing':
+                        return (
+                          <li key={index} className="text-blue-300">
+                            ▸ Editing <span className="font-mono">{event.filePath}</span>
+                          </li>
+                        );
+                      case 'verifying':
+                        return (
+                          <li key={index} className="text-gray-300">
+                            ▸ Checking changes: {event.check}
+                          </li>
+                        );
+                      case 'done':
+                        return <li key={index} className="text-green-300">✓ Done</li>;
+                      case 'failed':
+                        return <li key={index} className="text-red-300">✗ Failed</li>;
+                      default:
+                        return null;
+                    }
+                  })}
+                </ul>
+                {agentEvents.some((event) => event.type === 'output') && (
+                  <pre
+                    ref={agentLogRef}
+                    className="p-2 bg-gray-900 rounded text-xs text-gray-300 overflow-auto max-h-48 whitespace-pre-wrap"
+                  >
+                    {agentEvents.map((event, index) =>
+                      event.type === 'output' ? (
+                        <span key={index} className={event.stream === 'stderr' ? 'text-yellow-300' : undefined}>
+                          {event.chunk}
+                        </span>
+                      ) : null
+                    )}
+                  </pre>
+                )}
               </div>
             )}
 
@@ -359,15 +830,104 @@ export function Panel({ payload, componentContext, onClose }: PanelProps) {
                     : 'bg-red-900/30 border-red-700/50'
                 }`}
               >
-                <div
-                  className={`text-sm font-medium mb-1 ${
-                    submissionResult.success ? 'text-green-200' : 'text-red-200'
-                  }`}
-                >
-                  {submissionResult.success ? '✓ Success' : '✗ Failed'}
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <div
+                    className={`text-sm font-medium ${
+                      submissionResult.success ? 'text-green-200' : 'text-red-200'
+                    }`}
+                  >
+                    {submissionResult.success ? '✓ Success' : '✗ Failed'}
+                  </div>
+                  {activeJob?.revertStatus === 'revertible' && !isSubmitting && (
+                    <button
+                      onClick={handleRevert}
+                      disabled={isJobActionBusy}
+                      title="Restore the files this submission changed"
+                      className="px-2 py-0.5 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded text-xs transition-colors"
+                    >
+                      ↶ Undo
+                    </button>
+                  )}
                 </div>
                 <div className="text-xs text-gray-300">{submissionResult.message}</div>
-                {submissionResult.agentOutput && (
+                {submissionResult.verification && (
+                  <div className="mt-2">
+                    <div className="text-xs text-gray-400 mb-1 font-medium">Checks:</div>
+                    <VerificationBadges report={submissionResult.verification} />
+                  </div>
+                )}
+                {submissionResult.diffs && (
+                  <div className="mt-2">
+                    <div className="text-xs text-gray-400 mb-1 font-medium">
+                      Changes ({submissionResult.diffs.length} {submissionResult.diffs.length === 1 ? 'file' : 'files'}):
+                    </div>
+                    <DiffView diffs={submissionResult.diffs} />
+                  </div>
+                )}
+
+                {/* Sandboxed changes: apply, discard or retry */}
+                {activeJob?.proposalStatus === 'pending' && !isSubmitting && (
+                  <div className="mt-3 space-y-2">
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleProposal('apply')}
+                        disabled={isJobActionBusy}
+                        className="flex-1 px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded text-sm font-medium transition-colors"
+                      >
+                        ✓ Apply
+                      </button>
+                      <button
+                        onClick={() => handleProposal('discard')}
+                        disabled={isJobActionBusy}
+                        className="flex-1 px-3 py-1.5 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded text-sm font-medium transition-colors"
+                      >
+                        ✕ Discard
+                      </button>
+                    </div>
+                    <textarea
+                      value={amendMessage}
+                      onChange={(e) => setAmendMessage(e.target.value)}
+                      placeholder="Amend the instructions and try again..."
+                      className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded text-xs text-gray-200 placeholder-gray-500 resize-y min-h-[60px] focus:outline-none focus:border-blue-500"
+                      disabled={isJobActionBusy}
+                    />
+                    <button
+                      onClick={handleRetry}
+                      disabled={!amendMessage.trim() || isJobActionBusy}
+                      className="w-full px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded text-sm font-medium transition-colors"
+                    >
+                      ↻ Retry with These Instructions
+                    </button>
+                  </div>
+                )}
+                {activeJob?.proposalStatus === 'applied' && (
+                  <div className="mt-2 text-xs text-green-300">✓ Applied to your working tree</div>
+                )}
+                {activeJob?.proposalStatus === 'discarded' && (
+                  <div className="mt-2 text-xs text-gray-400">Changes discarded</div>
+                )}
+                {activeJob?.revertStatus === 'reverted' && (
+                  <div className="mt-2 text-xs text-gray-300">↶ Reverted, files restored</div>
+                )}
+                {revertConflicts.length > 0 && (
+                  <div className="mt-2 text-xs text-red-300">
+                    Can't undo, these files changed after the submission:
+                    <ul className="mt-1 ml-3 list-disc">
+                      {revertConflicts.map((conflict) => (
+                        <li key={conflict.filePath}>
+                          <span className="font-mono">{conflict.filePath}</span> ({conflict.reason})
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {jobActionError && (
+                  <div className="mt-2">
+                    <ErrorNotice error={jobActionError} />
+                  </div>
+                )}
+                {/* Streamed output is already shown under Agent Progress */}
+                {submissionResult.agentOutput && agentEvents.length === 0 && (
                   <details className="mt-2 group">
                     <summary className="text-xs text-gray-400 cursor-pointer hover:text-gray-300 list-none flex items-center gap-1">
                       <span className="text-[10px] group-open:rotate-90 transition-transform">
@@ -392,7 +952,7 @@ export function Panel({ payload, componentContext, onClose }: PanelProps) {
             Selection Payload
           </summary>
           <pre className="bg-gray-900 p-3 rounded-md text-xs leading-relaxed overflow-auto whitespace-pre-wrap break-words font-mono m-0 mt-1 max-h-48 border border-gray-700">
-            {payload ? JSON.stringify(payload, null, 2) : 'No element selected'}
+            {focused ? JSON.stringify(focused.payload, null, 2) : 'No element selected'}
           </pre>
         </details>
       </div>
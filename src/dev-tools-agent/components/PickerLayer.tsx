@@ -2,6 +2,9 @@ import { useCallback, useRef, useEffect, useMemo } from 'react';
 import type { SelectionPayload, HighlightRect, TestIdInfo } from '../types';
 import { deepElementFromPoint } from '../utils/deepElementFromPoint';
 import { buildSelector } from '../utils/buildSelector';
+import { collectAncestorChain } from '../utils/ancestorChain';
+import { getComponentStack } from '../utils/reactFiber';
+import { readSourceLocation, stripSourceAttributes } from '../utils/sourceAttribute';
 import { throttle } from '../utils/throttle';
 
 /**
@@ -31,7 +34,8 @@ function findTestIdInfo(element: Element): TestIdInfo | null {
 
 interface PickerLayerProps {
   onHover: (rect: HighlightRect | null) => void;
-  onSelect: (payload: SelectionPayload) => void;
+  /** additive: shift-click, which adds to the selection instead of replacing it */
+  onSelect: (payload: SelectionPayload, element: Element, additive: boolean) => void;
   excludeIds: string[];
 }
 
@@ -83,9 +87,12 @@ export function PickerLayer({ onHover, onSelect, excludeIds }: PickerLayerProps)
       pageUrl: window.location.href,
       selector,
       testId,
-      domOuterHtml: element.outerHTML.slice(0, 1000),
+      domOuterHtml: stripSourceAttributes(element.outerHTML).slice(0, 1000),
       textSnippet: (element.textContent || '').trim().slice(0, 100),
       classes: Array.from(element.classList),
+      ancestors: collectAncestorChain(element),
+      componentStack: getComponentStack(element),
+      sourceLocation: readSourceLocation(element),
     };
   }, []);
 
@@ -147,7 +154,7 @@ export function PickerLayer({ onHover, onSelect, excludeIds }: PickerLayerProps)
 
     if (element) {
       const payload = buildPayload(element);
-      onSelect(payload);
+      onSelect(payload, element, e.shiftKey);
     }
   }, [getElementUnderPoint, buildPayload, onSelect]);
 
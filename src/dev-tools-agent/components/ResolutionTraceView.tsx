@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { getResolutionTrace } from '../api';
+import type { ResolutionTrace, ResolutionTraceRun, SourceLocation } from '../types';
+import { ErrorNotice } from './ErrorNotice';
+
+interface ResolutionTraceViewProps {
+  traceId: string;
+}
+
+const RUN_OUTCOME_STYLES: Record<ResolutionTraceRun['outcome'], string> = {
+  matched: 'text-green-400',
+  no_match: 'text-gray-500',
+  skipped: 'text-gray-600',
+  failed: 'text-red-400',
+};
+
+const TRACE_OUTCOME_STYLES: Record<ResolutionTrace['outcome'], string> = {
+  resolved: 'bg-green-600 text-green-100',
+  agent: 'bg-purple-600 text-purple-100',
+  unresolved: 'bg-yellow-600 text-yellow-100',
+  cached: 'bg-gray-600 text-gray-200',
+};
+
+function formatLocation(location: SourceLocation): string {
+  return `${location.filePath}${location.lineNumber ? `:${location.lineNumber}` : ''}`;
+}
+
+function TraceRun({ run }: { run: ResolutionTraceRun }) {
+  return (
+    <li>
+      <div className="flex items-baseline gap-2">
+        <span className="text-gray-200 font-medium">{run.resolver}</span>
+        {run.depth > 0 && <span className="text-gray-500">ancestor {run.depth}</span>}
+        <span className={RUN_OUTCOME_STYLES[run.outcome]}>{run.outcome.replace('_', ' ')}</span>
+        {run.outcome !== 'skipped' && <span className="text-gray-500 font-mono ml-auto">{run.durationMs} ms</span>}
+      </div>
+      {run.result && (
+        <div className="ml-3 font-mono text-blue-300 break-all">
+          → {formatLocation(run.result)} ({run.result.confidence})
+        </div>
+      )}
+      {run.error && <div className="ml-3 text-red-300 break-words">{run.error}</div>}
+      {run.steps.length > 0 && (
+        <ul className="ml-3 border-l border-gray-700 pl-2">
+          {run.steps.map((step, index) => (
+            <li key={index} className="flex items-baseline gap-2">
+              <span className="text-gray-400 flex-shrink-0">{step.phase}</span>
+              <span className="text-gray-300 break-all min-w-0">{step.detail}</span>
+              <span
+                className={`ml-auto flex-shrink-0 ${step.matchCount > 0 ? 'text-green-400' : 'text-gray-500'}`}
+                title={step.matches.map(formatLocation).join('\n')}
+              >
+                {step.matchCount === 0
+                  ? 'no match'
+                  : step.matchCount === 1
+                    ? formatLocation(step.matches[0])
+                    : `${step.matchCount} matches`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Why a selection resolved to its file: every resolver the chain ran, what each of them
+ * looked up and found, and why the chain ended where it did. The trace is fetched the
+ * first time the view is opened; for cached results, the trace of the resolution that
+ * produced them is shown.
+ */
+export function ResolutionTraceView({ traceId }: ResolutionTraceViewProps) {
+  /** undefined until loaded, null if the server no longer keeps it */
+  const [trace, setTrace] = useState<ResolutionTrace | null | undefined>(undefined);
+  const [resolvedBy, setResolvedBy] = useState<ResolutionTrace | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = async () => {
+    if (trace !== undefined || loading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await getResolutionTrace(traceId);
+      setResolvedBy(loaded?.cachedFrom ? await getResolutionTrace(loaded.cachedFrom) : null);
+      setTrace(loaded);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runs = (resolvedBy ?? trace)?.runs ?? [];
+
+  return (
+    <details className="group mt-2" onToggle={(e) => e.currentTarget.open && load()}>
+      <summary className="text-xs text-gray-400 cursor-pointer hover:text-gray-300 list-none flex items-center gap-1">
+        <span className="text-[10px] group-open:rotate-90 transition-transform">▶</span>
+        Why this file?
+      </summary>
+      <div className="mt-1 space-y-1 text-xs">
+        {loading && <div className="text-gray-400">Loading trace…</div>}
+        {error && <ErrorNotice error={error} title="Trace not loaded" />}
+        {trace === null && (
+          <div className="text-gray-400">The server no longer keeps this trace; select the element again.</div>
+        )}
+        {trace && (
+          <>
+            <div className="flex items-baseline gap-2">
+              <span
+                className={`px-1.5 py-0.5 rounded font-medium text-[10px] flex-shrink-0 ${TRACE_OUTCOME_STYLES[trace.outcome]}`}
+              >
+                {trace.outcome}
+              </span>
+              <span className="text-gray-300 break-words min-w-0">{trace.reason}</span>
+              <span className="text-gray-500 font-mono ml-auto flex-shrink-0">{trace.durationMs} ms</span>
+            </div>
+            {runs.length > 0 ? (
+              <ul className="space-y-1">
+                {runs.map((run, index) => (
+                  <TraceRun key={index} run={run} />
+                ))}
+              </ul>
+            ) : (
+              <div className="text-gray-500">No resolver runs recorded.</div>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import type { SelectedElement } from '../types';
+
+interface SelectionHighlightsProps {
+  selections: SelectedElement[];
+}
+
+/**
+ * Numbered boxes around the selected elements, in selection order.
+ * Boxes follow their elements when the page scrolls or resizes; elements that left the
+ * DOM (e.g. after a hot reload) lose their box.
+ */
+export function SelectionHighlights({ selections }: SelectionHighlightsProps) {
+  const [, setLayoutVersion] = useState(0);
+
+  useEffect(() => {
+    if (selections.length === 0) return;
+
+    let frame: number | null = null;
+    const handleLayoutChange = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        setLayoutVersion((version) => version + 1);
+      });
+    };
+
+    window.addEventListener('scroll', handleLayoutChange, true);
+    window.addEventListener('resize', handleLayoutChange);
+    return () => {
+      window.removeEventListener('scroll', handleLayoutChange, true);
+      window.removeEventListener('resize', handleLayoutChange);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [selections.length]);
+
+  return (
+    <>
+      {selections.map((selection, index) => {
+        if (!selection.element.isConnected) return null;
+        const rect = selection.element.getBoundingClientRect();
+
+        return (
+          <div
+            key={selection.id}
+            className="ui-agent-selection-box fixed pointer-events-none border-2 border-green-500 rounded-sm z-[999997]"
+            style={{
+              top: rect.top,
+              left: rect.left,
+              width: rect.width,
+              height: rect.height,
+              boxShadow: '0 0 0 2px rgba(34, 197, 94, 0.25)',
+            }}
+          >
+            <span className="absolute -top-5 -left-0.5 min-w-[20px] h-5 px-1 rounded-sm bg-green-500 text-white text-xs font-semibold font-sans flex items-center justify-center">
+              {index + 1}
+            </span>
+          </div>
+        );
+      })}
+    </>
+  );
+}
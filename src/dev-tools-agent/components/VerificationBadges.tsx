@@ -0,0 +1,50 @@
+import type { VerificationCheck, VerificationReport } from '../types';
+
+interface VerificationBadgesProps {
+  report: VerificationReport;
+}
+
+const BADGE_STYLES: Record<VerificationCheck['status'], { icon: string; className: string }> = {
+  passed: { icon: '✓', className: 'bg-green-600 text-green-100' },
+  failed: { icon: '✗', className: 'bg-red-600 text-red-100' },
+  skipped: { icon: '–', className: 'bg-gray-600 text-gray-200' },
+};
+
+/**
+ * One badge per check run on the agent's changes (typecheck, lint, tests).
+ * Expanding a check shows the command and its output.
+ */
+export function VerificationBadges({ report }: VerificationBadgesProps) {
+  return (
+    <div className="space-y-1">
+      {report.checks.map((check) => {
+        const style = BADGE_STYLES[check.status];
+        return (
+          <details key={check.name} className="group" open={check.status === 'failed'}>
+            <summary className="text-xs cursor-pointer list-none flex items-center gap-2">
+              <span className={`px-2 py-0.5 rounded font-medium flex-shrink-0 ${style.className}`}>
+                {style.icon} {check.name}
+              </span>
+              <span className="text-gray-300 truncate" title={check.summary}>
+                {check.summary}
+              </span>
+              {check.durationMs !== undefined && (
+                <span className="text-gray-500 flex-shrink-0 ml-auto">{(check.durationMs / 1000).toFixed(1)}s</span>
+              )}
+            </summary>
+            {(check.command || check.output) && (
+              <div className="mt-1 ml-2">
+                {check.command && <div className="text-[10px] font-mono text-gray-500 break-all">$ {check.command}</div>}
+                {check.output && (
+                  <pre className="mt-1 p-2 bg-gray-900 rounded text-xs text-gray-300 overflow-auto max-h-40 whitespace-pre-wrap">
+                    {check.output}
+                  </pre>
+                )}
+              </div>
+            )}
+          </details>
+        );
+      })}
+    </div>
+  );
+}
@@ -7,20 +7,34 @@
 import { createElement } from 'react';
 import { createRoot, type Root } from 'react-dom/client';
 import { UiAgentOverlay } from './UiAgentOverlay';
+import { configureApi } from './api';
 
 let root: Root | null = null;
 let container: HTMLDivElement | null = null;
 
+export interface UiAgentOverlayOptions {
+  /** Backend URL, e.g. the Vite plugin's mount path. Default: http://localhost:4000 */
+  baseUrl?: string;
+  /**
+   * The backend's session token, if whoever started the backend can pass it on.
+   * Without it, the overlay asks the backend, which only answers allowed origins.
+   */
+  sessionToken?: string;
+}
+
 /**
  * Initialize and mount the UI-Agent overlay.
- * Should only be called in development mode.
+ * Should only be called in development mode. Apps served by Vite get this call from the
+ * ui-agent plugin (server/vitePlugin.ts).
  */
-export function initUiAgentOverlay(): void {
+export function initUiAgentOverlay(options: UiAgentOverlayOptions = {}): void {
   if (root) {
     console.warn('[UI-Agent] Overlay already initialized');
     return;
   }
 
+  configureApi(options);
+
   // Create container element
   container = document.createElement('div');
   container.id = 'ui-agent-container';
@@ -3,6 +3,8 @@ import type { TestResult, TestStatus } from './types';
 import type { SelectionPayload, ComponentContext, TestIdInfo } from '../types';
 import { resolveSelection } from '../api';
 import { buildSelector } from '../utils/buildSelector';
+import { collectAncestorChain } from '../utils/ancestorChain';
+import { stripSourceAttributes } from '../utils/sourceAttribute';
 
 /**
  * Semantic selector comparison - checks if two selectors target the same elements
@@ -90,9 +92,10 @@ function buildSelectionPayload(element: Element): SelectionPayload {
     pageUrl: window.location.href,
     selector,
     testId,
-    domOuterHtml: element.outerHTML.slice(0, 1000),
+    domOuterHtml: stripSourceAttributes(element.outerHTML).slice(0, 1000),
     textSnippet: (element.textContent || '').trim().slice(0, 100),
     classes: Array.from(element.classList),
+    ancestors: collectAncestorChain(element),
   };
 }
 
@@ -14,7 +14,7 @@ export function AgentFallbackToggle() {
         />
         <div className="flex-1">
           <div className="font-semibold text-yellow-800">
-            Enable Agent Fallback (Cursor CLI)
+            Enable Agent Fallback
           </div>
           <div className="text-sm text-yellow-700 mt-1">
             ⚠️ Uses API credits. Only enable for manual testing. 
@@ -3,7 +3,34 @@
  */
 
 // Re-export shared types
-export type { SelectionPayload, ComponentContext, TestIdInfo, SubmissionRequest, SubmissionResponse } from '../shared/types';
+export type {
+  SelectionPayload,
+  ComponentContext,
+  ComponentStackFrame,
+  ConfidenceSignal,
+  ElementInfo,
+  ResolutionCandidate,
+  ResolutionTrace,
+  ResolutionTraceRun,
+  ResolutionTraceStep,
+  SourceLocation,
+  TestIdInfo,
+  ResolveSelectionRequest,
+  SubmissionRequest,
+  SubmissionResponse,
+  FileDiff,
+  RevertConflict,
+  VerificationCheck,
+  VerificationCheckName,
+  VerificationReport,
+  AgentEvent,
+  JobStatus,
+  ProposalStatus,
+  SubmissionJob,
+  UiAgentError,
+  UiAgentErrorCode,
+  UiAgentErrorDetail,
+} from '../shared/types';
 
 // Overlay-specific types (stay here)
 export interface HighlightRect {
@@ -13,6 +40,20 @@ export interface HighlightRect {
   height: number;
 }
 
+/**
+ * An element picked in the page. Shift-click picks several; they are numbered in
+ * selection order (index + 1).
+ */
+export interface SelectedElement {
+  /** Unique per pick */
+  id: number;
+  element: Element;
+  payload: SelectionPayload;
+  /** null while resolving, or when resolution failed (see error) */
+  context: ComponentContext | null;
+  error?: Error;
+}
+
 export interface OverlayState {
   isPanelOpen: boolean;
   isInSelectState: boolean;
@@ -20,5 +61,5 @@ export interface OverlayState {
   highlightRect: HighlightRect | null;
 }
 
-// Import for use in OverlayState
-import type { SelectionPayload } from '../shared/types';
+// Import for use in the overlay types above
+import type { ComponentContext, SelectionPayload } from '../shared/types';
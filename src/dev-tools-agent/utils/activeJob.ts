@@ -0,0 +1,17 @@
+const STORAGE_KEY = 'ui-agent-active-job';
+
+/**
+ * ID of the submission job the overlay is following, if any.
+ * Kept in localStorage so the overlay can reattach to it after a page reload.
+ */
+export function getActiveJobId(): string | null {
+  return localStorage.getItem(STORAGE_KEY);
+}
+
+export function setActiveJobId(jobId: string | null): void {
+  if (jobId) {
+    localStorage.setItem(STORAGE_KEY, jobId);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
@@ -0,0 +1,54 @@
+import type { ElementInfo } from '../types';
+import { buildSelector } from './buildSelector';
+
+/**
+ * How many ancestors to collect above the clicked element.
+ */
+export const MAX_ANCESTORS = 5;
+
+/**
+ * Collect all attributes from an element as key-value pairs.
+ */
+function getAllAttributes(element: Element): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const attribute of Array.from(element.attributes)) {
+    attributes[attribute.name] = attribute.value;
+  }
+  return attributes;
+}
+
+/**
+ * Build the DOM facts the backend needs for a single element.
+ */
+export function getElementInfo(element: Element): ElementInfo {
+  return {
+    tagName: element.tagName.toLowerCase(),
+    attributes: getAllAttributes(element),
+    selector: buildSelector(element),
+    textSummary: (element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 100),
+  };
+}
+
+/**
+ * Collect the clicked element followed by up to `maxAncestors` ancestors.
+ * Stops at <body>, which never maps to a component.
+ *
+ * @param element - The clicked element (index 0 of the result)
+ * @param maxAncestors - Maximum number of ancestors to include
+ */
+export function collectAncestorChain(element: Element, maxAncestors = MAX_ANCESTORS): ElementInfo[] {
+  const chain: ElementInfo[] = [];
+  let current: Element | null = element;
+
+  while (
+    current &&
+    current !== document.body &&
+    current !== document.documentElement &&
+    chain.length <= maxAncestors
+  ) {
+    chain.push(getElementInfo(current));
+    current = current.parentElement;
+  }
+
+  return chain;
+}
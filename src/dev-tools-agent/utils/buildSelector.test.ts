@@ -0,0 +1,47 @@
+import { SOURCE_ATTRIBUTE } from '../../shared/sourceAttribute';
+import { buildSelector } from './buildSelector';
+
+beforeAll(() => {
+  // jsdom has no CSS.escape; this one covers the plain names used below
+  globalThis.CSS ??= { escape: (value: string) => value.replace(/[^\w-]/g, (char) => `\\${char}`) } as typeof CSS;
+});
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+const stamp = (line: number) => `${SOURCE_ATTRIBUTE}="src/Page.tsx:${line}:5"`;
+
+function render(html: string) {
+  document.body.innerHTML = html;
+  return Array.from(document.querySelectorAll(`[${SOURCE_ATTRIBUTE}]`));
+}
+
+test('never uses the source attribute, whichever selector it builds', () => {
+  const elements = render(`
+    <main ${stamp(1)}>
+      <section data-testid="cart" ${stamp(2)}><button ${stamp(3)}>Buy</button></section>
+      <form id="search" ${stamp(4)}><input ${stamp(5)}></form>
+      <ul class="items" ${stamp(6)}><li class="item" ${stamp(7)}>A</li><li class="item" ${stamp(8)}>B</li></ul>
+      <p ${stamp(9)}>First</p>
+      <p ${stamp(10)}>Second</p>
+    </main>
+  `);
+
+  const selectors = elements.map(buildSelector);
+
+  expect(selectors).toHaveLength(10);
+  for (const selector of selectors) expect(selector).not.toContain(SOURCE_ATTRIBUTE);
+  selectors.forEach((selector, i) => expect(document.querySelector(selector)).toBe(elements[i]));
+});
+
+test('prefers the test ID, then the id', () => {
+  const [section, button, form] = render(`
+    <section data-testid="cart" ${stamp(1)}><button ${stamp(2)}>Buy</button></section>
+    <form id="search" ${stamp(3)}></form>
+  `);
+
+  expect(buildSelector(section)).toBe('[data-testid="cart"]');
+  expect(buildSelector(button)).toBe('[data-testid="cart"] button');
+  expect(buildSelector(form)).toBe('#search');
+});
@@ -2,11 +2,14 @@
  * Builds a CSS selector for an element, ensuring uniqueness.
  * Prioritizes data-testid, then id, then builds path-based selectors.
  */
+import { SOURCE_ATTRIBUTE } from '../../shared/sourceAttribute';
 
 /**
  * Checks if a selector matches exactly one element in the document.
+ * Selectors on the source attribute are rejected, whichever step builds them.
  */
 function isUnique(selector: string, root: ParentNode = document): boolean {
+  if (selector.includes(SOURCE_ATTRIBUTE)) return false;
   try {
     const matches = root.querySelectorAll(selector);
     return matches.length === 1;
@@ -114,6 +117,8 @@ function buildPathSelector(element: Element, maxDepth = 4): string {
 /**
  * Builds a CSS selector for an element, ensuring uniqueness.
  * Prioritizes data-testid, then id, then builds path-based selectors.
+ * Source attributes (data-ui-agent-src) are never used: they change with every edit
+ * and don't exist outside the dev server.
  * 
  * @param element - The DOM element to build a selector for
  * @returns A CSS selector string that uniquely identifies the element
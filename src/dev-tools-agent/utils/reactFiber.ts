@@ -0,0 +1,79 @@
+import type { ComponentStackFrame } from '../types';
+
+/**
+ * The parts of a React fiber we read. These are internals that React only
+ * populates in development builds (`_debugOwner`, `_debugSource`).
+ */
+interface Fiber {
+  type: unknown;
+  _debugOwner?: Fiber | null;
+  _debugSource?: {
+    fileName: string;
+    lineNumber: number;
+    columnNumber?: number;
+  } | null;
+}
+
+const MAX_FRAMES = 50;
+
+/**
+ * Get the fiber React attached to a DOM node, if any.
+ */
+function getFiber(element: Element): Fiber | null {
+  const key = Object.keys(element).find((k) => k.startsWith('__reactFiber$'));
+  return key ? (element as unknown as Record<string, Fiber>)[key] : null;
+}
+
+/**
+ * Display name of a component type, unwrapping memo() and forwardRef().
+ */
+function getComponentName(type: unknown): string | null {
+  if (typeof type === 'function') {
+    const component = type as { displayName?: string; name?: string };
+    return component.displayName || component.name || null;
+  }
+
+  if (type && typeof type === 'object') {
+    const wrapper = type as { displayName?: string; render?: unknown; type?: unknown };
+    if (wrapper.displayName) return wrapper.displayName;
+    if (wrapper.render) return getComponentName(wrapper.render);
+    if (wrapper.type) return getComponentName(wrapper.type);
+  }
+
+  return null;
+}
+
+/**
+ * Walk the owner chain of the fiber that rendered an element.
+ * Returns the owning components innermost first, each with the source location
+ * where it rendered the previous frame. Returns an empty array if the page is not
+ * a React development build.
+ *
+ * @param element - The clicked element
+ */
+export function getComponentStack(element: Element): ComponentStackFrame[] {
+  // Elements added outside React (e.g., by a library) inherit the nearest React ancestor
+  let current: Element | null = element;
+  let fiber: Fiber | null = null;
+  while (current && !fiber) {
+    fiber = getFiber(current);
+    current = current.parentElement;
+  }
+
+  const frames: ComponentStackFrame[] = [];
+  let source = fiber?._debugSource;
+  let owner = fiber?._debugOwner;
+
+  while (owner && frames.length < MAX_FRAMES) {
+    frames.push({
+      componentName: getComponentName(owner.type) ?? 'Anonymous',
+      fileName: source?.fileName,
+      lineNumber: source?.lineNumber,
+      columnNumber: source?.columnNumber,
+    });
+    source = owner._debugSource;
+    owner = owner._debugOwner;
+  }
+
+  return frames;
+}
@@ -0,0 +1,18 @@
+import { SOURCE_ATTRIBUTE, parseSourceAttribute } from '../../shared/sourceAttribute';
+import type { SourceLocation } from '../types';
+
+const SOURCE_ATTRIBUTE_PATTERN = new RegExp(`\\s${SOURCE_ATTRIBUTE}="[^"]*"`, 'g');
+
+/**
+ * Where an element is written, if the transform stamped it.
+ */
+export function readSourceLocation(element: Element): SourceLocation | undefined {
+  return parseSourceAttribute(element.getAttribute(SOURCE_ATTRIBUTE));
+}
+
+/**
+ * HTML without the stamps, which say nothing about what the element looks like.
+ */
+export function stripSourceAttributes(html: string): string {
+  return html.replace(SOURCE_ATTRIBUTE_PATTERN, '');
+}
@@ -78,11 +78,6 @@ if (import.meta.env.MODE === 'development') {
     populateData()
     start()
     runApp()
-    
-    // Initialize UI-Agent overlay
-    import('./dev-tools-agent').then(({ initUiAgentOverlay }) => {
-      initUiAgentOverlay()
-    })
   })
 } else {
   runApp()
@@ -0,0 +1,17 @@
+import type { SourceLocation } from './types';
+
+/**
+ * Attribute the dev-only transform (server/sourceAttributes.ts) stamps on host JSX
+ * elements: `path:line:column` of the element's opening tag, the path relative to the
+ * project root. Read by the overlay and by the server.
+ */
+export const SOURCE_ATTRIBUTE = 'data-ui-agent-src';
+
+/**
+ * The location in a SOURCE_ATTRIBUTE value, or undefined if it isn't one.
+ */
+export function parseSourceAttribute(value: string | null | undefined): SourceLocation | undefined {
+  const match = value?.match(/^(.+):(\d+):(\d+)$/);
+  if (!match) return undefined;
+  return { filePath: match[1], lineNumber: Number(match[2]), columnNumber: Number(match[3]) };
+}
@@ -39,6 +39,38 @@ export interface TestIdInfo {
   ancestorTagName: string;
 }
 
+/**
+ * DOM facts about one element in the clicked element's ancestor chain.
+ */
+export interface ElementInfo {
+  /** Lowercase tag name (e.g., 'div', 'button') */
+  tagName: string;
+
+  /** All attributes as key-value pairs (class, id, data-*, aria-*, etc.) */
+  attributes: Record<string, string>;
+
+  /** CSS selector for this element */
+  selector: string;
+
+  /** Text content with whitespace collapsed (first 100 chars) */
+  textSummary: string;
+}
+
+/**
+ * A component that owns the clicked element, taken from React's development fiber tree.
+ * The source location is where this component renders the next frame (or, for the first
+ * frame, the clicked element itself).
+ */
+export interface ComponentStackFrame {
+  componentName: string;
+
+  /** Absolute path as compiled by the dev server, if React recorded one */
+  fileName?: string;
+
+  lineNumber?: number;
+  columnNumber?: number;
+}
+
 export interface SelectionPayload {
   pageUrl: string;
 
@@ -51,15 +83,82 @@ export interface SelectionPayload {
   domOuterHtml: string;
   textSnippet: string;
   classes: string[];
+
+  /**
+   * The clicked element followed by its ancestors.
+   * Index 0 = clicked element, 1 = parent, 2 = grandparent, etc.
+   */
+  ancestors?: ElementInfo[];
+
+  /** Owning components, innermost first. Empty or missing outside React development builds. */
+  componentStack?: ComponentStackFrame[];
+
+  /**
+   * Where the clicked element is written, from the `data-ui-agent-src` attribute the dev-only
+   * source attribute transform stamps on host elements. Missing without the transform.
+   */
+  sourceLocation?: SourceLocation;
+}
+
+/**
+ * Body of POST /resolve-selection: the selection plus how to resolve it.
+ */
+export interface ResolveSelectionRequest extends SelectionPayload {
+  /** Ask an agent when the heuristics aren't confident. Default: false */
+  useAgentFallback?: boolean;
+  /** Agent provider for the fallback; defaults to the server config */
+  agentProvider?: string;
+}
+
+/**
+ * A position in a source file.
+ */
+export interface SourceLocation {
+  filePath: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  componentName?: string;
+}
+
+/**
+ * One piece of evidence behind a resolution's score, e.g. "unique literal test ID".
+ */
+export interface ConfidenceSignal {
+  /** Resolver that reported it; missing for signals added by the resolver chain */
+  resolver?: string;
+  label: string;
+  /** Added to the score; negative signals lower it */
+  weight: number;
+}
+
+/**
+ * A possible source location for the selected element.
+ */
+export interface ResolutionCandidate {
+  filePath: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  codeSnippet?: CodeSnippet;
+
+  /** Between 0 and 1, higher is more likely. Only comparable between candidates of one resolver. */
+  score: number;
+
+  /** Resolver that produced the candidate (e.g., 'testId', 'text', 'css') */
+  resolver: string;
 }
 
 export interface ComponentContext {
   id: string;
   source: 'heuristic' | 'agent';
+  /** score mapped to a level: high from 0.8, medium from 0.5 */
   confidence: 'high' | 'medium' | 'low';
+  /** Between 0 and 1: the sum of the signals' weights */
+  score?: number;
+  signals?: ConfidenceSignal[];
   filePath: string;
   componentName?: string;
   lineNumber?: number;
+  columnNumber?: number;
   selectorSummary: string;
   domSummary: string;
   needsVerification: boolean;
@@ -67,23 +166,278 @@ export interface ComponentContext {
   verified: boolean;
   /** Code snippet around the matched line (10 lines above/below) */
   codeSnippet?: CodeSnippet;
+  /** All locations considered, best first. The first one is what filePath/lineNumber point at. */
+  candidates?: ResolutionCandidate[];
+  /**
+   * Where the parent component matched, when the element was found by following it into
+   * a child component. filePath/lineNumber then point into the child.
+   */
+  parentLocation?: SourceLocation;
+  /** Trace of the resolution, served by GET /debug/resolutions/:id while the server keeps it */
+  traceId?: string;
 }
 
 /**
- * Request to submit a verified context to Cursor agent for code modification.
+ * One thing a resolver tried, e.g. looking the test ID up among namespaced constants.
+ */
+export interface ResolutionTraceStep {
+  /** What was tried, e.g. 'literal', 'constant', 'namespaced', 'function', 'class' */
+  phase: string;
+  /** What was looked for, e.g. the test ID or class name */
+  detail: string;
+  /** How many locations it turned up */
+  matchCount: number;
+  /** The first of them (at most 10) */
+  matches: SourceLocation[];
+}
+
+/**
+ * A resolver's turn in the chain. The chain's own work shows up under the names
+ * 'ancestor' (finding the clicked element inside a matched ancestor) and 'agent'.
+ */
+export interface ResolutionTraceRun {
+  resolver: string;
+  /** 0 for the clicked element, n for its nth ancestor */
+  depth: number;
+  /**
+   * - matched: returned a result
+   * - no_match: couldn't handle the element or found nothing
+   * - skipped: not run, an earlier resolver was highly confident
+   * - failed: threw (see error)
+   */
+  outcome: 'matched' | 'no_match' | 'skipped' | 'failed';
+  durationMs: number;
+  steps: ResolutionTraceStep[];
+  /** What the resolver returned, before results were merged */
+  result?: SourceLocation & { confidence: 'high' | 'medium' | 'low'; score?: number };
+  error?: string;
+}
+
+/**
+ * How a resolution ended.
+ * - resolved: a heuristic result with at least medium confidence
+ * - agent: no heuristic was confident and the agent fallback located the element
+ * - unresolved: no confident result; the best heuristic guess (if any) was returned
+ * - cached: served from the resolution cache (see cachedFrom)
+ */
+export type ResolutionTraceOutcome = 'resolved' | 'agent' | 'unresolved' | 'cached';
+
+/**
+ * Everything the resolver chain did for one selection, served by GET /debug/resolutions.
+ */
+export interface ResolutionTrace {
+  id: string;
+  /** ISO timestamp */
+  startedAt: string;
+  durationMs: number;
+  selector: string;
+  runs: ResolutionTraceRun[];
+  outcome: ResolutionTraceOutcome;
+  /** Why the chain stopped where it did, or fell back to the agent */
+  reason: string;
+  /** Where the selection was resolved to; empty filePath if nowhere */
+  result: SourceLocation & { confidence: 'high' | 'medium' | 'low'; score?: number; source?: 'heuristic' | 'agent' };
+  /** For cached results, the trace of the resolution that produced them */
+  cachedFrom?: string;
+}
+
+/**
+ * Request to submit verified contexts to a coding agent for code modification.
+ * Exactly one of componentContext and componentContexts must be set.
  */
 export interface SubmissionRequest {
-  componentContext: ComponentContext;
+  componentContext?: ComponentContext;
+  /** Several selected elements, changed together by one request */
+  componentContexts?: ComponentContext[];
   userMessage: string;
+  /** Agent provider to use ('cursor', 'command', 'stub'); defaults to the server config */
+  agentProvider?: string;
+  /**
+   * Let the agent work in a throwaway git worktree and only propose its changes, to be
+   * applied or discarded afterwards. Defaults to the server config (agent.sandbox).
+   */
+  sandbox?: boolean;
+}
+
+/**
+ * Progress of an agent submission, streamed to the overlay as it happens.
+ * A stream always ends with exactly one `done` or `failed` event.
+ */
+export type AgentEvent =
+  /** The submission became a job. position is 0 if it starts right away, 1 if it runs next, ... */
+  | { type: 'queued'; jobId: string; position: number }
+  /** The agent process started */
+  | { type: 'spawned'; provider: string }
+  /** The agent is working but hasn't said what it is doing */
+  | { type: 'thinking' }
+  /** Raw output from the agent */
+  | { type: 'output'; stream: 'stdout' | 'stderr'; chunk: string }
+  /** The agent reported changing a file */
+  | { type: 'editing'; filePath: string }
+  /** The agent finished; a check of its changes is running */
+  | { type: 'verifying'; check: VerificationCheckName }
+  | { type: 'done'; result: SubmissionResponse }
+  | { type: 'failed'; result: SubmissionResponse };
+
+/**
+ * Lifecycle of a submission job: queued → running → succeeded / failed / cancelled.
+ */
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * What became of the changes a sandboxed job proposed.
+ */
+export type ProposalStatus = 'pending' | 'applied' | 'discarded';
+
+/**
+ * A submission handed to the server's job queue.
+ * Jobs outlive the request that created them, so the overlay can poll, cancel, or
+ * reattach to them after a page reload.
+ */
+export interface SubmissionJob {
+  id: string;
+  status: JobStatus;
+  /** Provider running the job */
+  agentProvider: string;
+  /** Location of the first selected element */
+  filePath: string;
+  componentName?: string;
+  /** Every selected element the request is about, in selection order */
+  targets: SourceLocation[];
+  userMessage: string;
+  /** ISO timestamps */
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Set while a cancel request waits for the agent process to exit */
+  cancelRequested?: boolean;
+  /** The agent worked in a sandbox; its changes (result.diffs) are only a proposal */
+  sandbox: boolean;
+  /** Set for sandboxed jobs that finished with changes to apply or discard */
+  proposalStatus?: ProposalStatus;
+  /** The job this one retried with amended instructions */
+  retryOf?: string;
+  /**
+   * 'revertible' once files were changed in the working tree (by the agent, or by applying
+   * a sandbox proposal) and POST /submissions/:id/revert can undo it; 'expired' once newer
+   * changes pushed it out of the jobs the server keeps revert data for
+   */
+  revertStatus?: 'revertible' | 'reverted' | 'expired';
+  /** Everything reported so far, for replaying to a reattached client */
+  events: AgentEvent[];
+  /** Set once the job has finished */
+  result?: SubmissionResponse;
+}
+
+/**
+ * One file an agent changed, as a unified diff.
+ */
+export interface FileDiff {
+  /** Path relative to the repository root */
+  filePath: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  /** Previous path of a renamed file */
+  oldPath?: string;
+  additions: number;
+  deletions: number;
+  /** `git diff` output for this file, headers included */
+  patch: string;
+  /** The patch was cut off because it was too long */
+  truncated?: boolean;
+}
+
+export type VerificationCheckName = 'typecheck' | 'lint' | 'tests';
+
+/**
+ * Result of one check run on an agent's changes.
+ */
+export interface VerificationCheck {
+  name: VerificationCheckName;
+  /** skipped: disabled tool, nothing to check, or tool not installed */
+  status: 'passed' | 'failed' | 'skipped';
+  /** Command that ran, e.g. "eslint --format stylish src/App.tsx" */
+  command?: string;
+  /** One line, e.g. "3 type errors (1 in changed files)" */
+  summary: string;
+  /** Excerpt of the compiler / linter / test output */
+  output?: string;
+  durationMs?: number;
+}
+
+/**
+ * Checks run after an agent changed the working tree.
+ */
+export interface VerificationReport {
+  /** No check failed */
+  passed: boolean;
+  checks: VerificationCheck[];
+}
+
+/**
+ * A file that can't be reverted because it changed again after the submission.
+ */
+export interface RevertConflict {
+  filePath: string;
+  /** modified: edited since; deleted: removed since; created: recreated after the agent deleted it */
+  reason: 'modified' | 'deleted' | 'created';
 }
 
 /**
- * Response from Cursor agent submission.
+ * Response from a coding agent submission.
  */
 export interface SubmissionResponse {
   success: boolean;
   message: string;
+  /** ID of the submission (job), for /jobs/:id and /submissions/:id/revert */
+  submissionId?: string;
   /** Agent's response/output if available */
   agentOutput?: string;
+  /**
+   * Files the agent changed, compared with the working tree just before it started.
+   * Missing if the project isn't a git repository.
+   */
+  changedFiles?: string[];
+  /** Unified diff per changed file, in the same order as changedFiles */
+  diffs?: FileDiff[];
+  /** Type-check, lint and related tests on the changed files, if the agent changed any */
+  verification?: VerificationReport;
 }
 
+
+/**
+ * Why an API request failed. Each code has one HTTP status:
+ * - invalid_request (400): the body or a parameter failed validation; details say where
+ * - unauthorized (401): the session token is missing or wrong
+ * - forbidden (403): the request comes from an origin or host that isn't allowed
+ * - not_found (404): unknown job, submission or route
+ * - conflict (409): the job or submission is in a state that doesn't allow the action
+ * - resolution_failed (500): the resolver chain threw
+ * - internal (500): anything else
+ */
+export type UiAgentErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'resolution_failed'
+  | 'internal';
+
+/**
+ * One problem with a request body.
+ */
+export interface UiAgentErrorDetail {
+  /** Where in the body, e.g. "componentContexts[1].filePath"; empty for the body itself */
+  path: string;
+  message: string;
+}
+
+/**
+ * Error reported by every UI-Agent endpoint, sent as `{ error: UiAgentError }`
+ * next to any endpoint-specific fields (e.g. the job a conflict is about).
+ */
+export interface UiAgentError {
+  code: UiAgentErrorCode;
+  message: string;
+  details?: UiAgentErrorDetail[];
+}
@@ -0,0 +1,7 @@
+import { defineConfig } from './server/config';
+
+export default defineConfig({
+  // The registry lists expected selectors and test IDs as strings; indexing it would
+  // make every test case match the registry instead of the component that renders it
+  ignore: ['**/TestCaseRegistry.ts'],
+});
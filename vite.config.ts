@@ -1,14 +1,19 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 import checker from 'vite-plugin-checker'
+import { uiAgent, uiAgentSourceAttributes } from './server/vitePlugin'
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [
+    // Dev server only: stamps host elements with data-ui-agent-src for the UI-Agent overlay
+    uiAgentSourceAttributes(),
     react(),
     checker({
       typescript: true,
-    })
+    }),
+    // Dev server only: UI-Agent backend under /__ui-agent, overlay added to the app
+    uiAgent(),
   ],
   resolve: {
       alias: [